@@ -40,10 +40,10 @@ async function cleanupMarkedLinks() {
   try {
     console.log('🔍 Checking for links with extension markers...');
     
-    // Get all link_scans entries
+    // Get all url_verdicts entries
     const result = await pool.query(`
       SELECT id, url, link_text 
-      FROM link_scans
+      FROM url_verdicts
     `);
 
     const linksToDelete = [];
@@ -74,7 +74,7 @@ async function cleanupMarkedLinks() {
     for (let i = 0; i < linksToDelete.length; i += BATCH_SIZE) {
       const batch = linksToDelete.slice(i, i + BATCH_SIZE);
       await pool.query(`
-        DELETE FROM link_scans
+        DELETE FROM url_verdicts
         WHERE id = ANY($1::uuid[])
       `, [batch]);
       
@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+
+/**
+ * Regenerate the bundled character bigram model (src/services/bigramModel.ts)
+ * Usage: npm run update-bigram-model -- [english.dic romanian.dic]
+ *
+ * Without arguments the Hunspell word lists are downloaded from the wooorm/dictionaries
+ * repository. English and Romanian are weighted equally, whatever their word counts.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const OUTPUT_PATH = path.join(__dirname, '../src/services/bigramModel.ts');
+const DICTIONARY_URLS = [
+  'https://raw.githubusercontent.com/wooorm/dictionaries/main/dictionaries/en/index.dic',
+  'https://raw.githubusercontent.com/wooorm/dictionaries/main/dictionaries/ro/index.dic'
+];
+
+// '^' marks the start of a label, '$' its end
+const ALPHABET = '^abcdefghijklmnopqrstuvwxyz$';
+
+async function loadWordList(source) {
+  if (!source.startsWith('http')) {
+    return fs.readFileSync(source, 'utf8');
+  }
+
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Download of ${source} failed with status ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Words of a Hunspell .dic file (or a plain one-word-per-line list),
+ * lowercased with diacritics stripped ("ştiinţă" -> "stiinta")
+ */
+function parseWords(text) {
+  const words = [];
+  for (const line of text.split(/\r?\n/)) {
+    const word = line.split('/')[0].trim()
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase();
+    if (/^[a-z]{2,}$/.test(word)) {
+      words.push(word);
+    }
+  }
+  return words;
+}
+
+function countBigrams(words) {
+  const size = ALPHABET.length;
+  const counts = Array.from({ length: size }, () => new Array(size).fill(0));
+
+  for (const word of words) {
+    const chars = `^${word}$`;
+    for (let i = 0; i < chars.length - 1; i++) {
+      counts[ALPHABET.indexOf(chars[i])][ALPHABET.indexOf(chars[i + 1])]++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * log10 P(next | previous) with add-one smoothing, each language contributing
+ * the same total weight
+ */
+function buildLogProbs(languageCounts) {
+  const size = ALPHABET.length;
+  const combined = Array.from({ length: size }, () => new Array(size).fill(0));
+
+  for (const counts of languageCounts) {
+    const total = counts.flat().reduce((sum, n) => sum + n, 0);
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        combined[i][j] += counts[i][j] / total;
+      }
+    }
+  }
+
+  return combined.map(row => {
+    const rowTotal = row.reduce((sum, n) => sum + n, 0);
+    const smoothing = 1e-5;
+    return row.map(n => Math.round(Math.log10((n + smoothing) / (rowTotal + smoothing * size)) * 100) / 100);
+  });
+}
+
+function renderModule(logProbs, wordCounts) {
+  const rows = logProbs.map((row, i) => `  /* ${ALPHABET[i]} */ [${row.join(', ')}]`).join(',\n');
+
+  return `/**
+ * Character bigram model of English and Romanian words (${wordCounts.join(' + ')} words)
+ * Source: en and ro Hunspell dictionaries (github.com/wooorm/dictionaries)
+ * Generated by scripts/update-bigram-model.js - do not edit by hand.
+ */
+
+// Row/column order of BIGRAM_LOG_PROBS; '^' starts a label and '$' ends it
+export const BIGRAM_ALPHABET = '${ALPHABET}';
+
+// BIGRAM_LOG_PROBS[previous][next] = log10 P(next | previous)
+export const BIGRAM_LOG_PROBS: readonly (readonly number[])[] = [
+${rows}
+];
+`;
+}
+
+async function main() {
+  try {
+    const sources = process.argv.length > 2 ? process.argv.slice(2) : DICTIONARY_URLS;
+    const wordLists = [];
+    for (const source of sources) {
+      wordLists.push(parseWords(await loadWordList(source)));
+    }
+
+    if (wordLists.some(words => words.length === 0)) {
+      throw new Error('A word list is empty - is this a Hunspell .dic file?');
+    }
+
+    const logProbs = buildLogProbs(wordLists.map(countBigrams));
+    fs.writeFileSync(OUTPUT_PATH, renderModule(logProbs, wordLists.map(words => words.length)));
+    console.log(`✅ Wrote bigram model from ${wordLists.map(words => words.length).join(' + ')} words to ${OUTPUT_PATH}`);
+  } catch (err) {
+    console.error('❌ Failed to update bigram model:', err.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+/**
+ * Regenerate the bundled Unicode confusables table (src/services/confusablesData.ts)
+ * Usage: npm run update-confusables -- [path/to/confusables.txt]
+ *
+ * Without an argument the table of UNICODE_VERSION is downloaded from unicode.org;
+ * bump the version to move to a newer table.
+ * Only mappings whose prototype is plain ASCII are kept - we compare skeletons
+ * against ASCII brand names, so the rest of the table can never produce a match.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const OUTPUT_PATH = path.join(__dirname, '../src/services/confusablesData.ts');
+// Unicode 17.0.0 (September 2025) is the current release of the UTS #39 security data
+const UNICODE_VERSION = '17.0.0';
+const TABLE_URL = `https://www.unicode.org/Public/security/${UNICODE_VERSION}/confusables.txt`;
+
+async function loadTable(source) {
+  if (source) {
+    return { text: fs.readFileSync(source, 'utf8'), source: path.basename(source) };
+  }
+
+  const response = await fetch(TABLE_URL);
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return { text: await response.text(), source: TABLE_URL };
+}
+
+function decodeCodePoints(field) {
+  return field.trim().split(/\s+/).map(hex => String.fromCodePoint(parseInt(hex, 16))).join('');
+}
+
+function parseTable(text) {
+  const version = text.match(/^#\s*Version:\s*(\S+)/m)?.[1] || 'unknown';
+  const mappings = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/^\uFEFF/, '').split('#')[0].trim();
+    if (!line) continue;
+
+    const [source, prototype] = line.split(';');
+    if (!source || !prototype) continue;
+
+    const target = decodeCodePoints(prototype);
+    if (/^[\x21-\x7e]+$/.test(target)) {
+      mappings.push([decodeCodePoints(source), target]);
+    }
+  }
+
+  return { version, mappings };
+}
+
+// Escape marks, format characters and spaces so the generated table stays readable
+function quote(text) {
+  return JSON.stringify(text).replace(/[\p{M}\p{C}\p{Z}]/gu, ch => `\\u{${ch.codePointAt(0).toString(16)}}`);
+}
+
+function renderModule({ version, mappings }, source) {
+  const entries = mappings
+    .map(([source, target]) => `  ${quote(source)}: ${quote(target)}`)
+    .join(',\n');
+
+  return `/**
+ * Unicode confusables (UTS #39) restricted to ASCII prototypes, version ${version}
+ * Source: ${source}
+ * Generated by scripts/update-confusables.js - do not edit by hand.
+ */
+
+export const CONFUSABLE_PROTOTYPES: Readonly<Record<string, string>> = {
+${entries}
+};
+`;
+}
+
+async function main() {
+  try {
+    const { text, source } = await loadTable(process.argv[2]);
+    const table = parseTable(text);
+
+    if (table.mappings.length === 0) {
+      throw new Error('No mappings found - is this a confusables.txt file?');
+    }
+    if (source === TABLE_URL && table.version !== UNICODE_VERSION) {
+      throw new Error(`Expected version ${UNICODE_VERSION} but the table says ${table.version}`);
+    }
+
+    fs.writeFileSync(OUTPUT_PATH, renderModule(table, source));
+    console.log(`✅ Wrote ${table.mappings.length} confusable mappings (version ${table.version}) to ${OUTPUT_PATH}`);
+  } catch (err) {
+    console.error('❌ Failed to update confusables:', err.message);
+    process.exit(1);
+  }
+}
+
+main();
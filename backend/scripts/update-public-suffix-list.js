@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Regenerate the bundled Public Suffix List snapshot (shared/publicSuffixList.ts)
+ * Usage: npm run update-public-suffix-list -- [path/to/public_suffix_list.dat]
+ *
+ * Without an argument the current list is downloaded from publicsuffix.org.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const OUTPUT_PATH = path.join(__dirname, '../shared/publicSuffixList.ts');
+const LIST_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+
+async function loadList(source) {
+  if (source) {
+    return fs.readFileSync(source, 'utf8');
+  }
+
+  const response = await fetch(LIST_URL);
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return response.text();
+}
+
+function parseSections(dat) {
+  const sections = { ICANN: [], PRIVATE: [] };
+  let current = null;
+
+  for (const rawLine of dat.split('\n')) {
+    const line = rawLine.trim();
+
+    const marker = line.match(/^\/\/ ===(BEGIN|END) (ICANN|PRIVATE) DOMAINS===/);
+    if (marker) {
+      current = marker[1] === 'BEGIN' ? marker[2] : null;
+      continue;
+    }
+
+    if (!current || !line || line.startsWith('//')) continue;
+
+    // Rules end at the first whitespace
+    sections[current].push(line.split(/\s/)[0].toLowerCase());
+  }
+
+  return sections;
+}
+
+function renderModule({ ICANN, PRIVATE }) {
+  const renderRules = (rules) => rules.map(rule => `  ${JSON.stringify(rule)}`).join(',\n');
+
+  return `/**
+ * Public Suffix List snapshot (${LIST_URL})
+ * Generated by scripts/update-public-suffix-list.js - do not edit by hand.
+ * The list is published by the Mozilla Foundation under MPL-2.0.
+ */
+
+export const ICANN_SUFFIX_RULES: readonly string[] = [
+${renderRules(ICANN)}
+];
+
+export const PRIVATE_SUFFIX_RULES: readonly string[] = [
+${renderRules(PRIVATE)}
+];
+`;
+}
+
+async function main() {
+  try {
+    const dat = await loadList(process.argv[2]);
+    const sections = parseSections(dat);
+
+    if (sections.ICANN.length === 0 || sections.PRIVATE.length === 0) {
+      throw new Error('Section markers not found - is this a public_suffix_list.dat file?');
+    }
+
+    fs.writeFileSync(OUTPUT_PATH, renderModule(sections));
+    console.log(`✅ Wrote ${sections.ICANN.length} ICANN and ${sections.PRIVATE.length} private rules to ${OUTPUT_PATH}`);
+  } catch (err) {
+    console.error('❌ Failed to update Public Suffix List:', err.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,123 @@
+/**
+ * URLs embedded in other URLs' query strings - open redirects and link wrappers
+ * ("https://www.google.com/url?q=https://evil.tld", "?next=", "?redirect_uri=", "?u=").
+ * Shared by the backend heuristics and the extension content script.
+ */
+
+export type EmbeddedUrl = {
+  param: string; // Query (or fragment) parameter holding the URL
+  url: string;
+  encoding: 'plain' | 'percent-encoded' | 'base64';
+  depth: number; // 1 for a URL inside the link, 2 for a URL inside that one, ...
+};
+
+const MAX_DECODE_ROUNDS = 3;
+const MAX_DEPTH = 3;
+const MAX_EMBEDDED_URLS = 5;
+
+const ABSOLUTE_URL_PATTERN = /^https?:\/\/[^\s/?#]+/i;
+// Long enough to hold an encoded "https://x.yz"; '-' and '_' cover URL-safe base64
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]{16,}={0,2}$/;
+
+function decodeBase64(value: string): string | null {
+  const normalized = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  try {
+    return atob(padded);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a parameter value into an absolute http(s) URL, if it holds one.
+ * Values arrive percent-decoded once; double-encoded ones need more rounds.
+ */
+function decodeUrlValue(value: string): { url: string; encoding: EmbeddedUrl['encoding'] } | null {
+  let current = value.trim();
+  let encoding: EmbeddedUrl['encoding'] = 'plain';
+
+  for (let round = 0; round <= MAX_DECODE_ROUNDS; round++) {
+    if (ABSOLUTE_URL_PATTERN.test(current)) {
+      return { url: current, encoding };
+    }
+    if (!/%[0-9a-f]{2}/i.test(current) || round === MAX_DECODE_ROUNDS) {
+      break;
+    }
+    try {
+      current = decodeURIComponent(current);
+      encoding = 'percent-encoded';
+    } catch {
+      break;
+    }
+  }
+
+  if (BASE64_PATTERN.test(current)) {
+    const decoded = decodeBase64(current);
+    if (decoded && ABSOLUTE_URL_PATTERN.test(decoded)) {
+      return { url: decoded, encoding: 'base64' };
+    }
+  }
+
+  return null;
+}
+
+function safeDecodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function getParameters(url: URL): Array<[string, string]> {
+  const params = Array.from(url.searchParams.entries());
+  // Android intents keep their fallback in the fragment ("#Intent;...;S.browser_fallback_url=https%3A...;end")
+  if (/^#Intent;/i.test(url.hash)) {
+    for (const part of url.hash.slice(1).split(';')) {
+      const separator = part.indexOf('=');
+      if (separator > 0) {
+        params.push([part.slice(0, separator), safeDecodeComponent(part.slice(separator + 1))]);
+      }
+    }
+  } else if (url.hash.includes('=')) {
+    // Some wrappers carry the target in a query-like fragment ("#url=https://...")
+    params.push(...new URLSearchParams(url.hash.slice(1)).entries());
+  }
+  return params;
+}
+
+/**
+ * Every absolute URL embedded in a URL's parameters, including URLs nested inside
+ * those (up to three levels deep), in order of appearance and without duplicates
+ */
+export function extractEmbeddedUrls(url: URL): EmbeddedUrl[] {
+  const results: EmbeddedUrl[] = [];
+  const seen = new Set<string>([url.href]);
+
+  const visit = (current: URL, depth: number) => {
+    for (const [param, value] of getParameters(current)) {
+      if (results.length >= MAX_EMBEDDED_URLS) return;
+
+      const decoded = decodeUrlValue(value);
+      if (!decoded) continue;
+
+      let embedded: URL;
+      try {
+        embedded = new URL(decoded.url);
+      } catch {
+        continue;
+      }
+      if (seen.has(embedded.href)) continue;
+      seen.add(embedded.href);
+
+      results.push({ param, url: embedded.href, encoding: decoded.encoding, depth });
+      if (depth < MAX_DEPTH) {
+        visit(embedded, depth + 1);
+      }
+    }
+  };
+
+  visit(url, 1);
+  return results;
+}
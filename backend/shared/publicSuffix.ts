@@ -0,0 +1,152 @@
+import { ICANN_SUFFIX_RULES, PRIVATE_SUFFIX_RULES } from './publicSuffixList.js';
+
+/**
+ * Offline Public Suffix List lookups.
+ * Shared by the backend heuristics and the extension content script so both sides
+ * agree on what counts as "the same site".
+ */
+
+type RuleSet = {
+  exact: Set<string>;
+  wildcard: Set<string>; // "*.ck" is stored as "ck"
+  exception: Set<string>; // "!www.ck" is stored as "www.ck"
+};
+
+export type PublicSuffixOptions = {
+  /**
+   * Honour the PRIVATE section (github.io, blogspot.com, ...). Defaults to true,
+   * which makes every user page on a hosting platform its own registrable domain.
+   */
+  includePrivate?: boolean;
+};
+
+/**
+ * Convert a (possibly Unicode) domain to its ASCII/punycode form.
+ * URL.hostname is always ASCII, so rules and inputs are compared in that form.
+ */
+function toAscii(domain: string): string {
+  if (!/[^ -~]/.test(domain)) {
+    return domain;
+  }
+  try {
+    return new URL(`http://${domain}`).hostname;
+  } catch {
+    return domain;
+  }
+}
+
+function buildRuleSet(rules: readonly string[]): RuleSet {
+  const ruleSet: RuleSet = { exact: new Set(), wildcard: new Set(), exception: new Set() };
+
+  for (const rule of rules) {
+    if (rule.startsWith('!')) {
+      ruleSet.exception.add(toAscii(rule.slice(1)));
+    } else if (rule.startsWith('*.')) {
+      ruleSet.wildcard.add(toAscii(rule.slice(2)));
+    } else {
+      ruleSet.exact.add(toAscii(rule));
+    }
+  }
+
+  return ruleSet;
+}
+
+// Built lazily - most requests never need the private section split out
+let icannRules: RuleSet | null = null;
+let privateRules: RuleSet | null = null;
+
+function getRuleSets(includePrivate: boolean): RuleSet[] {
+  if (!icannRules) icannRules = buildRuleSet(ICANN_SUFFIX_RULES);
+  if (!includePrivate) return [icannRules];
+  if (!privateRules) privateRules = buildRuleSet(PRIVATE_SUFFIX_RULES);
+  return [icannRules, privateRules];
+}
+
+/**
+ * Normalize a hostname for lookups (lowercase, no trailing dot, ASCII)
+ */
+function normalizeHost(hostname: string): string {
+  return toAscii(hostname.trim().toLowerCase().replace(/\.+$/, ''));
+}
+
+/**
+ * Check whether a hostname is an IP literal (IPv4 dotted quad or bracketed/bare IPv6)
+ */
+export function isIpAddress(hostname: string): boolean {
+  return /^(\d{1,3}\.){3}\d{1,3}$/.test(hostname) || hostname.includes(':') || hostname.startsWith('[');
+}
+
+/**
+ * Check whether a hostname ends in a real top-level domain (ICANN section of the list).
+ * Tells domain names in free text apart from file names like "notes.txt".
+ */
+export function hasKnownTld(hostname: string): boolean {
+  const host = normalizeHost(hostname);
+  const tld = host.slice(host.lastIndexOf('.') + 1);
+  if (!tld) return false;
+
+  const [rules] = getRuleSets(false);
+  return rules.exact.has(tld) || rules.wildcard.has(tld);
+}
+
+/**
+ * Number of trailing labels of `labels` that form the public suffix.
+ * Implements the PSL algorithm: exception rules win, then the longest matching
+ * normal or wildcard rule, falling back to the implicit "*" rule (the TLD).
+ */
+function matchSuffixLength(labels: string[], ruleSets: RuleSet[]): number {
+  let longest = 1;
+
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    const parent = labels.slice(i + 1).join('.');
+    const length = labels.length - i;
+
+    for (const rules of ruleSets) {
+      if (rules.exception.has(candidate)) {
+        // Exception rules are always the most specific match
+        return length - 1;
+      }
+      if (rules.exact.has(candidate) || (parent && rules.wildcard.has(parent))) {
+        longest = Math.max(longest, length);
+      }
+    }
+  }
+
+  return longest;
+}
+
+/**
+ * Get the public suffix of a hostname ("co.uk" for "www.bbc.co.uk").
+ * Returns null for IP addresses and empty input.
+ */
+export function getPublicSuffix(hostname: string, options: PublicSuffixOptions = {}): string | null {
+  const host = normalizeHost(hostname);
+  if (!host || isIpAddress(host)) return null;
+
+  const labels = host.split('.');
+  if (labels.some(label => label.length === 0)) return null;
+
+  const suffixLength = matchSuffixLength(labels, getRuleSets(options.includePrivate !== false));
+  return labels.slice(-suffixLength).join('.');
+}
+
+/**
+ * Get the registrable domain (public suffix + one label) of a hostname,
+ * e.g. "www.bbc.co.uk" -> "bbc.co.uk", "alice.github.io" -> "alice.github.io".
+ *
+ * IP addresses are returned unchanged. Returns null when the hostname is itself
+ * a public suffix (e.g. "co.uk" or "github.io") and therefore has no owner.
+ */
+export function getRegistrableDomain(hostname: string, options: PublicSuffixOptions = {}): string | null {
+  const host = normalizeHost(hostname);
+  if (!host) return null;
+  if (isIpAddress(host)) return host;
+
+  const suffix = getPublicSuffix(host, options);
+  if (!suffix || suffix === host) return null;
+
+  const labels = host.split('.');
+  const suffixLength = suffix.split('.').length;
+  return labels.slice(-(suffixLength + 1)).join('.');
+}
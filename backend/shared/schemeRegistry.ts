@@ -0,0 +1,73 @@
+/**
+ * Registry of URL schemes links may use and what opening them does.
+ * The content script uses it to decide which links to send for analysis,
+ * the backend to score links that leave the web (OS handlers, file shares, app intents).
+ */
+
+export type SchemeCategory =
+  | 'web'
+  | 'os_handler' // Windows protocol handlers with a history of remote code execution
+  | 'file_share' // Local files and network shares (NTLM credential leaks)
+  | 'app_intent' // Android intents
+  | 'contact' // Calls, texts and emails
+  | 'blob' // Content generated by the page itself (HTML smuggling)
+  | 'script'; // Run or render content inside the page
+
+export type SchemeEntry = {
+  category: SchemeCategory;
+  description: string; // What opening the link does, completing "The link ..."
+  analyze: boolean; // Whether the content script sends these links to the backend
+};
+
+export const SCHEME_REGISTRY: Readonly<Record<string, SchemeEntry>> = {
+  http: { category: 'web', description: 'opens a website', analyze: true },
+  https: { category: 'web', description: 'opens a website', analyze: true },
+
+  'ms-msdt': { category: 'os_handler', description: 'runs the Microsoft Support Diagnostic Tool, abused to run code on Windows (Follina)', analyze: true },
+  'search-ms': { category: 'os_handler', description: 'opens Windows Search with files from a remote share shown as if they were local', analyze: true },
+  search: { category: 'os_handler', description: 'opens Windows Search with files from a remote share shown as if they were local', analyze: true },
+  'ms-officecmd': { category: 'os_handler', description: 'launches Office apps with command-line arguments, abused to run code', analyze: true },
+  'ms-word': { category: 'os_handler', description: 'opens a remote document directly in Word', analyze: true },
+  'ms-excel': { category: 'os_handler', description: 'opens a remote document directly in Excel', analyze: true },
+  'ms-powerpoint': { category: 'os_handler', description: 'opens a remote document directly in PowerPoint', analyze: true },
+  'ms-appinstaller': { category: 'os_handler', description: 'installs a Windows app package from the web', analyze: true },
+
+  file: { category: 'file_share', description: 'opens a local or network file', analyze: true },
+  smb: { category: 'file_share', description: 'opens a Windows file share', analyze: true },
+
+  intent: { category: 'app_intent', description: 'opens an Android app', analyze: true },
+
+  tel: { category: 'contact', description: 'starts a phone call', analyze: true },
+  sms: { category: 'contact', description: 'sends a text message', analyze: true },
+  smsto: { category: 'contact', description: 'sends a text message', analyze: true },
+  mailto: { category: 'contact', description: 'writes an email', analyze: true },
+
+  blob: { category: 'blob', description: 'opens content generated inside the page', analyze: true },
+
+  // Pages use these as buttons; there is no destination to look up
+  javascript: { category: 'script', description: 'runs script in the page', analyze: false },
+  vbscript: { category: 'script', description: 'runs script in the page', analyze: false },
+  data: { category: 'script', description: 'renders content embedded in the link', analyze: false }
+};
+
+/**
+ * Lowercase scheme of an href ('ms-msdt:/id ...' -> 'ms-msdt'), or '' for relative hrefs
+ */
+export function getLinkScheme(href: string): string {
+  const match = href.trim().match(/^([a-z][a-z0-9+.-]*):/i);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * Registry entry of a scheme ('tel' or 'tel:'), or null for schemes it does not know
+ */
+export function getSchemeEntry(scheme: string): SchemeEntry | null {
+  return SCHEME_REGISTRY[scheme.toLowerCase().replace(/:$/, '')] || null;
+}
+
+/**
+ * Check whether a link should be analyzed (unknown schemes are: they open some app)
+ */
+export function isAnalyzedScheme(href: string): boolean {
+  return getSchemeEntry(getLinkScheme(href))?.analyze ?? true;
+}
@@ -0,0 +1,101 @@
+import { getPublicSuffix, getRegistrableDomain } from './publicSuffix.js';
+
+/**
+ * Built-in list of renowned sites. Shared by the backend heuristics and the extension
+ * content script; the backend layers database allow/deny lists on top of it.
+ */
+
+// Known safe/trusted domains - skip AI analysis for these renowned sites
+export const KNOWN_SAFE_DOMAINS: ReadonlySet<string> = new Set([
+  // Google services
+  'google.com', 'google.ro', 'google.co.uk', 'google.de', 'google.fr', 'google.it', 'google.es',
+  'gmail.com', 'googlemail.com', 'googledrive.com', 'googleusercontent.com', 'googleapis.com',
+  'youtube.com', 'youtu.be', 'gstatic.com', 'google-analytics.com', 'doubleclick.net',
+  'googletagmanager.com', 'googleadservices.com', 'googleadsserving.cn',
+  
+  // Microsoft
+  'microsoft.com', 'microsoftstore.com', 'office.com', 'office365.com', 'outlook.com',
+  'live.com', 'hotmail.com', 'msn.com', 'bing.com', 'azure.com', 'github.com', 'github.io',
+  'githubusercontent.com', 'npmjs.com', 'nuget.org',
+  
+  // Apple
+  'apple.com', 'icloud.com', 'appleid.apple.com', 'appstore.com', 'itunes.com',
+  
+  // Social Media
+  'facebook.com', 'fb.com', 'instagram.com', 'whatsapp.com', 'messenger.com',
+  'twitter.com', 'x.com', 't.co', 'linkedin.com', 'pinterest.com', 'tumblr.com',
+  'reddit.com', 'redd.it', 'discord.com', 'discord.gg', 'telegram.org', 't.me',
+  'snapchat.com', 'tiktok.com',
+  
+  // E-commerce & Services
+  'amazon.com', 'amazon.co.uk', 'amazon.de', 'amazon.fr', 'amazon.it', 'amazon.es',
+  'ebay.com', 'paypal.com', 'stripe.com', 'shopify.com', 'etsy.com',
+  
+  // Streaming & Entertainment
+  'netflix.com', 'spotify.com', 'youtube.com', 'twitch.tv', 'vimeo.com', 'dailymotion.com',
+  'soundcloud.com', 'bandcamp.com',
+  
+  // News & Information
+  'wikipedia.org', 'wikimedia.org', 'wikidata.org', 'bbc.com', 'bbc.co.uk',
+  'cnn.com', 'reuters.com', 'theguardian.com', 'nytimes.com', 'washingtonpost.com',
+  'wsj.com', 'bloomberg.com', 'forbes.com', 'techcrunch.com', 'theverge.com',
+  
+  // Developer & Tech
+  'stackoverflow.com', 'stackexchange.com', 'github.com', 'gitlab.com', 'bitbucket.org',
+  'npmjs.com', 'pypi.org', 'docker.com', 'kubernetes.io', 'nodejs.org', 'python.org',
+  'mozilla.org', 'firefox.com', 'chromium.org', 'webkit.org',
+  
+  // Cloud Services
+  'aws.amazon.com', 'cloud.google.com', 'azure.microsoft.com', 'digitalocean.com',
+  'heroku.com', 'vercel.com', 'netlify.com', 'cloudflare.com',
+  
+  // Education
+  'edu', 'harvard.edu', 'mit.edu', 'stanford.edu', 'coursera.org', 'edx.org',
+  'khanacademy.org', 'udemy.com', 'udacity.com',
+  
+  // Government & Organizations
+  'gov', 'gov.uk', 'europa.eu', 'un.org', 'who.int', 'w3.org', 'ietf.org',
+  
+  // Banking & Finance (major banks - be careful, but these are well-known)
+  'chase.com', 'bankofamerica.com', 'wellsfargo.com', 'citi.com', 'usbank.com',
+  'visa.com', 'mastercard.com', 'americanexpress.com',
+  
+  // Other trusted services
+  'dropbox.com', 'box.com', 'onedrive.com', 'icloud.com',
+  'adobe.com', 'adobe.io', 'autodesk.com',
+  'oracle.com', 'ibm.com', 'intel.com', 'nvidia.com', 'amd.com',
+  'salesforce.com', 'servicenow.com', 'sap.com',
+  'zoom.us', 'webex.com', 'gotomeeting.com',
+  'slack.com', 'microsoft.com', 'teams.microsoft.com',
+  'atlassian.com', 'jira.com', 'confluence.com', 'trello.com',
+  'notion.so', 'evernote.com', 'onenote.com'
+]);
+
+/**
+ * Check if a domain is in the built-in trusted list (including subdomains)
+ * Matching is done on the PSL registrable domain, so 'evil.co.uk' never inherits
+ * trust from a 'co.uk' entry and 'alice.github.io' is not trusted as 'github.io'.
+ */
+export function isBuiltInTrustedDomain(domain: string): boolean {
+  const domainLower = domain.toLowerCase().replace(/\.$/, '');
+  
+  // Check exact match
+  if (KNOWN_SAFE_DOMAINS.has(domainLower)) {
+    return true;
+  }
+  
+  // Check registrable domain (e.g., 'mail.google.com' -> 'google.com', 'news.bbc.co.uk' -> 'bbc.co.uk')
+  const registrableDomain = getRegistrableDomain(domainLower);
+  if (registrableDomain && KNOWN_SAFE_DOMAINS.has(registrableDomain)) {
+    return true;
+  }
+  
+  // Check suffix-only entries (e.g., 'edu', 'gov', 'gov.uk') - ICANN section only,
+  // so hosting platforms like 'github.io' never vouch for their users' pages
+  const publicSuffix = getPublicSuffix(domainLower, { includePrivate: false });
+  if (publicSuffix && KNOWN_SAFE_DOMAINS.has(publicSuffix)) {
+    return true;
+  }
+  
+  return false;
+}
@@ -1,5 +1,6 @@
 export type LinkMeta = {
   href: string;
+  rawHref?: string; // href attribute as written, when the browser normalized it (numeric IPs, backslashes, '%2e')
   text: string;
   rel?: string;
   target?: string;
@@ -9,10 +10,43 @@ export type LinkMeta = {
   elementSelector?: string;
 };
 
+export type FindingSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+export type FindingSource = 'heuristics' | 'external' | 'ai';
+
+export type Finding = {
+  code: string; // Stable identifier, e.g. 'no_https', 'typosquatting'
+  severity: FindingSeverity;
+  weight: number; // Trust score penalty (0..1) applied when scoring
+  evidence?: string; // Human-readable detail, e.g. the impersonated brand
+  source: FindingSource;
+};
+
+export type RedirectHop = {
+  url: string;
+  status?: number; // HTTP status returned by this hop, if it was requested
+  via: 'initial' | 'http' | 'meta-refresh' | 'javascript'; // How this hop was reached
+};
+
+// One step of the trust score calculation, in the order it was applied
+export type ScoreStep = {
+  kind: 'baseline' | 'reputation' | 'finding' | 'flag' | 'external' | 'target' | 'ai' | 'list' | 'clamp';
+  label: string; // What caused the change, e.g. a finding's evidence
+  code?: string; // Finding code or flag name
+  delta: number; // Change this step made to the score
+  score: number; // Score after this step
+};
+
+// Named set of finding weights, category thresholds and provider blend used to score links
+export type ScoringProfileName = 'strict' | 'balanced' | 'lenient' | 'custom';
+
 export type TrustVerdict = {
   trustScore: number; // 0..1
   category: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
-  issues: string[];
+  findings?: Finding[];
+  issues: string[]; // Legacy string projection of findings, kept for older extension builds
+  redirectChain?: RedirectHop[]; // Set when the link redirects elsewhere
+  scoreBreakdown?: ScoreStep[]; // How trustScore was reached
   gptSummary?: string;
   recommendation?: string;
   riskTags?: string[];
@@ -22,5 +56,7 @@ export type TrustVerdict = {
 export type LinkAnalysis = {
   link: LinkMeta;
   verdict: TrustVerdict;
+  aiJobId?: string; // Queued AI analysis (GET /api/ai-analyze/jobs/:id)
+  aiJobStatus?: 'queued' | 'running' | 'done' | 'failed'; // Its status when the request stopped waiting for it
 };
 
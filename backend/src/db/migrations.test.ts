@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { applyMigrations } from './migrations.js';
+import { startTestDatabase, TEST_DATABASE_START_TIMEOUT_MS, type TestDatabase } from './testDatabase.js';
+
+const USER_ID = '11111111-1111-1111-1111-111111111111';
+
+// The schema before url_verdicts: link_scans rows owned by the user who scanned them
+const LINK_SCANS_SCHEMA = `
+  CREATE TABLE users (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    email text UNIQUE NOT NULL,
+    created_at timestamptz DEFAULT now()
+  );
+  CREATE TABLE link_scans (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+    domain text NOT NULL,
+    url text NOT NULL,
+    link_text text,
+    detected_issues jsonb DEFAULT '[]'::jsonb,
+    trust_score numeric NOT NULL CHECK (trust_score >= 0 AND trust_score <= 1),
+    category text CHECK (category IN ('SAFE', 'SUSPICIOUS', 'DANGEROUS')),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT unique_url_recent UNIQUE (url)
+  );
+  CREATE INDEX idx_link_scans_domain ON link_scans(domain);
+  CREATE INDEX idx_link_scans_user_id ON link_scans(user_id);
+  CREATE INDEX idx_link_scans_created_at ON link_scans(created_at);
+  CREATE INDEX idx_link_scans_url ON link_scans(url);
+  CREATE INDEX idx_link_scans_url_created ON link_scans(url, created_at DESC);
+  INSERT INTO users (id, email) VALUES ('${USER_ID}', 'user@example.com');
+  INSERT INTO link_scans (user_id, domain, url, trust_score, category, updated_at) VALUES
+    ('${USER_ID}', 'news.example', 'https://phish.example/login', 0.2, 'DANGEROUS', '2024-01-02'),
+    (NULL, 'news.example', 'https://shop.example/', 0.9, 'SAFE', '2024-01-01');
+`;
+
+describe('Migrations', () => {
+  const rows = async (db: TestDatabase, sql: string, params?: unknown[]) => (await db.query(sql, params)).rows;
+  const indexes = async (db: TestDatabase, table: string) =>
+    (await db.query<{ indexname: string }>('SELECT indexname FROM pg_indexes WHERE tablename = $1', [table]))
+      .rows.map(row => row.indexname);
+
+  describe('on an empty database', () => {
+    let db: TestDatabase;
+
+    beforeAll(async () => {
+      db = await startTestDatabase({ migrate: true });
+    }, TEST_DATABASE_START_TIMEOUT_MS);
+
+    afterAll(() => db.close());
+
+    it('should create the schema', async () => {
+      const tables = await db.query<{ table_name: string }>(
+        `SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'`
+      );
+      expect(tables.rows.map(row => row.table_name)).toEqual(expect.arrayContaining([
+        'users', 'url_verdicts', 'user_scan_events', 'ai_jobs', 'domain_reputation'
+      ]));
+    });
+  });
+
+  describe('on a database with link_scans', () => {
+    let db: TestDatabase;
+
+    beforeAll(async () => {
+      db = await startTestDatabase();
+      await db.query(LINK_SCANS_SCHEMA);
+      await applyMigrations(db);
+    }, TEST_DATABASE_START_TIMEOUT_MS);
+
+    afterAll(() => db.close());
+
+    it('should rename link_scans to url_verdicts and drop its user_id column', async () => {
+      expect(await rows(db, `SELECT 1 FROM information_schema.tables WHERE table_name = 'link_scans'`)).toHaveLength(0);
+      expect(await rows(db, 'SELECT url, category FROM url_verdicts ORDER BY url')).toEqual([
+        { url: 'https://phish.example/login', category: 'DANGEROUS' },
+        { url: 'https://shop.example/', category: 'SAFE' }
+      ]);
+      expect(await rows(db, 
+        `SELECT 1 FROM information_schema.columns WHERE table_name = 'url_verdicts' AND column_name = 'user_id'`
+      )).toHaveLength(0);
+    });
+
+    it('should move the owners of the rows into the history', async () => {
+      expect(await rows(db, 
+        `SELECT e.user_id, v.url, e.source_domain, e.action
+         FROM user_scan_events e JOIN url_verdicts v ON v.id = e.url_verdict_id`
+      )).toEqual([
+        { user_id: USER_ID, url: 'https://phish.example/login', source_domain: 'news.example', action: 'scan' }
+      ]);
+    });
+
+    it('should rename the link_scans indexes', async () => {
+      const verdictIndexes = await indexes(db, 'url_verdicts');
+      expect(verdictIndexes).toEqual(expect.arrayContaining([
+        'idx_url_verdicts_domain', 'idx_url_verdicts_created_at', 'idx_url_verdicts_url', 'idx_url_verdicts_url_created'
+      ]));
+      expect(verdictIndexes.filter(name => name.startsWith('idx_link_scans_'))).toEqual([]);
+    });
+
+    it('should leave the migrated database unchanged when run again', async () => {
+      await applyMigrations(db);
+
+      expect(await rows(db, 'SELECT 1 FROM url_verdicts')).toHaveLength(2);
+      expect(await rows(db, 'SELECT 1 FROM user_scan_events')).toHaveLength(1);
+    });
+  });
+
+  describe('on a database with verdicts but no domain reputation', () => {
+    let db: TestDatabase;
+
+    beforeAll(async () => {
+      db = await startTestDatabase({ migrate: true });
+      await db.query(`
+        INSERT INTO url_verdicts (domain, url, trust_score, category) VALUES
+          ('login.evil-site.tk', 'https://login.evil-site.tk/a', 0.1, 'DANGEROUS'),
+          ('evil-site.tk', 'https://user@evil-site.tk:8443/', 0.5, 'SUSPICIOUS'),
+          ('evil-site.tk', 'https://evil-site.tk/b', 0.8, 'SAFE'),
+          ('shop.example', 'https://shop.example/', 0.9, 'SAFE'),
+          ('', 'mailto:help@shop.example', 0.7, 'SAFE')
+      `);
+      await applyMigrations(db);
+    }, TEST_DATABASE_START_TIMEOUT_MS);
+
+    afterAll(() => db.close());
+
+    it('should count the verdicts toward the reputation of their sites', async () => {
+      expect(await rows(db, 'SELECT domain, safe_count, suspicious_count, dangerous_count FROM domain_reputation ORDER BY domain')).toEqual([
+        { domain: 'evil-site.tk', safe_count: 1, suspicious_count: 1, dangerous_count: 1 },
+        { domain: 'shop.example', safe_count: 1, suspicious_count: 0, dangerous_count: 0 }
+      ]);
+    });
+
+    it('should not count them again', async () => {
+      await applyMigrations(db);
+
+      expect(await rows(db, 'SELECT safe_count FROM domain_reputation WHERE domain = $1', ['shop.example'])).toEqual([{ safe_count: 1 }]);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
 
 // Create a separate pool for migrations to avoid circular dependency
 const getPool = () => {
@@ -27,121 +28,22 @@ const getPool = () => {
   });
 };
 
+// The part of a pg client the migrations use
+export type MigrationClient = {
+  query(sql: string, params?: unknown[]): Promise<{ rows: Array<Record<string, unknown>> }>;
+};
+
+// Host of a stored URL (null for URLs without one, like mailto:); URLs are stored normalized
+const verdictHostSql = (column: string) =>
+  `lower(substring(${column} from '^[a-z][a-z0-9+.-]*://(?:[^/?#@]*@)?([^/?#:]+)'))`;
+
 export async function runMigrations() {
   const pool = getPool();
   const client = await pool.connect();
   
   try {
     await client.query('BEGIN');
-    
-    // Create users table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS users (
-        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-        email text UNIQUE NOT NULL,
-        password_hash text,
-        created_at timestamptz DEFAULT now(),
-        plan text DEFAULT 'free' CHECK (plan IN ('free', 'trial', 'premium')),
-        plan_started_at timestamptz,
-        trial_expires_at timestamptz,
-        stripe_customer_id text,
-        stripe_subscription_id text
-      )
-    `);
-    
-    // Add password_hash column if it doesn't exist (for existing databases)
-    await client.query(`
-      DO $$ 
-      BEGIN
-        IF NOT EXISTS (
-          SELECT 1 FROM information_schema.columns 
-          WHERE table_name='users' AND column_name='password_hash'
-        ) THEN
-          ALTER TABLE users ADD COLUMN password_hash text;
-        END IF;
-      END $$;
-    `);
-    
-    // Create domains table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS domains (
-        id serial PRIMARY KEY,
-        domain text UNIQUE NOT NULL,
-        default_enabled boolean DEFAULT true,
-        created_at timestamptz DEFAULT now()
-      )
-    `);
-    
-    // Create link_scans table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS link_scans (
-        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-        user_id uuid REFERENCES users(id) ON DELETE SET NULL,
-        domain text NOT NULL,
-        url text NOT NULL,
-        link_text text,
-        detected_issues jsonb DEFAULT '[]'::jsonb,
-        trust_score numeric NOT NULL CHECK (trust_score >= 0 AND trust_score <= 1),
-        gpt_summary text,
-        ollama_analysis jsonb,
-        external_checks jsonb,
-        recommendation text,
-        risk_tags jsonb,
-        confidence numeric,
-        category text CHECK (category IN ('SAFE', 'SUSPICIOUS', 'DANGEROUS')),
-        created_at timestamptz DEFAULT now(),
-        updated_at timestamptz DEFAULT now(),
-        CONSTRAINT unique_url_recent UNIQUE (url)
-      )
-    `);
-    
-    // Add new columns if they don't exist (for existing databases)
-    await client.query(`
-      DO $$ 
-      BEGIN
-        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='link_scans' AND column_name='ollama_analysis') THEN
-          ALTER TABLE link_scans ADD COLUMN ollama_analysis jsonb;
-        END IF;
-        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='link_scans' AND column_name='external_checks') THEN
-          ALTER TABLE link_scans ADD COLUMN external_checks jsonb;
-        END IF;
-        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='link_scans' AND column_name='recommendation') THEN
-          ALTER TABLE link_scans ADD COLUMN recommendation text;
-        END IF;
-        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='link_scans' AND column_name='risk_tags') THEN
-          ALTER TABLE link_scans ADD COLUMN risk_tags jsonb;
-        END IF;
-        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='link_scans' AND column_name='confidence') THEN
-          ALTER TABLE link_scans ADD COLUMN confidence numeric;
-        END IF;
-        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='link_scans' AND column_name='updated_at') THEN
-          ALTER TABLE link_scans ADD COLUMN updated_at timestamptz DEFAULT now();
-        END IF;
-      END $$;
-    `);
-    
-    // Create site_settings table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS site_settings (
-        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-        user_id uuid REFERENCES users(id) ON DELETE CASCADE,
-        domain text NOT NULL,
-        enabled boolean DEFAULT true,
-        created_at timestamptz DEFAULT now(),
-        UNIQUE(user_id, domain)
-      )
-    `);
-    
-    // Create indexes for efficient lookups
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_link_scans_domain ON link_scans(domain);
-      CREATE INDEX IF NOT EXISTS idx_link_scans_user_id ON link_scans(user_id);
-      CREATE INDEX IF NOT EXISTS idx_link_scans_created_at ON link_scans(created_at);
-      CREATE INDEX IF NOT EXISTS idx_link_scans_url ON link_scans(url);
-      CREATE INDEX IF NOT EXISTS idx_link_scans_url_created ON link_scans(url, created_at DESC);
-      CREATE INDEX IF NOT EXISTS idx_site_settings_user_domain ON site_settings(user_id, domain);
-    `);
-    
+    await applyMigrations(client);
     await client.query('COMMIT');
     console.log('Migrations completed successfully');
   } catch (err) {
@@ -154,3 +56,329 @@ export async function runMigrations() {
   }
 }
 
+/**
+ * Bring the schema up to date; safe to run on every start. The caller owns the transaction.
+ */
+export async function applyMigrations(client: MigrationClient) {
+  // Create users table
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS users (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      email text UNIQUE NOT NULL,
+      password_hash text,
+      created_at timestamptz DEFAULT now(),
+      plan text DEFAULT 'free' CHECK (plan IN ('free', 'trial', 'premium')),
+      plan_started_at timestamptz,
+      trial_expires_at timestamptz,
+      stripe_customer_id text,
+      stripe_subscription_id text,
+      scoring_profile text DEFAULT 'balanced' CHECK (scoring_profile IN ('strict', 'balanced', 'lenient', 'custom'))
+    )
+  `);
+  
+  // Add password_hash and scoring_profile columns if they don't exist (for existing databases)
+  await client.query(`
+    DO $$ 
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name='users' AND column_name='password_hash'
+      ) THEN
+        ALTER TABLE users ADD COLUMN password_hash text;
+      END IF;
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_name='users' AND column_name='scoring_profile'
+      ) THEN
+        ALTER TABLE users ADD COLUMN scoring_profile text DEFAULT 'balanced'
+          CHECK (scoring_profile IN ('strict', 'balanced', 'lenient', 'custom'));
+      END IF;
+    END $$;
+  `);
+  
+  // Create scoring_profiles table (each user's custom scoring profile)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS scoring_profiles (
+      user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      weight_scale numeric NOT NULL DEFAULT 1,
+      finding_weights jsonb NOT NULL DEFAULT '{}'::jsonb,
+      safe_threshold numeric NOT NULL CHECK (safe_threshold > 0 AND safe_threshold <= 1),
+      suspicious_threshold numeric NOT NULL CHECK (suspicious_threshold >= 0 AND suspicious_threshold < safe_threshold),
+      provider_blend numeric NOT NULL DEFAULT 0.4 CHECK (provider_blend >= 0 AND provider_blend <= 1),
+      updated_at timestamptz DEFAULT now()
+    )
+  `);
+  
+  // Create domain_lists table (allow/deny entries; user_id NULL means global)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS domain_lists (
+      id serial PRIMARY KEY,
+      domain text NOT NULL,
+      list_type text NOT NULL CHECK (list_type IN ('allow', 'deny')),
+      user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+      reason text,
+      added_by uuid REFERENCES users(id) ON DELETE SET NULL,
+      expires_at timestamptz,
+      created_at timestamptz DEFAULT now(),
+      updated_at timestamptz DEFAULT now()
+    )
+  `);
+  
+  // One entry per domain and scope
+  await client.query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_domain_lists_scope_domain
+      ON domain_lists (COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid), domain)
+  `);
+  
+  // Fold the old (never used) domains table into global allowlist entries (information_schema
+  // has a domains view of its own, hence the schema)
+  await client.query(`
+    DO $$ 
+    BEGIN
+      IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema=current_schema() AND table_name='domains') THEN
+        INSERT INTO domain_lists (domain, list_type, reason)
+        SELECT lower(domain), 'allow', 'Imported from the domains table'
+        FROM domains
+        ON CONFLICT DO NOTHING;
+        DROP TABLE domains;
+      END IF;
+    END $$;
+  `);
+  
+  // link_scans was split into url_verdicts (the global cache) and user_scan_events (per-user history)
+  await client.query(`
+    DO $$
+    BEGIN
+      IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name='link_scans')
+         AND NOT EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name='url_verdicts') THEN
+        ALTER TABLE link_scans RENAME TO url_verdicts;
+        ALTER INDEX IF EXISTS idx_link_scans_domain RENAME TO idx_url_verdicts_domain;
+        ALTER INDEX IF EXISTS idx_link_scans_created_at RENAME TO idx_url_verdicts_created_at;
+        ALTER INDEX IF EXISTS idx_link_scans_url RENAME TO idx_url_verdicts_url;
+        ALTER INDEX IF EXISTS idx_link_scans_url_created RENAME TO idx_url_verdicts_url_created;
+        ALTER INDEX IF EXISTS idx_link_scans_engine_version RENAME TO idx_url_verdicts_engine_version;
+      END IF;
+    END $$;
+  `);
+
+  // Create url_verdicts table (one verdict per normalized URL, shared by all users)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS url_verdicts (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      domain text NOT NULL,
+      url text NOT NULL,
+      link_text text,
+      detected_issues jsonb DEFAULT '[]'::jsonb,
+      findings jsonb DEFAULT '[]'::jsonb,
+      redirect_chain jsonb,
+      score_breakdown jsonb,
+      raw_findings jsonb,
+      confirmed_label text CHECK (confirmed_label IN ('benign', 'phishing', 'malware')),
+      engine_version text,
+      scanned_at timestamptz DEFAULT now(),
+      trust_score numeric NOT NULL CHECK (trust_score >= 0 AND trust_score <= 1),
+      gpt_summary text,
+      ollama_analysis jsonb,
+      external_checks jsonb,
+      recommendation text,
+      risk_tags jsonb,
+      confidence numeric,
+      category text CHECK (category IN ('SAFE', 'SUSPICIOUS', 'DANGEROUS')),
+      created_at timestamptz DEFAULT now(),
+      updated_at timestamptz DEFAULT now(),
+      CONSTRAINT unique_url_recent UNIQUE (url)
+    )
+  `);
+  
+  // Add new columns if they don't exist (for existing databases)
+  await client.query(`
+    DO $$ 
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='ollama_analysis') THEN
+        ALTER TABLE url_verdicts ADD COLUMN ollama_analysis jsonb;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='external_checks') THEN
+        ALTER TABLE url_verdicts ADD COLUMN external_checks jsonb;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='recommendation') THEN
+        ALTER TABLE url_verdicts ADD COLUMN recommendation text;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='risk_tags') THEN
+        ALTER TABLE url_verdicts ADD COLUMN risk_tags jsonb;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='confidence') THEN
+        ALTER TABLE url_verdicts ADD COLUMN confidence numeric;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='updated_at') THEN
+        ALTER TABLE url_verdicts ADD COLUMN updated_at timestamptz DEFAULT now();
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='findings') THEN
+        ALTER TABLE url_verdicts ADD COLUMN findings jsonb DEFAULT '[]'::jsonb;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='redirect_chain') THEN
+        ALTER TABLE url_verdicts ADD COLUMN redirect_chain jsonb;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='score_breakdown') THEN
+        ALTER TABLE url_verdicts ADD COLUMN score_breakdown jsonb;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='raw_findings') THEN
+        ALTER TABLE url_verdicts ADD COLUMN raw_findings jsonb;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='confirmed_label') THEN
+        ALTER TABLE url_verdicts ADD COLUMN confirmed_label text CHECK (confirmed_label IN ('benign', 'phishing', 'malware'));
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='engine_version') THEN
+        ALTER TABLE url_verdicts ADD COLUMN engine_version text;
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='scanned_at') THEN
+        ALTER TABLE url_verdicts ADD COLUMN scanned_at timestamptz;
+        UPDATE url_verdicts SET scanned_at = COALESCE(updated_at, created_at);
+        ALTER TABLE url_verdicts ALTER COLUMN scanned_at SET DEFAULT now();
+      END IF;
+    END $$;
+  `);
+  
+  // Create site_settings table
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS site_settings (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+      domain text NOT NULL,
+      enabled boolean DEFAULT true,
+      created_at timestamptz DEFAULT now(),
+      UNIQUE(user_id, domain)
+    )
+  `);
+  
+  // Create ai_jobs table (queued AI analyses; priority 0 = clicked, 1 = hovered, 2 = page batch)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS ai_jobs (
+      id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      url text NOT NULL,
+      priority smallint NOT NULL DEFAULT 2,
+      status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+      payload jsonb NOT NULL,
+      result jsonb,
+      attempts integer NOT NULL DEFAULT 0,
+      max_attempts integer NOT NULL DEFAULT 3,
+      last_error text,
+      run_after timestamptz NOT NULL DEFAULT now(),
+      locked_until timestamptz,
+      created_at timestamptz DEFAULT now(),
+      updated_at timestamptz DEFAULT now()
+    )
+  `);
+
+  // One queued or running job per URL
+  await client.query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_jobs_active_url
+      ON ai_jobs (url) WHERE status IN ('queued', 'running')
+  `);
+
+  // Create user_scan_events table (a user was shown a URL's verdict on a page)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS user_scan_events (
+      id bigserial PRIMARY KEY,
+      user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      url_verdict_id uuid NOT NULL REFERENCES url_verdicts(id) ON DELETE CASCADE,
+      source_domain text,
+      source_url text,
+      action text NOT NULL DEFAULT 'scan' CHECK (action IN ('scan', 'hover', 'click')),
+      created_at timestamptz DEFAULT now()
+    )
+  `);
+
+  // Move the owners of link_scans rows into the history (one event per row, in scan order)
+  await client.query(`
+    DO $$
+    BEGIN
+      IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='url_verdicts' AND column_name='user_id') THEN
+        INSERT INTO user_scan_events (user_id, url_verdict_id, source_domain, action, created_at)
+        SELECT user_id, id, domain, 'scan', COALESCE(updated_at, created_at)
+        FROM url_verdicts
+        WHERE user_id IS NOT NULL
+        ORDER BY COALESCE(updated_at, created_at);
+        ALTER TABLE url_verdicts DROP COLUMN user_id;
+      END IF;
+    END $$;
+  `);
+
+  // Create domain_reputation tables (scan counts per site, each URL counted under its latest category)
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS domain_reputation (
+      domain text PRIMARY KEY,
+      safe_count integer NOT NULL DEFAULT 0,
+      suspicious_count integer NOT NULL DEFAULT 0,
+      dangerous_count integer NOT NULL DEFAULT 0,
+      worst_category text,
+      worst_score numeric,
+      worst_url text,
+      worst_seen_at timestamptz,
+      first_seen timestamptz DEFAULT now(),
+      last_seen timestamptz DEFAULT now()
+    )
+  `);
+
+  // Sites on which links to a site were scanned
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS domain_reputation_sources (
+      domain text NOT NULL,
+      source_domain text NOT NULL,
+      first_seen timestamptz DEFAULT now(),
+      last_seen timestamptz DEFAULT now(),
+      PRIMARY KEY (domain, source_domain)
+    )
+  `);
+
+  // Count the verdicts stored before domain reputation was kept (once, while it is empty)
+  const reputation = await client.query('SELECT 1 FROM domain_reputation LIMIT 1');
+  if (reputation.rows.length === 0) {
+    await backfillDomainReputation(client);
+  }
+
+  // Create indexes for efficient lookups
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_url_verdicts_domain ON url_verdicts(domain);
+    CREATE INDEX IF NOT EXISTS idx_url_verdicts_created_at ON url_verdicts(created_at);
+    CREATE INDEX IF NOT EXISTS idx_url_verdicts_url ON url_verdicts(url);
+    CREATE INDEX IF NOT EXISTS idx_url_verdicts_url_created ON url_verdicts(url, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_url_verdicts_engine_version ON url_verdicts(engine_version);
+    CREATE INDEX IF NOT EXISTS idx_user_scan_events_user ON user_scan_events(user_id, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_user_scan_events_verdict ON user_scan_events(url_verdict_id);
+    CREATE INDEX IF NOT EXISTS idx_site_settings_user_domain ON site_settings(user_id, domain);
+    CREATE INDEX IF NOT EXISTS idx_domain_lists_user_id ON domain_lists(user_id);
+    CREATE INDEX IF NOT EXISTS idx_ai_jobs_due ON ai_jobs(status, priority, created_at);
+    CREATE INDEX IF NOT EXISTS idx_domain_reputation_sources_recent ON domain_reputation_sources(domain, last_seen DESC);
+  `);
+}
+
+/**
+ * Count the stored verdicts toward the reputation of their sites, each under its category
+ * (as recordScanReputation in services/domainReputation.ts does for new scans). Sites come
+ * from the public suffix list, so the hosts are mapped here and grouped in the database.
+ */
+async function backfillDomainReputation(client: MigrationClient) {
+  const result = await client.query(
+    `SELECT DISTINCT ${verdictHostSql('url')} AS host FROM url_verdicts WHERE ${verdictHostSql('url')} <> ''`
+  );
+  const hosts = result.rows.map(row => String(row.host));
+  if (hosts.length === 0) return;
+  const domains = hosts.map(host => {
+    const hostname = host.replace(/\.$/, '');
+    return getRegistrableDomain(hostname) || hostname;
+  });
+
+  await client.query(`
+    INSERT INTO domain_reputation (domain, safe_count, suspicious_count, dangerous_count, first_seen, last_seen)
+    SELECT site.domain,
+           count(*) FILTER (WHERE v.category = 'SAFE'),
+           count(*) FILTER (WHERE v.category = 'SUSPICIOUS'),
+           count(*) FILTER (WHERE v.category = 'DANGEROUS'),
+           min(v.created_at),
+           max(COALESCE(v.scanned_at, v.created_at))
+    FROM url_verdicts v
+    JOIN unnest($1::text[], $2::text[]) AS site(host, domain) ON site.host = ${verdictHostSql('v.url')}
+    GROUP BY site.domain
+    ON CONFLICT (domain) DO NOTHING
+  `, [hosts, domains]);
+}
@@ -0,0 +1,66 @@
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { applyMigrations } from './migrations.js';
+
+/**
+ * Throwaway in-memory Postgres for tests: PGlite (Postgres compiled to WebAssembly) in a
+ * child process, since it loads its files with dynamic imports, which jest's module
+ * sandbox does not support. Values cross the process boundary as JSON, so timestamps
+ * come back as strings; errors keep their message and SQLSTATE code.
+ */
+
+export type TestDatabase = {
+  // One statement with parameters, or any number without; the rows of the last one
+  query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>;
+  close(): Promise<void>;
+};
+
+// Starting PGlite runs initdb, which takes a few seconds; use as the timeout of the hook starting it
+export const TEST_DATABASE_START_TIMEOUT_MS = 60_000;
+
+const DATABASE_PROCESS = `
+  const { PGlite } = require('@electric-sql/pglite');
+  const db = new PGlite();
+  let queue = Promise.resolve();
+  require('readline').createInterface({ input: process.stdin }).on('line', line => {
+    const { id, sql, params } = JSON.parse(line);
+    queue = queue
+      .then(() => (params ? db.query(sql, params).then(result => [result]) : db.exec(sql)))
+      .then(results => ({ id, rows: results.length > 0 ? results[results.length - 1].rows : [] }), err => ({ id, error: err.message, code: err.code }))
+      .then(reply => process.stdout.write(JSON.stringify(reply) + '\\n'));
+  });
+`;
+
+/**
+ * Start an empty database; pass `migrate` to create the schema right away
+ */
+export async function startTestDatabase(options: { migrate?: boolean } = {}): Promise<TestDatabase> {
+  const child = spawn(process.execPath, ['-e', DATABASE_PROCESS], { cwd: __dirname, stdio: ['pipe', 'pipe', 'inherit'] });
+  const pending = new Map<number, { resolve: (rows: unknown[]) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+
+  createInterface({ input: child.stdout }).on('line', line => {
+    const reply = JSON.parse(line) as { id: number; rows?: unknown[]; error?: string; code?: string };
+    const request = pending.get(reply.id);
+    pending.delete(reply.id);
+    if (reply.error !== undefined) request?.reject(Object.assign(new Error(reply.error), { code: reply.code }));
+    else request?.resolve(reply.rows ?? []);
+  });
+
+  const db: TestDatabase = {
+    query: <T>(sql: string, params?: unknown[]) =>
+      new Promise<{ rows: T[] }>((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve: rows => resolve({ rows: rows as T[] }), reject });
+        child.stdin.write(JSON.stringify({ id, sql, params }) + '\n');
+      }),
+    close: () =>
+      new Promise(resolve => {
+        child.once('exit', () => resolve());
+        child.kill();
+      })
+  };
+
+  if (options.migrate) await applyMigrations(db);
+  return db;
+}
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { diffReports, evaluateCorpus, formatReport, parseCorpus, type EvaluationReport } from './services/evaluation.js';
+import { BUILT_IN_PROFILES } from './services/scoringProfiles.js';
+import { parseScoringModel, setScoringModel } from './services/scoringModel.js';
+
+/**
+ * Measure detection quality offline on a labeled URL corpus
+ * Usage: npm run evaluate -- <corpus.csv|corpus.jsonl> [--profile strict|balanced|lenient]
+ *                            [--baseline report.json] [--save report.json] [--model model.json]
+ * Without --model the catalogue weights are scored.
+ */
+
+const USAGE = 'Usage: npm run evaluate -- <corpus.csv|corpus.jsonl> [--profile strict|balanced|lenient] [--baseline report.json] [--save report.json] [--model model.json]';
+
+function parseArgs(args: string[]): { corpus: string; profile: string; baseline?: string; save?: string; model?: string } {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      const value = args[i + 1];
+      if (!value || value.startsWith('--')) {
+        throw new Error(`${arg} needs a value`);
+      }
+      options[arg.slice(2)] = value;
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 1) {
+    throw new Error('Expected exactly one corpus file');
+  }
+  return { corpus: positional[0], profile: options.profile || 'balanced', baseline: options.baseline, save: options.save, model: options.model };
+}
+
+function evaluate() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    const profile = BUILT_IN_PROFILES[args.profile as keyof typeof BUILT_IN_PROFILES];
+    if (!profile) {
+      throw new Error(`Unknown profile "${args.profile}"`);
+    }
+
+    if (args.model) {
+      const model = parseScoringModel(fs.readFileSync(args.model, 'utf8'), path.basename(args.model));
+      setScoringModel(model);
+      console.log(`Scoring with model ${model.version}\n`);
+    }
+
+    const format = path.extname(args.corpus).toLowerCase() === '.csv' ? 'csv' : 'jsonl';
+    const { entries, errors } = parseCorpus(fs.readFileSync(args.corpus, 'utf8'), format);
+    errors.forEach(error => console.warn(`⚠️  ${args.corpus} ${error} - skipped`));
+    if (entries.length === 0) {
+      throw new Error(`No labeled URLs in ${args.corpus}`);
+    }
+
+    const report = evaluateCorpus(entries, profile);
+    const baseline = args.baseline ? JSON.parse(fs.readFileSync(args.baseline, 'utf8')) as EvaluationReport : undefined;
+    console.log(formatReport(report, baseline ? diffReports(baseline, report) : undefined));
+
+    if (args.save) {
+      fs.writeFileSync(args.save, `${JSON.stringify(report, null, 2)}\n`);
+      console.log(`\n✅ Report saved to ${args.save}`);
+    }
+    process.exit(0);
+  } catch (err) {
+    console.error('❌ Evaluation failed:', (err as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+}
+
+evaluate();
@@ -10,8 +10,17 @@ import { gptRouter } from './routes/gpt.js';
 import { stripeRouter } from './routes/stripe.js';
 import { userRouter } from './routes/user.js';
 import { authRouter } from './routes/auth.js';
+import { listsRouter } from './routes/lists.js';
+import { adminRouter } from './routes/admin.js';
+import { domainsRouter } from './routes/domains.js';
 import { initDB } from './db/index.js';
 import { checkOllamaHealth } from './services/ollama.js';
+import { initRules, resolveRulesDir } from './services/ruleEngine.js';
+import { startDomainListRefresh } from './services/domainLists.js';
+import { DEFAULT_MODEL_PATH, loadScoringModel } from './services/scoringModel.js';
+import { formatEngineVersion } from './services/engineVersion.js';
+import { analyzeAiJob } from './services/analyzer.js';
+import { getWorkerConcurrency, startAiJobWorker } from './services/aiJobQueue.js';
 
 dotenv.config();
 
@@ -54,12 +63,18 @@ if (PORT === 3005 || PORT === '3005') {
           logout: 'POST /api/auth/logout'
         },
         analyze: 'POST /api/analyze',
+        aiAnalyze: 'POST /api/ai-analyze, POST /api/ai-analyze/stream',
+        aiJob: 'GET /api/ai-analyze/jobs/:id',
         gptAnalyze: 'POST /api/gpt-analyze',
         userPlan: 'GET /api/user/me/plan (auth) or GET /api/user/:userId/plan',
-        userHistory: 'GET /api/user/me/history (auth) or GET /api/user/:userId/history',
+        userHistory: 'GET /api/user/me/history or GET /api/user/:userId/history (auth; ?before, ?limit, ?category, ?action, ?domain, ?since, ?until)',
         createUser: 'POST /api/user/by-email',
-        setPlan: 'POST /api/user/me/set-plan (auth) or POST /api/user/:userId/set-plan'
+        setPlan: 'POST /api/user/me/set-plan (auth) or POST /api/user/:userId/set-plan',
+        scoringProfile: 'GET/PUT /api/user/me/scoring-profile (auth)'
       },
+      domainReputation: 'GET /api/domains/:domain/reputation',
+      lists: 'GET/POST /api/lists, PATCH/DELETE /api/lists/:id (auth; global entries need an admin)',
+      admin: 'PUT /api/admin/scans/:id/label, GET /api/admin/engine-versions (admin)',
       documentation: 'See README.md for API documentation'
     });
   });
@@ -112,6 +127,9 @@ app.use('/api/ai-analyze', (await import('./routes/ai-analyze.js')).aiAnalyzeRou
 app.use('/api/gpt-analyze', gptRouter);
 app.use('/api/stripe', stripeRouter);
 app.use('/api/user', userRouter);
+app.use('/api/lists', listsRouter);
+app.use('/api/domains', domainsRouter);
+app.use('/api/admin', adminRouter);
 
 // Error handler
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -132,10 +150,25 @@ async function start() {
       console.warn('   You may need to start Ollama manually: ollama serve');
     }
     
+    const ruleCount = initRules(resolveRulesDir(path.join(__dirname, '..')));
+    console.log(`📜 Loaded ${ruleCount} heuristic rules (reloaded on change)`);
+    
+    const scoringModel = loadScoringModel();
+    console.log(scoringModel
+      ? `🧮 Loaded scoring model ${scoringModel.version} (${Object.keys(scoringModel.weights).length} features)`
+      : `🧮 No scoring model at ${DEFAULT_MODEL_PATH} - using the finding weights`);
+    console.log(`🏷️  Engine version ${formatEngineVersion()}`);
+    
     console.log('🔌 Connecting to database...');
     await initDB();
     console.log('✅ Database connected');
     
+    const listEntryCount = await startDomainListRefresh();
+    console.log(`📋 Loaded ${listEntryCount} allow/deny list entries`);
+    
+    startAiJobWorker(analyzeAiJob);
+    console.log(`🧵 AI job worker started (${getWorkerConcurrency()} at a time)`);
+    
     app.listen(PORT, async () => {
       console.log('');
       console.log('🚀 SmartTrust Backend Server');
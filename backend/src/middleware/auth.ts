@@ -47,3 +47,44 @@ export async function authenticateToken(
   }
 }
 
+/**
+ * Identify the caller when a token is sent; requests without a valid one continue anonymously
+ */
+export async function optionalAuth(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const authHeader = req.headers.authorization;
+  
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next();
+  }
+  
+  try {
+    const decoded = jwt.verify(authHeader.substring(7), JWT_SECRET) as { userId: string; email: string };
+    const result = await pool.query(
+      'SELECT id, email, plan FROM users WHERE id = $1',
+      [decoded.userId]
+    );
+    
+    if (result.rows.length > 0) {
+      req.userId = decoded.userId;
+      req.user = result.rows[0];
+    }
+  } catch {
+    // Invalid or expired tokens are treated as anonymous
+  }
+  next();
+}
+
+/**
+ * Check whether the authenticated user is an administrator (listed in ADMIN_EMAILS, comma-separated)
+ */
+export function isAdmin(req: AuthRequest): boolean {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  return !!req.user && adminEmails.includes(req.user.email.toLowerCase());
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { startTestDatabase, TEST_DATABASE_START_TIMEOUT_MS, type TestDatabase } from '../db/testDatabase.js';
+import { formatEngineVersion } from '../services/engineVersion.js';
+import { adminRouter } from './admin.js';
+
+let mockDb: TestDatabase;
+jest.mock('../db/index.js', () => ({
+  pool: { query: (sql: string, params?: unknown[]) => mockDb.query(sql, params) }
+}));
+
+const USER_ID = '99999999-9999-9999-9999-999999999999';
+const ADMIN_ID = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+const SCAN_ID = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRouter);
+
+const bearer = (userId: string) =>
+  `Bearer ${jwt.sign({ userId }, process.env.JWT_SECRET || 'your-secret-key-change-in-production')}`;
+
+describe('/api/admin', () => {
+  const originalAdmins = process.env.ADMIN_EMAILS;
+
+  beforeAll(async () => {
+    mockDb = await startTestDatabase({ migrate: true });
+    await mockDb.query(
+      `INSERT INTO users (id, email) VALUES ($1, 'user@example.com'), ($2, 'admin@example.com')`,
+      [USER_ID, ADMIN_ID]
+    );
+    await mockDb.query(
+      `INSERT INTO url_verdicts (id, domain, url, trust_score, category) VALUES ($1, 'phish.example', 'https://phish.example/login', 0.45, 'SUSPICIOUS')`,
+      [SCAN_ID]
+    );
+    process.env.ADMIN_EMAILS = 'admin@example.com';
+  }, TEST_DATABASE_START_TIMEOUT_MS);
+
+  afterAll(async () => {
+    if (originalAdmins === undefined) delete process.env.ADMIN_EMAILS;
+    else process.env.ADMIN_EMAILS = originalAdmins;
+    await mockDb.close();
+  });
+
+  describe('PUT /scans/:id/label', () => {
+    const label = (id: string, userId: string, body: unknown) =>
+      request(app).put(`/api/admin/scans/${id}/label`).set('Authorization', bearer(userId)).send(body as object);
+
+    it('should record the confirmed outcome of a scan, and clear it with null', async () => {
+      const labeled = await label(SCAN_ID, ADMIN_ID, { label: 'phishing' });
+      expect(labeled.status).toBe(200);
+      expect(labeled.body.scan).toMatchObject({ id: SCAN_ID, url: 'https://phish.example/login', confirmed_label: 'phishing' });
+
+      const cleared = await label(SCAN_ID, ADMIN_ID, { label: null });
+      expect(cleared.body.scan.confirmed_label).toBeNull();
+    });
+
+    it('should only let admins label scans', async () => {
+      const res = await label(SCAN_ID, USER_ID, { label: 'benign' });
+      expect(res.status).toBe(403);
+      expect((await mockDb.query('SELECT confirmed_label FROM url_verdicts WHERE id = $1', [SCAN_ID])).rows)
+        .toEqual([{ confirmed_label: null }]);
+    });
+
+    it('should reject unknown labels and scans', async () => {
+      expect((await label(SCAN_ID, ADMIN_ID, { label: 'spam' })).status).toBe(400);
+      expect((await label('cccccccc-cccc-cccc-cccc-cccccccccccc', ADMIN_ID, { label: 'benign' })).status).toBe(404);
+      expect((await label('42', ADMIN_ID, { label: 'benign' })).status).toBe(404);
+    });
+  });
+
+  describe('GET /engine-versions', () => {
+    const OLD_VERSION = 'rules:000000000000/scorer:0/model:weights';
+
+    beforeAll(async () => {
+      await mockDb.query(
+        `INSERT INTO url_verdicts (domain, url, trust_score, category, engine_version) VALUES
+           ('shop.example', 'https://shop.example/', 0.9, 'SAFE', $1),
+           ('shop.example', 'https://shop.example/cart', 0.9, 'SAFE', $1),
+           ('news.example', 'https://news.example/', 0.8, 'SAFE', $2)`,
+        [formatEngineVersion(), OLD_VERSION]
+      );
+    });
+
+    it('should count the cached scans per engine version', async () => {
+      const res = await request(app).get('/api/admin/engine-versions').set('Authorization', bearer(ADMIN_ID));
+
+      expect(res.status).toBe(200);
+      expect(res.body.current).toBe(formatEngineVersion());
+      expect(res.body.versions).toEqual(expect.arrayContaining([
+        expect.objectContaining({ engineVersion: formatEngineVersion(), rows: 2, current: true }),
+        expect.objectContaining({ engineVersion: OLD_VERSION, rows: 1, current: false }),
+        expect.objectContaining({ engineVersion: null, rows: 1, current: false })
+      ]));
+      expect(res.body.versions[0].engineVersion).toBe(formatEngineVersion());
+    });
+
+    it('should only show them to admins', async () => {
+      const res = await request(app).get('/api/admin/engine-versions').set('Authorization', bearer(USER_ID));
+      expect(res.status).toBe(403);
+    });
+  });
+});
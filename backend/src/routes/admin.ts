@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { pool } from '../db/index.js';
+import { authenticateToken, AuthRequest, isAdmin } from '../middleware/auth.js';
+import { CORPUS_LABELS } from '../services/evaluation.js';
+import { formatEngineVersion, getEngineVersion } from '../services/engineVersion.js';
+
+export const adminRouter = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Record the confirmed outcome of a scan (benign, phishing or malware; null clears it).
+// Labeled scans are used as training data by `npm run train-model -- --db`.
+adminRouter.put('/scans/:id/label', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    if (!isAdmin(req)) {
+      return res.status(403).json({ error: 'Only admins can label scans' });
+    }
+
+    const { id } = req.params;
+    const { label } = req.body;
+    if (label !== null && !CORPUS_LABELS.includes(label)) {
+      return res.status(400).json({ error: `Invalid label. Must be: ${CORPUS_LABELS.join(', ')} or null` });
+    }
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(404).json({ error: 'Scan not found' });
+    }
+
+    const result = await pool.query(
+      `UPDATE url_verdicts SET confirmed_label = $1
+       WHERE id = $2
+       RETURNING id, url, category, trust_score, confirmed_label`,
+      [label, id]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Scan not found' });
+    }
+
+    res.json({ scan: result.rows[0] });
+  } catch (err) {
+    console.error('Label scan error:', err);
+    res.status(500).json({ error: 'Failed to label scan' });
+  }
+});
+
+// Count cached scans per engine version (rules hash, scorer version, scoring model)
+adminRouter.get('/engine-versions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    if (!isAdmin(req)) {
+      return res.status(403).json({ error: 'Only admins can view engine versions' });
+    }
+
+    const current = formatEngineVersion();
+    const result = await pool.query(
+      `SELECT engine_version, COUNT(*)::int AS rows, MAX(updated_at) AS last_updated_at
+       FROM url_verdicts
+       GROUP BY engine_version
+       ORDER BY rows DESC`
+    );
+
+    res.json({
+      current,
+      components: getEngineVersion(),
+      versions: result.rows.map(row => ({
+        engineVersion: row.engine_version,
+        rows: row.rows,
+        lastUpdatedAt: row.last_updated_at,
+        current: row.engine_version === current
+      }))
+    });
+  } catch (err) {
+    console.error('Get engine versions error:', err);
+    res.status(500).json({ error: 'Failed to get engine versions' });
+  }
+});
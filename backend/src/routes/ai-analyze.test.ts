@@ -0,0 +1,106 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import { aiAnalyzeRouter } from './ai-analyze.js';
+import { getAiJobStatus } from '../services/analyzer.js';
+import type { LinkAnalysis, LinkMeta } from '../../shared/types.js';
+
+const link: LinkMeta = { href: 'https://example.com/offer', text: 'Offer', targetDomain: 'example.com' };
+const initial: LinkAnalysis = {
+  link,
+  verdict: { trustScore: 0.6, category: 'SUSPICIOUS', findings: [], issues: [] }
+};
+const updated: LinkAnalysis = { ...initial, verdict: { ...initial.verdict, trustScore: 0.9, category: 'SAFE' } };
+
+// Without the rate limiter's await the handler runs while the request body is being read
+jest.mock('../middleware/rateLimit.js', () => ({
+  rateLimiter: (_req: unknown, _res: unknown, next: () => void) => next()
+}));
+
+// The initial verdicts after a moment (as when they come from the database), one AI update
+// shortly after, then the end of the background work
+jest.mock('../services/analyzer.js', () => ({
+  analyzeLinksWithAI: jest.fn(async (...args: unknown[]) => {
+    const [onUpdate, onDone] = args.slice(6) as [(analysis: LinkAnalysis, index: number) => void, () => void];
+    await new Promise(resolve => setTimeout(resolve, 20));
+    setTimeout(() => {
+      onUpdate(updated, 0);
+      onDone();
+    }, 10);
+    return [initial];
+  }),
+  getAiJobStatus: jest.fn()
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/ai-analyze', aiAnalyzeRouter);
+
+// Server-Sent Events of a response body, in order
+function parseEvents(body: string): Array<{ event: string; data: unknown }> {
+  return body
+    .split('\n\n')
+    .filter(chunk => chunk.startsWith('event: '))
+    .map(chunk => {
+      const [eventLine, dataLine] = chunk.split('\n');
+      return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+}
+
+describe('POST /api/ai-analyze/stream', () => {
+  // Read with fetch over a real connection, as the extension does: the request is over
+  // (its 'close' event has fired) long before the stream ends
+  it('should send the initial verdicts and each update, then end the stream', async () => {
+    const server = app.listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const res = await fetch(`http://127.0.0.1:${port}/api/ai-analyze/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ links: [link], domain: 'news.example' }),
+        signal: AbortSignal.timeout(4_000)
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toContain('text/event-stream');
+      expect(parseEvents(await res.text())).toEqual([
+        { event: 'initial', data: { analyses: [initial] } },
+        { event: 'update', data: { index: 0, analysis: updated } },
+        { event: 'done', data: {} }
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should reject requests without links', async () => {
+    const res = await request(app).post('/api/ai-analyze/stream').send({ links: [], domain: 'news.example' });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('GET /api/ai-analyze/jobs/:id', () => {
+  const JOB_ID = '0b5e9c1e-6d1f-4c1e-9a51-3f0c2d7e8a90';
+  const status = getAiJobStatus as jest.MockedFunction<typeof getAiJobStatus>;
+
+  it('should return the status of a job, with its analysis once done', async () => {
+    const job = { id: JOB_ID, url: link.href, status: 'done', analysis: updated };
+    status.mockResolvedValueOnce(job as Awaited<ReturnType<typeof getAiJobStatus>>);
+
+    const res = await request(app).get(`/api/ai-analyze/jobs/${JOB_ID}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ job });
+    expect(status).toHaveBeenCalledWith(JOB_ID, undefined);
+  });
+
+  it('should answer 404 for unknown jobs and ids that are not job ids', async () => {
+    status.mockResolvedValueOnce(null);
+    expect((await request(app).get(`/api/ai-analyze/jobs/${JOB_ID}`)).status).toBe(404);
+
+    status.mockClear();
+    expect((await request(app).get('/api/ai-analyze/jobs/1%20OR%201=1')).status).toBe(404);
+    expect(status).not.toHaveBeenCalled();
+  });
+});
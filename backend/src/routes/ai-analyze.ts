@@ -1,15 +1,17 @@
 import { Router } from 'express';
-import { analyzeLinksWithAI } from '../services/analyzer.js';
+import { analyzeLinksWithAI, getAiJobStatus } from '../services/analyzer.js';
+import { isAiJobPriority } from '../services/aiJobQueue.js';
+import type { LinkAnalysis } from '../../shared/types.js';
 import { rateLimiter } from '../middleware/rateLimit.js';
-import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { optionalAuth, AuthRequest } from '../middleware/auth.js';
 
 export const aiAnalyzeRouter = Router();
 
 // Request deduplication: track ongoing analyses by request signature
 const ongoingAnalyses = new Map<string, Promise<any>>();
 
-function getRequestSignature(links: any[], domain: string): string {
-  // Create a signature from normalized URLs and domain
+function getRequestSignature(links: any[], domain: string, userId?: string): string {
+  // Create a signature from normalized URLs, domain and user (plans and lists differ per user)
   const normalizedUrls = links
     .map((link: any) => {
       try {
@@ -25,16 +27,63 @@ function getRequestSignature(links: any[], domain: string): string {
     })
     .sort()
     .join('|');
-  return `${domain}:${normalizedUrls}`;
+  return `${userId || 'anonymous'}:${domain}:${normalizedUrls}`;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Streams stay open while AI analysis runs, with a comment line now and then so proxies keep them
+const STREAM_KEEPALIVE_MS = 15_000;
+const STREAM_MAX_DURATION_MS = 3 * 60_000;
+
+// Links already marked by the extension
+const extensionMarkerPatterns = [
+  /⚠\s*Caution/i,
+  /⚠️\s*Caution/i,
+  /⚠\s*Safe/i,
+  /⚠️\s*Safe/i,
+  /⚠\s*Danger/i,
+  /⚠️\s*Danger/i,
+  /Trust\s*Score/i,
+  /\[SAFE\]/i,
+  /\[SUSPICIOUS\]/i,
+  /\[DANGEROUS\]/i,
+  /PHISHING\s*RISK/i,
+  /SmartTrust/i
+];
+
+/**
+ * Sanitize and filter links (limit to 100 per request, skip already processed)
+ */
+function sanitizeLinks(links: unknown[]) {
+  return links
+    .slice(0, 100)
+    .filter((link: any) => {
+      const linkText = (link.text || '').toLowerCase();
+      // Skip links that have extension markers
+      return !extensionMarkerPatterns.some(pattern => 
+        pattern.test(link.text || '') || pattern.test(linkText)
+      );
+    })
+    .map((link: any) => ({
+      href: link.href?.slice(0, 2048),
+      rawHref: link.rawHref?.slice(0, 2048),
+      text: link.text?.slice(0, 500),
+      rel: link.rel,
+      target: link.target,
+      download: link.download,
+      contextSnippet: link.contextSnippet?.slice(0, 500),
+      targetDomain: link.targetDomain?.slice(0, 255)
+    }));
 }
 
 /**
  * Analyze links with AI (prioritized for clicked links)
  * This endpoint returns initial results immediately, then streams AI updates
  */
-aiAnalyzeRouter.post('/', rateLimiter, async (req: AuthRequest, res) => {
+aiAnalyzeRouter.post('/', optionalAuth, rateLimiter, async (req: AuthRequest, res) => {
   try {
-    const { links, domain, priorityUrl, sourcePageContext } = req.body;
+    const { links, domain, priorityUrl, priority, sourcePageContext } = req.body;
     
     // Get userId from token if present
     const userId = req.userId || undefined;
@@ -47,41 +96,7 @@ aiAnalyzeRouter.post('/', rateLimiter, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Invalid domain' });
     }
     
-    // Filter out links with extension markers (already processed)
-    const extensionMarkerPatterns = [
-      /⚠\s*Caution/i,
-      /⚠️\s*Caution/i,
-      /⚠\s*Safe/i,
-      /⚠️\s*Safe/i,
-      /⚠\s*Danger/i,
-      /⚠️\s*Danger/i,
-      /Trust\s*Score/i,
-      /\[SAFE\]/i,
-      /\[SUSPICIOUS\]/i,
-      /\[DANGEROUS\]/i,
-      /PHISHING\s*RISK/i,
-      /SmartTrust/i
-    ];
-    
-    // Sanitize and filter links (limit to 100 per request, skip already processed)
-    const sanitizedLinks = links
-      .slice(0, 100)
-      .filter((link: any) => {
-        const linkText = (link.text || '').toLowerCase();
-        // Skip links that have extension markers
-        return !extensionMarkerPatterns.some(pattern => 
-          pattern.test(link.text || '') || pattern.test(linkText)
-        );
-      })
-      .map((link: any) => ({
-        href: link.href?.slice(0, 2048),
-        text: link.text?.slice(0, 500),
-        rel: link.rel,
-        target: link.target,
-        download: link.download,
-        contextSnippet: link.contextSnippet?.slice(0, 500),
-        targetDomain: link.targetDomain?.slice(0, 255)
-      }));
+    const sanitizedLinks = sanitizeLinks(links);
     
     if (sanitizedLinks.length === 0) {
       console.log(`[AI Analyze] All links filtered out (already processed)`);
@@ -89,7 +104,7 @@ aiAnalyzeRouter.post('/', rateLimiter, async (req: AuthRequest, res) => {
     }
     
     // Check if same request is already being processed
-    const requestSignature = getRequestSignature(sanitizedLinks, domain);
+    const requestSignature = getRequestSignature(sanitizedLinks, domain, userId);
     const existingAnalysis = ongoingAnalyses.get(requestSignature);
     
     if (existingAnalysis) {
@@ -107,7 +122,8 @@ aiAnalyzeRouter.post('/', rateLimiter, async (req: AuthRequest, res) => {
       domain,
       userId,
       sourcePageContext || '',
-      priorityUrl
+      priorityUrl,
+      isAiJobPriority(priority) ? priority : 'click'
     ).finally(() => {
       // Remove from ongoing analyses when done
       ongoingAnalyses.delete(requestSignature);
@@ -125,10 +141,118 @@ aiAnalyzeRouter.post('/', rateLimiter, async (req: AuthRequest, res) => {
   }
 });
 
+/**
+ * Analyze links with AI over Server-Sent Events: an `initial` event with the cached and
+ * heuristic verdicts, an `update` event ({ index, analysis }) as each link's AI analysis
+ * finishes, and `done` when there is nothing left to wait for
+ */
+aiAnalyzeRouter.post('/stream', optionalAuth, rateLimiter, async (req: AuthRequest, res) => {
+  const { links, domain, priorityUrl, priority, sourcePageContext } = req.body;
+  const userId = req.userId || undefined;
+  
+  if (!Array.isArray(links) || links.length === 0) {
+    return res.status(400).json({ error: 'Invalid links array' });
+  }
+  
+  if (!domain || typeof domain !== 'string') {
+    return res.status(400).json({ error: 'Invalid domain' });
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  
+  let closed = false;
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+  const keepAlive = setInterval(() => {
+    if (!closed) res.write(': keep-alive\n\n');
+  }, STREAM_KEEPALIVE_MS);
+  const close = () => {
+    if (closed) return;
+    send('done', {});
+    closed = true;
+    clearInterval(keepAlive);
+    clearTimeout(maxDuration);
+    res.end();
+  };
+  const maxDuration = setTimeout(close, STREAM_MAX_DURATION_MS);
+  // The response, not the request: the request closes as soon as its body has been read
+  res.on('close', () => {
+    closed = true;
+    clearInterval(keepAlive);
+    clearTimeout(maxDuration);
+  });
+  
+  try {
+    const sanitizedLinks = sanitizeLinks(links);
+    if (sanitizedLinks.length === 0) {
+      send('initial', { analyses: [] });
+      return close();
+    }
+    
+    console.log(`[AI Analyze Stream] Processing ${sanitizedLinks.length} links, priority: ${priorityUrl || 'none'}`);
+    
+    // Updates can only arrive after the initial verdicts have been sent
+    let initialSent = false;
+    const pendingUpdates: Array<{ index: number; analysis: LinkAnalysis }> = [];
+    let backgroundDone = false;
+    
+    const analyses = await analyzeLinksWithAI(
+      sanitizedLinks,
+      domain,
+      userId,
+      sourcePageContext || '',
+      priorityUrl,
+      isAiJobPriority(priority) ? priority : 'click',
+      (analysis, index) => {
+        if (initialSent) send('update', { index, analysis });
+        else pendingUpdates.push({ index, analysis });
+      },
+      () => {
+        backgroundDone = true;
+        if (initialSent) close();
+      }
+    );
+    
+    send('initial', { analyses });
+    initialSent = true;
+    pendingUpdates.forEach(update => send('update', update));
+    if (backgroundDone) close();
+  } catch (err) {
+    console.error('AI Analyze Stream error:', err);
+    send('error', { error: 'AI analysis failed' });
+    close();
+  }
+});
+
+/**
+ * Status of a queued AI analysis (the `aiJobId` of an analysis), with its result once done
+ */
+aiAnalyzeRouter.get('/jobs/:id', optionalAuth, async (req: AuthRequest, res) => {
+  try {
+    const job = UUID_PATTERN.test(req.params.id) ? await getAiJobStatus(req.params.id, req.userId || undefined) : null;
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    
+    res.json({ job });
+  } catch (err) {
+    console.error('AI job status error:', err);
+    res.status(500).json({ error: 'Failed to get job status' });
+  }
+});
+
 /**
  * Analyze a single link with AI (for clicked links - highest priority)
  */
-aiAnalyzeRouter.post('/single', rateLimiter, async (req: AuthRequest, res) => {
+aiAnalyzeRouter.post('/single', optionalAuth, rateLimiter, async (req: AuthRequest, res) => {
   try {
     const { link, domain, sourcePageContext } = req.body;
     const userId = req.userId || undefined;
@@ -1,11 +1,11 @@
 import { Router } from 'express';
 import { analyzeLinks } from '../services/analyzer.js';
 import { rateLimiter } from '../middleware/rateLimit.js';
-import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { optionalAuth, AuthRequest } from '../middleware/auth.js';
 
 export const analyzeRouter = Router();
 
-analyzeRouter.post('/', rateLimiter, async (req: AuthRequest, res) => {
+analyzeRouter.post('/', optionalAuth, rateLimiter, async (req: AuthRequest, res) => {
   try {
     const { links, domain } = req.body;
     
@@ -48,8 +48,11 @@ analyzeRouter.post('/', rateLimiter, async (req: AuthRequest, res) => {
       })
       .map((link: any) => ({
         href: link.href?.slice(0, 2048),
+        rawHref: link.rawHref?.slice(0, 2048),
         text: link.text?.slice(0, 500),
         rel: link.rel,
+        target: link.target,
+        download: link.download,
         contextSnippet: link.contextSnippet?.slice(0, 500),
         targetDomain: link.targetDomain?.slice(0, 255)
       }));
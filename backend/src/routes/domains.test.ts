@@ -0,0 +1,51 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { startTestDatabase, TEST_DATABASE_START_TIMEOUT_MS, type TestDatabase } from '../db/testDatabase.js';
+import { recordScanReputation } from '../services/domainReputation.js';
+import { domainsRouter } from './domains.js';
+
+let mockDb: TestDatabase;
+jest.mock('../db/index.js', () => ({
+  pool: { query: (sql: string, params?: unknown[]) => mockDb.query(sql, params) }
+}));
+jest.mock('../middleware/rateLimit.js', () => ({
+  rateLimiter: (_req: unknown, _res: unknown, next: () => void) => next()
+}));
+
+const app = express();
+app.use('/api/domains', domainsRouter);
+
+describe('GET /api/domains/:domain/reputation', () => {
+  beforeAll(async () => {
+    mockDb = await startTestDatabase({ migrate: true });
+    const scan = { sourceDomain: 'forum.example', category: 'DANGEROUS' as const, trustScore: 0.1 };
+    await recordScanReputation({ ...scan, url: 'https://login.evil-site.tk/a' }, null);
+    await recordScanReputation({ ...scan, url: 'https://login.evil-site.tk/b', trustScore: 0.05 }, null);
+    await recordScanReputation({ ...scan, url: 'https://evil-site.tk/', category: 'SAFE', trustScore: 0.8 }, null);
+  }, TEST_DATABASE_START_TIMEOUT_MS);
+
+  afterAll(() => mockDb.close());
+
+  it('should return the reputation of the site a host belongs to and its starting score', async () => {
+    const res = await request(app).get('/api/domains/WWW.Evil-Site.TK/reputation');
+
+    expect(res.status).toBe(200);
+    expect(res.body.reputation).toMatchObject({
+      domain: 'evil-site.tk',
+      safe: 1,
+      suspicious: 0,
+      dangerous: 2,
+      total: 3,
+      sourceDomainCount: 1,
+      topSourceDomains: ['forum.example']
+    });
+    expect(res.body.reputation.worstRecent).toMatchObject({ category: 'DANGEROUS', trustScore: 0.05, url: 'https://login.evil-site.tk/b' });
+    expect(res.body.prior).toBeLessThan(0.5);
+  });
+
+  it('should answer 404 for sites without scans and 400 for what is not a site', async () => {
+    expect((await request(app).get('/api/domains/unseen.example/reputation')).status).toBe(404);
+    expect((await request(app).get('/api/domains/co.uk/reputation')).status).toBe(400);
+  });
+});
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { rateLimiter } from '../middleware/rateLimit.js';
+import { getDomainReputation } from '../services/domainReputation.js';
+import { getReputationPrior } from '../services/scoring.js';
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
+
+export const domainsRouter = Router();
+
+/**
+ * Normalize a domain (or URL) to a lowercase hostname; null if it is not a site
+ */
+function normalizeDomain(input: string): string | null {
+  try {
+    const value = input.trim().toLowerCase();
+    const hostname = new URL(value.includes('://') ? value : `https://${value}`).hostname.replace(/\.$/, '');
+    return getRegistrableDomain(hostname) ? hostname : null;
+  } catch {
+    return null;
+  }
+}
+
+// Reputation of the site a domain belongs to, and the starting score it gives new links
+domainsRouter.get('/:domain/reputation', rateLimiter, async (req, res) => {
+  try {
+    const domain = normalizeDomain(req.params.domain);
+    if (!domain) {
+      return res.status(400).json({ error: 'A valid domain is required' });
+    }
+
+    const reputation = await getDomainReputation(domain);
+    if (!reputation) {
+      return res.status(404).json({ error: 'No reputation for this domain' });
+    }
+
+    res.json({ reputation, prior: getReputationPrior(reputation) });
+  } catch (err) {
+    console.error('[Domains] Reputation error:', err);
+    res.status(500).json({ error: 'Failed to load domain reputation' });
+  }
+});
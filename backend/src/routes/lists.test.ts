@@ -0,0 +1,160 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { startTestDatabase, TEST_DATABASE_START_TIMEOUT_MS, type TestDatabase } from '../db/testDatabase.js';
+import { findDomainListEntry, setDomainListEntries } from '../services/domainLists.js';
+import { listsRouter } from './lists.js';
+
+let mockDb: TestDatabase;
+jest.mock('../db/index.js', () => ({
+  pool: { query: (sql: string, params?: unknown[]) => mockDb.query(sql, params) }
+}));
+
+const USER_ID = '33333333-3333-3333-3333-333333333333';
+const OTHER_USER_ID = '44444444-4444-4444-4444-444444444444';
+const ADMIN_ID = '55555555-5555-5555-5555-555555555555';
+
+const app = express();
+app.use(express.json());
+app.use('/api/lists', listsRouter);
+
+const bearer = (userId: string) =>
+  `Bearer ${jwt.sign({ userId }, process.env.JWT_SECRET || 'your-secret-key-change-in-production')}`;
+
+describe('/api/lists', () => {
+  const originalAdmins = process.env.ADMIN_EMAILS;
+
+  beforeAll(async () => {
+    mockDb = await startTestDatabase({ migrate: true });
+    await mockDb.query(
+      `INSERT INTO users (id, email) VALUES ($1, 'user@example.com'), ($2, 'other@example.com'), ($3, 'admin@example.com')`,
+      [USER_ID, OTHER_USER_ID, ADMIN_ID]
+    );
+    process.env.ADMIN_EMAILS = 'admin@example.com';
+  }, TEST_DATABASE_START_TIMEOUT_MS);
+
+  afterAll(async () => {
+    if (originalAdmins === undefined) delete process.env.ADMIN_EMAILS;
+    else process.env.ADMIN_EMAILS = originalAdmins;
+    setDomainListEntries([]);
+    await mockDb.close();
+  });
+
+  it('should require a token', async () => {
+    const res = await request(app).get('/api/lists');
+    expect(res.status).toBe(401);
+  });
+
+  it('should add a user entry and apply it at once', async () => {
+    const res = await request(app)
+      .post('/api/lists')
+      .set('Authorization', bearer(USER_ID))
+      .send({ domain: 'https://Shop.Example-Store.com/cart', listType: 'deny', reason: 'Fake shop' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.entry).toMatchObject({ domain: 'shop.example-store.com', list_type: 'deny', user_id: USER_ID });
+    expect(findDomainListEntry('shop.example-store.com', USER_ID)?.listType).toBe('deny');
+    expect(findDomainListEntry('shop.example-store.com', OTHER_USER_ID)).toBeNull();
+
+    const duplicate = await request(app)
+      .post('/api/lists')
+      .set('Authorization', bearer(USER_ID))
+      .send({ domain: 'shop.example-store.com', listType: 'allow' });
+    expect(duplicate.status).toBe(409);
+  });
+
+  it('should reject public suffixes and unknown list types', async () => {
+    const suffix = await request(app).post('/api/lists').set('Authorization', bearer(USER_ID)).send({ domain: 'co.uk', listType: 'deny' });
+    const type = await request(app).post('/api/lists').set('Authorization', bearer(USER_ID)).send({ domain: 'example.com', listType: 'block' });
+    expect(suffix.status).toBe(400);
+    expect(type.status).toBe(400);
+  });
+
+  it('should leave global entries to admins', async () => {
+    const byUser = await request(app)
+      .post('/api/lists')
+      .set('Authorization', bearer(USER_ID))
+      .send({ domain: 'malware-host.example', listType: 'deny', scope: 'global' });
+    expect(byUser.status).toBe(403);
+
+    const byAdmin = await request(app)
+      .post('/api/lists')
+      .set('Authorization', bearer(ADMIN_ID))
+      .send({ domain: 'malware-host.example', listType: 'deny', scope: 'global' });
+    expect(byAdmin.status).toBe(201);
+    expect(byAdmin.body.entry.user_id).toBeNull();
+    expect(findDomainListEntry('cdn.malware-host.example', OTHER_USER_ID)?.listType).toBe('deny');
+
+    const removedByUser = await request(app).delete(`/api/lists/${byAdmin.body.entry.id}`).set('Authorization', bearer(USER_ID));
+    expect(removedByUser.status).toBe(403);
+  });
+
+  it('should list global entries and the user\'s own, but not other users\'', async () => {
+    await request(app)
+      .post('/api/lists')
+      .set('Authorization', bearer(OTHER_USER_ID))
+      .send({ domain: 'private-choice.example', listType: 'allow' });
+
+    const all = await request(app).get('/api/lists').set('Authorization', bearer(USER_ID));
+    const own = await request(app).get('/api/lists?scope=user').set('Authorization', bearer(USER_ID));
+
+    expect(all.status).toBe(200);
+    expect(all.body.entries.map((entry: { domain: string }) => entry.domain)).toEqual(['malware-host.example', 'shop.example-store.com']);
+    expect(own.body.entries.map((entry: { domain: string }) => entry.domain)).toEqual(['shop.example-store.com']);
+  });
+
+  it('should let users change and remove only their own entries', async () => {
+    const [entry] = (await request(app).get('/api/lists?scope=user').set('Authorization', bearer(USER_ID))).body.entries;
+
+    const byOther = await request(app)
+      .patch(`/api/lists/${entry.id}`)
+      .set('Authorization', bearer(OTHER_USER_ID))
+      .send({ listType: 'allow' });
+    expect(byOther.status).toBe(404);
+
+    const changed = await request(app)
+      .patch(`/api/lists/${entry.id}`)
+      .set('Authorization', bearer(USER_ID))
+      .send({ listType: 'allow', reason: null });
+    expect(changed.status).toBe(200);
+    expect(changed.body.entry).toMatchObject({ list_type: 'allow', reason: null });
+    expect(findDomainListEntry('shop.example-store.com', USER_ID)?.listType).toBe('allow');
+
+    const removed = await request(app).delete(`/api/lists/${entry.id}`).set('Authorization', bearer(USER_ID));
+    expect(removed.status).toBe(200);
+    expect(findDomainListEntry('shop.example-store.com', USER_ID)).toBeNull();
+  });
+
+  it('should let a domain whose entry expired be added again', async () => {
+    await mockDb.query(
+      `INSERT INTO domain_lists (domain, list_type, user_id, expires_at) VALUES ('expired-choice.example', 'deny', $1, now() - interval '1 day')`,
+      [USER_ID]
+    );
+
+    const res = await request(app)
+      .post('/api/lists')
+      .set('Authorization', bearer(USER_ID))
+      .send({ domain: 'expired-choice.example', listType: 'allow' });
+
+    expect(res.status).toBe(201);
+    expect((await mockDb.query(`SELECT list_type FROM domain_lists WHERE domain = 'expired-choice.example'`)).rows)
+      .toEqual([{ list_type: 'allow' }]);
+  });
+
+  it('should only take a reason that is a short string', async () => {
+    const post = (reason: unknown) =>
+      request(app).post('/api/lists').set('Authorization', bearer(USER_ID)).send({ domain: 'reasoned.example', listType: 'deny', reason });
+
+    expect((await post({ text: 'Fake shop' })).status).toBe(400);
+    expect((await post('x'.repeat(501))).status).toBe(400);
+
+    const added = await post('Fake shop');
+    expect(added.status).toBe(201);
+    const changed = await request(app)
+      .patch(`/api/lists/${added.body.entry.id}`)
+      .set('Authorization', bearer(USER_ID))
+      .send({ reason: 42 });
+    expect(changed.status).toBe(400);
+  });
+});
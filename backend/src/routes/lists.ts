@@ -0,0 +1,203 @@
+import { Router } from 'express';
+import { pool } from '../db/index.js';
+import { authenticateToken, AuthRequest, isAdmin } from '../middleware/auth.js';
+import { refreshDomainLists } from '../services/domainLists.js';
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
+
+export const listsRouter = Router();
+
+const LIST_COLUMNS = 'id, domain, list_type, user_id, reason, added_by, expires_at, created_at, updated_at';
+const LIST_TYPES = ['allow', 'deny'];
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Normalize a domain (or URL) to a lowercase hostname; null if it is not a site
+ * ('co.uk' or 'github.io' alone would cover every site under them)
+ */
+function normalizeListDomain(input: unknown): string | null {
+  if (typeof input !== 'string' || input.trim().length === 0) return null;
+  try {
+    const value = input.trim().toLowerCase();
+    const hostname = new URL(value.includes('://') ? value : `https://${value}`).hostname.replace(/\.$/, '');
+    return getRegistrableDomain(hostname) ? hostname : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse an optional expiry; undefined when absent, null when cleared, 'invalid' otherwise
+ */
+function parseExpiry(input: unknown): Date | null | undefined | 'invalid' {
+  if (input === undefined) return undefined;
+  if (input === null || input === '') return null;
+  const date = new Date(input as string);
+  if (isNaN(date.getTime()) || date.getTime() <= Date.now()) return 'invalid';
+  return date;
+}
+
+/**
+ * Check an optional reason: absent, null (cleared) or a string of at most MAX_REASON_LENGTH
+ */
+function isValidReason(input: unknown): boolean {
+  return input === undefined || input === null || (typeof input === 'string' && input.length <= MAX_REASON_LENGTH);
+}
+
+/**
+ * Load an entry the user may change: their own, or a global one for admins
+ */
+async function getEditableEntry(
+  req: AuthRequest,
+  id: string
+): Promise<{ entry: { id: number; user_id: string | null } } | { status: number; error: string }> {
+  if (!/^\d+$/.test(id)) return { status: 404, error: 'List entry not found' };
+  const result = await pool.query(`SELECT ${LIST_COLUMNS} FROM domain_lists WHERE id = $1`, [id]);
+  const entry = result.rows[0];
+  if (!entry) return { status: 404, error: 'List entry not found' };
+  if (entry.user_id === null ? !isAdmin(req) : entry.user_id !== req.userId) {
+    return entry.user_id === null
+      ? { status: 403, error: 'Only admins can change global list entries' }
+      : { status: 404, error: 'List entry not found' };
+  }
+  return { entry };
+}
+
+// List global entries and the user's own entries (?type=allow|deny, ?scope=global|user)
+listsRouter.get('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { type, scope } = req.query;
+
+    if (type !== undefined && !LIST_TYPES.includes(type as string)) {
+      return res.status(400).json({ error: 'Invalid type. Must be: allow or deny' });
+    }
+    if (scope !== undefined && !['global', 'user'].includes(scope as string)) {
+      return res.status(400).json({ error: 'Invalid scope. Must be: global or user' });
+    }
+
+    const result = await pool.query(
+      `SELECT ${LIST_COLUMNS}
+       FROM domain_lists
+       WHERE (user_id IS NULL OR user_id = $1)
+         AND ($2::text IS NULL OR list_type = $2)
+         AND ($3::text IS NULL OR ($3 = 'global') = (user_id IS NULL))
+         AND (expires_at IS NULL OR expires_at > now())
+       ORDER BY domain`,
+      [req.userId, type || null, scope || null]
+    );
+
+    res.json({ entries: result.rows });
+  } catch (err) {
+    console.error('List domain lists error:', err);
+    res.status(500).json({ error: 'Failed to load domain lists' });
+  }
+});
+
+// Add an entry (scope 'user' by default; 'global' entries need an admin)
+listsRouter.post('/', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { listType, scope = 'user', reason } = req.body;
+    const domain = normalizeListDomain(req.body.domain);
+    const expiresAt = parseExpiry(req.body.expiresAt);
+
+    if (!domain) {
+      return res.status(400).json({ error: 'Invalid domain' });
+    }
+    if (!LIST_TYPES.includes(listType)) {
+      return res.status(400).json({ error: 'Invalid listType. Must be: allow or deny' });
+    }
+    if (!['global', 'user'].includes(scope)) {
+      return res.status(400).json({ error: 'Invalid scope. Must be: global or user' });
+    }
+    if (expiresAt === 'invalid') {
+      return res.status(400).json({ error: 'expiresAt must be a future date' });
+    }
+    if (!isValidReason(reason)) {
+      return res.status(400).json({ error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` });
+    }
+    if (scope === 'global' && !isAdmin(req)) {
+      return res.status(403).json({ error: 'Only admins can add global list entries' });
+    }
+
+    // An expired entry no longer counts, but would still hold the domain's place on the scope
+    const userId = scope === 'global' ? null : req.userId;
+    await pool.query(
+      `DELETE FROM domain_lists
+       WHERE domain = $1 AND user_id IS NOT DISTINCT FROM $2 AND expires_at <= now()`,
+      [domain, userId]
+    );
+    const result = await pool.query(
+      `INSERT INTO domain_lists (domain, list_type, user_id, reason, added_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${LIST_COLUMNS}`,
+      [domain, listType, userId, reason || null, req.userId, expiresAt ?? null]
+    );
+
+    await refreshDomainLists();
+    res.status(201).json({ entry: result.rows[0] });
+  } catch (err) {
+    // Unique violation: one entry per domain and scope
+    if ((err as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'Domain is already on this list scope' });
+    }
+    console.error('Add domain list entry error:', err);
+    res.status(500).json({ error: 'Failed to add list entry' });
+  }
+});
+
+// Update an entry's list type, reason or expiry
+listsRouter.patch('/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { listType, reason } = req.body;
+    const expiresAt = parseExpiry(req.body.expiresAt);
+
+    if (listType !== undefined && !LIST_TYPES.includes(listType)) {
+      return res.status(400).json({ error: 'Invalid listType. Must be: allow or deny' });
+    }
+    if (expiresAt === 'invalid') {
+      return res.status(400).json({ error: 'expiresAt must be a future date' });
+    }
+    if (!isValidReason(reason)) {
+      return res.status(400).json({ error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` });
+    }
+
+    const editable = await getEditableEntry(req, req.params.id);
+    if ('error' in editable) {
+      return res.status(editable.status).json({ error: editable.error });
+    }
+
+    const result = await pool.query(
+      `UPDATE domain_lists
+       SET list_type = COALESCE($1, list_type),
+           reason = CASE WHEN $2::boolean THEN $3 ELSE reason END,
+           expires_at = CASE WHEN $4::boolean THEN $5::timestamptz ELSE expires_at END,
+           updated_at = now()
+       WHERE id = $6
+       RETURNING ${LIST_COLUMNS}`,
+      [listType || null, reason !== undefined, reason || null, expiresAt !== undefined, expiresAt ?? null, editable.entry.id]
+    );
+
+    await refreshDomainLists();
+    res.json({ entry: result.rows[0] });
+  } catch (err) {
+    console.error('Update domain list entry error:', err);
+    res.status(500).json({ error: 'Failed to update list entry' });
+  }
+});
+
+// Remove an entry
+listsRouter.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const editable = await getEditableEntry(req, req.params.id);
+    if ('error' in editable) {
+      return res.status(editable.status).json({ error: editable.error });
+    }
+
+    await pool.query('DELETE FROM domain_lists WHERE id = $1', [editable.entry.id]);
+
+    await refreshDomainLists();
+    res.json({ message: 'List entry deleted' });
+  } catch (err) {
+    console.error('Delete domain list entry error:', err);
+    res.status(500).json({ error: 'Failed to delete list entry' });
+  }
+});
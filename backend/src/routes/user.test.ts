@@ -0,0 +1,135 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { startTestDatabase, TEST_DATABASE_START_TIMEOUT_MS, type TestDatabase } from '../db/testDatabase.js';
+import { recordScanEvents } from '../services/scanHistory.js';
+import { userRouter } from './user.js';
+
+let mockDb: TestDatabase;
+jest.mock('../db/index.js', () => ({
+  pool: { query: (sql: string, params?: unknown[]) => mockDb.query(sql, params) }
+}));
+
+const USER_ID = '66666666-6666-6666-6666-666666666666';
+const OTHER_USER_ID = '77777777-7777-7777-7777-777777777777';
+const ADMIN_ID = '88888888-8888-8888-8888-888888888888';
+
+const app = express();
+app.use(express.json());
+app.use('/api/user', userRouter);
+
+const bearer = (userId: string) =>
+  `Bearer ${jwt.sign({ userId }, process.env.JWT_SECRET || 'your-secret-key-change-in-production')}`;
+
+const originalAdmins = process.env.ADMIN_EMAILS;
+
+beforeAll(async () => {
+  mockDb = await startTestDatabase({ migrate: true });
+  await mockDb.query(
+    `INSERT INTO users (id, email) VALUES ($1, 'user@example.com'), ($2, 'other@example.com'), ($3, 'admin@example.com')`,
+    [USER_ID, OTHER_USER_ID, ADMIN_ID]
+  );
+  process.env.ADMIN_EMAILS = 'admin@example.com';
+}, TEST_DATABASE_START_TIMEOUT_MS);
+
+afterAll(async () => {
+  if (originalAdmins === undefined) delete process.env.ADMIN_EMAILS;
+  else process.env.ADMIN_EMAILS = originalAdmins;
+  await mockDb.close();
+});
+
+describe('/api/user history', () => {
+  const urls = (res: { body: { scans: Array<{ url: string }> } }) => res.body.scans.map(scan => scan.url);
+
+  beforeAll(async () => {
+    await mockDb.query(
+      `INSERT INTO url_verdicts (domain, url, trust_score, category) VALUES
+         ('shop.example', 'https://shop.example/', 0.9, 'SAFE'),
+         ('phish.example', 'https://phish.example/login', 0.1, 'DANGEROUS'),
+         ('odd.example', 'https://odd.example/', 0.5, 'SUSPICIOUS')`
+    );
+    // Oldest first; both users were shown the phishing link
+    await recordScanEvents(USER_ID, { domain: 'news.example' }, [
+      { url: 'https://shop.example/', action: 'scan' },
+      { url: 'https://phish.example/login', action: 'scan' }
+    ]);
+    await recordScanEvents(OTHER_USER_ID, { domain: 'forum.example' }, [{ url: 'https://phish.example/login', action: 'click' }]);
+    await recordScanEvents(USER_ID, { domain: 'blog.example' }, [{ url: 'https://odd.example/', action: 'hover' }]);
+  });
+
+  it('should return the user\'s own events, newest first', async () => {
+    const res = await request(app).get('/api/user/me/history').set('Authorization', bearer(USER_ID));
+
+    expect(res.status).toBe(200);
+    expect(urls(res)).toEqual(['https://odd.example/', 'https://phish.example/login', 'https://shop.example/']);
+    expect(res.body.scans[1]).toMatchObject({ domain: 'news.example', action: 'scan', trust_score: 0.1, category: 'DANGEROUS' });
+    expect(res.body.nextCursor).toBeNull();
+
+    const other = await request(app).get('/api/user/me/history').set('Authorization', bearer(OTHER_USER_ID));
+    expect(urls(other)).toEqual(['https://phish.example/login']);
+    expect(other.body.scans[0]).toMatchObject({ domain: 'forum.example', action: 'click' });
+  });
+
+  it('should page through the history with the cursor', async () => {
+    const first = await request(app).get('/api/user/me/history?limit=2').set('Authorization', bearer(USER_ID));
+    const second = await request(app)
+      .get(`/api/user/me/history?limit=2&before=${first.body.nextCursor}`)
+      .set('Authorization', bearer(USER_ID));
+
+    expect(urls(first)).toEqual(['https://odd.example/', 'https://phish.example/login']);
+    expect(urls(second)).toEqual(['https://shop.example/']);
+    expect(second.body.nextCursor).toBeNull();
+  });
+
+  it('should filter by category, action and page domain', async () => {
+    const get = (query: string) => request(app).get(`/api/user/me/history?${query}`).set('Authorization', bearer(USER_ID));
+
+    expect(urls(await get('category=dangerous'))).toEqual(['https://phish.example/login']);
+    expect(urls(await get('action=hover'))).toEqual(['https://odd.example/']);
+    expect(urls(await get('domain=news.example'))).toEqual(['https://phish.example/login', 'https://shop.example/']);
+    expect((await get('category=unknown')).status).toBe(400);
+  });
+
+  it('should show a user\'s history by ID only to the user and to admins', async () => {
+    const byOther = await request(app).get(`/api/user/${USER_ID}/history`).set('Authorization', bearer(OTHER_USER_ID));
+    const byAdmin = await request(app).get(`/api/user/${USER_ID}/history`).set('Authorization', bearer(ADMIN_ID));
+    const anonymous = await request(app).get(`/api/user/${USER_ID}/history`);
+
+    expect(byOther.status).toBe(403);
+    expect(byAdmin.status).toBe(200);
+    expect(urls(byAdmin)).toHaveLength(3);
+    expect(anonymous.status).toBe(401);
+  });
+});
+
+describe('/api/user scoring profile', () => {
+  const put = (body: object) => request(app).put('/api/user/me/scoring-profile').set('Authorization', bearer(OTHER_USER_ID)).send(body);
+  const get = () => request(app).get('/api/user/me/scoring-profile').set('Authorization', bearer(OTHER_USER_ID));
+
+  it('should start users on the balanced profile and offer the built-in ones', async () => {
+    const res = await get();
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ selected: 'balanced', custom: null });
+    expect(Object.keys(res.body.builtIn)).toEqual(['strict', 'balanced', 'lenient']);
+  });
+
+  it('should select a built-in profile', async () => {
+    expect((await put({ profile: 'strict' })).status).toBe(200);
+    expect((await get()).body.selected).toBe('strict');
+    expect((await put({ profile: 'paranoid' })).status).toBe(400);
+  });
+
+  it('should save a valid custom profile before it can be selected', async () => {
+    expect((await put({ profile: 'custom' })).status).toBe(400);
+    expect((await put({ profile: 'custom', custom: { thresholds: { safe: 0.3, suspicious: 0.6 } } })).status).toBe(400);
+
+    const saved = await put({ profile: 'custom', custom: { weightScale: 1.5, thresholds: { safe: 0.85, suspicious: 0.5 } } });
+    expect(saved.status).toBe(200);
+    expect((await get()).body).toMatchObject({
+      selected: 'custom',
+      custom: { name: 'custom', weightScale: 1.5, thresholds: { safe: 0.85, suspicious: 0.5 } }
+    });
+  });
+});
@@ -1,6 +1,16 @@
 import { Router } from 'express';
 import { pool } from '../db/index.js';
-import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { authenticateToken, AuthRequest, isAdmin } from '../middleware/auth.js';
+import {
+  BUILT_IN_PROFILES,
+  SCORING_PROFILE_NAMES,
+  getUserScoringProfiles,
+  parseCustomProfile,
+  saveUserScoringProfile,
+  type ScoringProfile
+} from '../services/scoringProfiles.js';
+import { getScanHistory, parseHistoryQuery } from '../services/scanHistory.js';
+import type { ScoringProfileName } from '../../shared/types.js';
 
 export const userRouter = Router();
 
@@ -169,44 +179,78 @@ userRouter.get('/:userId/plan', async (req, res) => {
   }
 });
 
-// Get current user history (authenticated)
-userRouter.get('/me/history', authenticateToken, async (req: AuthRequest, res) => {
+// Get the current user's scoring profile with the built-in profiles to pick from (authenticated)
+userRouter.get('/me/scoring-profile', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { selected, custom } = await getUserScoringProfiles(req.userId!);
+    res.json({ selected, custom, builtIn: BUILT_IN_PROFILES });
+  } catch (err) {
+    console.error('Get scoring profile error:', err);
+    res.status(500).json({ error: 'Failed to get scoring profile' });
+  }
+});
+
+// Select a scoring profile; `custom` saves the user's own weights, thresholds and provider blend (authenticated)
+userRouter.put('/me/scoring-profile', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.userId!;
-    const limit = parseInt(req.query.limit as string) || 50;
+    const { profile, custom } = req.body;
     
-    const result = await pool.query(
-      `SELECT domain, url, link_text, trust_score, category, created_at
-       FROM link_scans
-       WHERE user_id = $1
-       ORDER BY created_at DESC
-       LIMIT $2`,
-      [userId, limit]
-    );
+    if (!SCORING_PROFILE_NAMES.includes(profile)) {
+      return res.status(400).json({ error: `Invalid profile. Must be: ${SCORING_PROFILE_NAMES.join(', ')}` });
+    }
+    
+    let customProfile: ScoringProfile | undefined;
+    if (custom !== undefined) {
+      const parsed = parseCustomProfile(custom);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      customProfile = parsed.profile;
+    }
+    
+    const current = await getUserScoringProfiles(userId);
+    if (profile === 'custom' && !customProfile && !current.custom) {
+      return res.status(400).json({ error: 'Save a custom profile before selecting it' });
+    }
     
-    res.json({ scans: result.rows });
+    await saveUserScoringProfile(userId, profile as ScoringProfileName, customProfile);
+    res.json({ selected: profile, custom: customProfile || current.custom });
+  } catch (err) {
+    console.error('Set scoring profile error:', err);
+    res.status(500).json({ error: 'Failed to update scoring profile' });
+  }
+});
+
+// Get current user history (authenticated; paginated with ?before=<nextCursor>, see parseHistoryQuery for filters)
+userRouter.get('/me/history', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const parsed = parseHistoryQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    
+    res.json(await getScanHistory(req.userId!, parsed.query));
   } catch (err) {
     console.error('Get history error:', err);
     res.status(500).json({ error: 'Failed to get history' });
   }
 });
 
-// Get user scan history by ID (for backward compatibility)
-userRouter.get('/:userId/history', async (req, res) => {
+// Get user scan history by ID (for backward compatibility; only the user themselves or an admin)
+userRouter.get('/:userId/history', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const { userId } = req.params;
-    const limit = parseInt(req.query.limit as string) || 50;
+    if (userId !== req.userId && !isAdmin(req)) {
+      return res.status(403).json({ error: 'You can only view your own history' });
+    }
     
-    const result = await pool.query(
-      `SELECT domain, url, link_text, trust_score, category, created_at
-       FROM link_scans
-       WHERE user_id = $1
-       ORDER BY created_at DESC
-       LIMIT $2`,
-      [userId, limit]
-    );
+    const parsed = parseHistoryQuery(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
     
-    res.json({ scans: result.rows });
+    res.json(await getScanHistory(userId, parsed.query));
   } catch (err) {
     console.error('Get history error:', err);
     res.status(500).json({ error: 'Failed to get history' });
@@ -0,0 +1,80 @@
+import { describe, it, expect, jest, afterEach, beforeAll, afterAll } from '@jest/globals';
+import { startTestDatabase, TEST_DATABASE_START_TIMEOUT_MS, type TestDatabase } from '../db/testDatabase.js';
+import { getRetryDelay, getWorkerConcurrency, isAiJobPriority, startAiJobWorker, stopAiJobWorker, waitForAiJob } from './aiJobQueue.js';
+
+let mockDb: TestDatabase;
+jest.mock('../db/index.js', () => ({
+  pool: { query: (sql: string, params?: unknown[]) => mockDb.query(sql, params) }
+}));
+
+describe('AI job queue', () => {
+  const originalConcurrency = process.env.OLLAMA_CONCURRENCY;
+
+  afterEach(() => {
+    if (originalConcurrency === undefined) delete process.env.OLLAMA_CONCURRENCY;
+    else process.env.OLLAMA_CONCURRENCY = originalConcurrency;
+  });
+
+  it('should back off exponentially between attempts, up to five minutes', () => {
+    expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([5_000, 10_000, 20_000, 40_000]);
+    expect(getRetryDelay(20)).toBe(5 * 60_000);
+  });
+
+  it('should accept only known priorities', () => {
+    expect(['click', 'hover', 'batch'].every(isAiJobPriority)).toBe(true);
+    expect(isAiJobPriority('urgent')).toBe(false);
+    expect(isAiJobPriority(true)).toBe(false);
+  });
+
+  it('should run as many jobs at once as Ollama is configured for', () => {
+    delete process.env.OLLAMA_CONCURRENCY;
+    expect(getWorkerConcurrency()).toBe(1);
+    process.env.OLLAMA_CONCURRENCY = '3';
+    expect(getWorkerConcurrency()).toBe(3);
+    process.env.OLLAMA_CONCURRENCY = '0';
+    expect(getWorkerConcurrency()).toBe(1);
+  });
+});
+
+describe('AI job leases', () => {
+  beforeAll(async () => {
+    mockDb = await startTestDatabase({ migrate: true });
+  }, TEST_DATABASE_START_TIMEOUT_MS);
+
+  afterAll(() => mockDb.close());
+
+  afterEach(() => stopAiJobWorker());
+
+  // A running job whose worker's lease ran out after `attempts` attempts
+  const insertAbandonedJob = async (url: string, attempts: number) => {
+    const result = await mockDb.query<{ id: string }>(
+      `INSERT INTO ai_jobs (url, status, payload, attempts, max_attempts, locked_until)
+       VALUES ($1, 'running', '{}', $2, 3, now() - interval '1 minute')
+       RETURNING id`,
+      [url, attempts]
+    );
+    return result.rows[0].id;
+  };
+
+  it('should run a job again when its worker stopped and attempts are left', async () => {
+    const id = await insertAbandonedJob('https://retried.example/', 1);
+    const handler = jest.fn(async () => ({ ok: true }));
+
+    startAiJobWorker(handler);
+    const job = await waitForAiJob(id, 5_000);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(job).toMatchObject({ status: 'done', attempts: 2, result: { ok: true } });
+  });
+
+  it('should fail a job whose worker stopped on its last attempt instead of running it again', async () => {
+    const id = await insertAbandonedJob('https://poison.example/', 3);
+    const handler = jest.fn(async () => ({ ok: true }));
+
+    startAiJobWorker(handler);
+    const job = await waitForAiJob(id, 5_000);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(job).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+});
@@ -0,0 +1,315 @@
+import { pool } from '../db/index.js';
+
+/**
+ * AI analysis job queue in the ai_jobs table. Jobs survive restarts: a worker claims the
+ * most urgent job with a lease, and a job whose worker died is claimed again once the lease
+ * runs out. There is at most one queued or running job per normalized URL. Failed jobs are
+ * retried with exponential backoff until they run out of attempts; so are jobs whose worker
+ * died, so a job that crashes the process is not claimed forever.
+ */
+
+export type AiJobPriority = 'click' | 'hover' | 'batch';
+export type AiJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface AiJob<P = unknown, R = unknown> {
+  id: string;
+  url: string;
+  priority: AiJobPriority;
+  status: AiJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  payload: P;
+  result: R | null;
+  lastError: string | null;
+  runAfter: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Runs a job and returns its result; throwing schedules a retry
+export type AiJobHandler<P = unknown, R = unknown> = (job: AiJob<P, R>) => Promise<R>;
+
+type AiJobRow = {
+  id: string;
+  url: string;
+  priority: number;
+  status: AiJobStatus;
+  attempts: number;
+  max_attempts: number;
+  payload: unknown;
+  result: unknown;
+  last_error: string | null;
+  run_after: Date;
+  created_at: Date;
+  updated_at: Date;
+};
+
+// Stored as a number so the queue sorts on it: clicked links, then hovered links, then page batches
+const PRIORITY_RANKS: Record<AiJobPriority, number> = { click: 0, hover: 1, batch: 2 };
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 5 * 60_000;
+const JOB_LEASE_MS = 5 * 60_000; // Longer than one Ollama analysis takes
+const POLL_INTERVAL_MS = 1_000;
+const CLEANUP_INTERVAL_MS = 60 * 60_000;
+const FINISHED_JOB_RETENTION_DAYS = 7;
+
+let workerHandler: AiJobHandler | null = null;
+let workerConcurrency = 1;
+let activeJobs = 0;
+let claiming = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+// Requests waiting for jobs to finish, and the timer checking on them
+const waiters = new Map<string, Set<(job: AiJob) => void>>();
+let waitTimer: NodeJS.Timeout | null = null;
+
+export function isAiJobPriority(value: unknown): value is AiJobPriority {
+  return typeof value === 'string' && value in PRIORITY_RANKS;
+}
+
+/**
+ * Delay before the next attempt of a job that failed `attempts` times (5s, 10s, 20s, ... up to 5 minutes)
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * How many jobs may run at once: as many analyses as Ollama handles in parallel (OLLAMA_CONCURRENCY, default 1)
+ */
+export function getWorkerConcurrency(): number {
+  const concurrency = parseInt(process.env.OLLAMA_CONCURRENCY || '', 10);
+  return Number.isFinite(concurrency) && concurrency > 0 ? concurrency : 1;
+}
+
+function toAiJob<P, R>(row: AiJobRow): AiJob<P, R> {
+  const priority = (Object.keys(PRIORITY_RANKS) as AiJobPriority[]).find(name => PRIORITY_RANKS[name] === row.priority);
+  return {
+    id: row.id,
+    url: row.url,
+    priority: priority || 'batch',
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    payload: row.payload as P,
+    result: row.result as R | null,
+    lastError: row.last_error,
+    runAfter: row.run_after,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Queue a job for a URL. If the URL already has a queued or running job, that job is
+ * returned instead (its priority raised if this one is more urgent).
+ */
+export async function enqueueAiJob<P, R = unknown>(url: string, priority: AiJobPriority, payload: P): Promise<AiJob<P, R>> {
+  const maxAttempts = parseInt(process.env.AI_JOB_MAX_ATTEMPTS || '', 10) || DEFAULT_MAX_ATTEMPTS;
+  const result = await pool.query<AiJobRow>(
+    `INSERT INTO ai_jobs (url, priority, payload, max_attempts)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (url) WHERE status IN ('queued', 'running')
+     DO UPDATE SET priority = LEAST(ai_jobs.priority, EXCLUDED.priority), updated_at = now()
+     RETURNING *`,
+    [url, PRIORITY_RANKS[priority], JSON.stringify(payload), maxAttempts]
+  );
+  void fillWorkerSlots();
+  return toAiJob<P, R>(result.rows[0]);
+}
+
+export async function getAiJob<P = unknown, R = unknown>(id: string): Promise<AiJob<P, R> | null> {
+  const result = await pool.query<AiJobRow>('SELECT * FROM ai_jobs WHERE id = $1', [id]);
+  return result.rows[0] ? toAiJob<P, R>(result.rows[0]) : null;
+}
+
+/**
+ * Wait until a job is done or has failed for good. Resolves null if it has not
+ * finished within `timeoutMs`. Jobs finished by another server process are noticed
+ * by a check of all waited-for jobs every second.
+ */
+export function waitForAiJob<P = unknown, R = unknown>(id: string, timeoutMs: number): Promise<AiJob<P, R> | null> {
+  return new Promise(resolve => {
+    const finish = (job: AiJob | null) => {
+      clearTimeout(timeout);
+      const waiting = waiters.get(id);
+      waiting?.delete(finish);
+      if (waiting?.size === 0) waiters.delete(id);
+      resolve(job as AiJob<P, R> | null);
+    };
+    const timeout = setTimeout(() => finish(null), timeoutMs);
+
+    const waiting = waiters.get(id) || new Set();
+    waiting.add(finish);
+    waiters.set(id, waiting);
+    if (!waitTimer) {
+      waitTimer = setInterval(() => void checkWaitedJobs(), POLL_INTERVAL_MS);
+      waitTimer.unref();
+    }
+  });
+}
+
+function notifyWaiters(job: AiJob): void {
+  waiters.get(job.id)?.forEach(finish => finish(job));
+}
+
+async function checkWaitedJobs(): Promise<void> {
+  const ids = [...waiters.keys()];
+  if (ids.length === 0) {
+    if (waitTimer) clearInterval(waitTimer);
+    waitTimer = null;
+    return;
+  }
+  try {
+    const result = await pool.query<AiJobRow>(
+      `SELECT * FROM ai_jobs WHERE id = ANY($1::uuid[]) AND status IN ('done', 'failed')`,
+      [ids]
+    );
+    result.rows.forEach(row => notifyWaiters(toAiJob(row)));
+  } catch (err) {
+    console.error('[AI Queue] Could not check waited-for jobs:', err);
+  }
+}
+
+/**
+ * Claim the most urgent job that is due: queued jobs whose retry delay has passed,
+ * and running jobs with attempts left whose worker's lease ran out
+ */
+async function claimAiJob(): Promise<AiJob | null> {
+  const result = await pool.query<AiJobRow>(
+    `UPDATE ai_jobs SET
+       status = 'running',
+       attempts = attempts + 1,
+       locked_until = now() + $1::int * interval '1 millisecond',
+       updated_at = now()
+     WHERE id = (
+       SELECT id FROM ai_jobs
+       WHERE (status = 'queued' AND run_after <= now())
+          OR (status = 'running' AND locked_until < now() AND attempts < max_attempts)
+       ORDER BY priority, created_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [JOB_LEASE_MS]
+  );
+  return result.rows[0] ? toAiJob(result.rows[0]) : null;
+}
+
+/**
+ * Fail the jobs whose worker's lease ran out on their last attempt
+ */
+async function failAbandonedAiJobs(): Promise<void> {
+  const result = await pool.query<AiJobRow>(
+    `UPDATE ai_jobs SET
+       status = 'failed',
+       last_error = 'The worker stopped during the last attempt',
+       locked_until = NULL,
+       updated_at = now()
+     WHERE status = 'running' AND locked_until < now() AND attempts >= max_attempts
+     RETURNING *`
+  );
+  for (const row of result.rows) {
+    console.error(`[AI Queue] Job ${row.id} failed after ${row.attempts} attempts: its worker stopped each time`);
+    notifyWaiters(toAiJob(row));
+  }
+}
+
+async function runAiJob(job: AiJob, handler: AiJobHandler): Promise<void> {
+  try {
+    const result = await handler(job);
+    const finished = await pool.query<AiJobRow>(
+      `UPDATE ai_jobs SET status = 'done', result = $2, last_error = NULL, locked_until = NULL, updated_at = now()
+       WHERE id = $1 RETURNING *`,
+      [job.id, JSON.stringify(result ?? null)]
+    );
+    if (finished.rows[0]) notifyWaiters(toAiJob(finished.rows[0]));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (job.attempts < job.maxAttempts) {
+      const delay = getRetryDelay(job.attempts);
+      console.warn(`[AI Queue] Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay / 1000}s: ${message}`);
+      await pool.query(
+        `UPDATE ai_jobs SET status = 'queued', last_error = $2, locked_until = NULL,
+           run_after = now() + $3::int * interval '1 millisecond', updated_at = now()
+         WHERE id = $1`,
+        [job.id, message, delay]
+      );
+    } else {
+      console.error(`[AI Queue] Job ${job.id} failed after ${job.attempts} attempts: ${message}`);
+      const failed = await pool.query<AiJobRow>(
+        `UPDATE ai_jobs SET status = 'failed', last_error = $2, locked_until = NULL, updated_at = now()
+         WHERE id = $1 RETURNING *`,
+        [job.id, message]
+      );
+      if (failed.rows[0]) notifyWaiters(toAiJob(failed.rows[0]));
+    }
+  }
+}
+
+/**
+ * Claim jobs until every worker slot is busy or nothing is due
+ */
+async function fillWorkerSlots(): Promise<void> {
+  const handler = workerHandler;
+  if (!handler || claiming) return;
+  claiming = true;
+  try {
+    await failAbandonedAiJobs();
+    while (activeJobs < workerConcurrency) {
+      const job = await claimAiJob();
+      if (!job) break;
+      activeJobs++;
+      runAiJob(job, handler)
+        .catch(err => console.error(`[AI Queue] Could not record the outcome of job ${job.id}:`, err))
+        .finally(() => {
+          activeJobs--;
+          void fillWorkerSlots();
+        });
+    }
+  } catch (err) {
+    console.error('[AI Queue] Could not claim a job:', err);
+  } finally {
+    claiming = false;
+  }
+}
+
+async function deleteFinishedJobs(): Promise<void> {
+  try {
+    await pool.query(
+      `DELETE FROM ai_jobs
+       WHERE status IN ('done', 'failed') AND updated_at < now() - interval '${FINISHED_JOB_RETENTION_DAYS} days'`
+    );
+  } catch (err) {
+    console.error('[AI Queue] Could not delete finished jobs:', err);
+  }
+}
+
+/**
+ * Start processing jobs in this process, at most `concurrency` at a time
+ */
+export function startAiJobWorker<P, R>(handler: AiJobHandler<P, R>, concurrency: number = getWorkerConcurrency()): void {
+  workerHandler = handler as AiJobHandler;
+  workerConcurrency = concurrency;
+  if (!pollTimer) {
+    pollTimer = setInterval(() => void fillWorkerSlots(), POLL_INTERVAL_MS);
+    pollTimer.unref();
+    cleanupTimer = setInterval(() => void deleteFinishedJobs(), CLEANUP_INTERVAL_MS);
+    cleanupTimer.unref();
+  }
+  void fillWorkerSlots();
+}
+
+/**
+ * Stop claiming jobs (running jobs finish)
+ */
+export function stopAiJobWorker(): void {
+  workerHandler = null;
+  if (pollTimer) clearInterval(pollTimer);
+  if (cleanupTimer) clearInterval(cleanupTimer);
+  pollTimer = null;
+  cleanupTimer = null;
+}
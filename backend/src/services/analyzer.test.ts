@@ -0,0 +1,214 @@
+import { describe, it, expect, jest, beforeAll, afterAll, afterEach } from '@jest/globals';
+import type { LinkAnalysis, LinkMeta } from '../../shared/types.js';
+import { startTestDatabase, TEST_DATABASE_START_TIMEOUT_MS, type TestDatabase } from '../db/testDatabase.js';
+import { setHostResolver } from './privateNetwork.js';
+import type { OllamaAnalysisResult } from './ollama.js';
+import { startAiJobWorker, stopAiJobWorker, waitForAiJob } from './aiJobQueue.js';
+import { setDomainListEntries } from './domainLists.js';
+import { analyzeAiJob, analyzeLinks, analyzeLinksWithAI, getAiJobStatus } from './analyzer.js';
+
+let mockDb: TestDatabase;
+// Verdicts are not stored while a test holds their stores back
+const mockStores: { held: Promise<void> | null } = { held: null };
+jest.mock('../db/index.js', () => ({
+  pool: {
+    query: async (sql: string, params?: unknown[]) => {
+      if (mockStores.held && sql.startsWith('SELECT id, created_at, gpt_summary')) await mockStores.held;
+      return mockDb.query(sql, params);
+    }
+  }
+}));
+jest.mock('./externalCheckers.js', () => ({
+  checkExternalServices: async () => ({ safe: true, confidence: 0.9, sources: [], threatCount: 0, findings: [] })
+}));
+// Ollama is down unless a test gives it an analysis to answer with
+const mockOllama: { result: OllamaAnalysisResult | null } = { result: null };
+jest.mock('./ollama.js', () => ({
+  isOllamaAvailable: async () => mockOllama.result !== null,
+  analyzeSuspiciousLink: async () => mockOllama.result,
+  getOllamaFindings: () => []
+}));
+jest.mock('./gpt.js', () => ({
+  getGptAnalysis: async () => null,
+  getGptFindings: () => []
+}));
+
+const STRICT_USER_ID = '22222222-2222-2222-2222-222222222222';
+
+// Scores 0.75 with the balanced profile: SAFE, but SUSPICIOUS under the strict profile
+const BORDERLINE_LINK: LinkMeta = {
+  href: 'https://example-store.xyz/',
+  text: 'Example Store offers',
+  targetDomain: 'example-store.xyz'
+};
+
+describe('Link analysis', () => {
+  beforeAll(async () => {
+    mockDb = await startTestDatabase({ migrate: true });
+    await mockDb.query(
+      `INSERT INTO users (id, email, scoring_profile) VALUES ($1, 'strict@example.com', 'strict')`,
+      [STRICT_USER_ID]
+    );
+    setHostResolver(async () => ['203.0.113.8']);
+  }, TEST_DATABASE_START_TIMEOUT_MS);
+
+  afterAll(async () => {
+    setHostResolver();
+    await mockDb.close();
+  });
+
+  afterEach(() => {
+    stopAiJobWorker();
+    setDomainListEntries([]);
+    mockOllama.result = null;
+    delete process.env.ALLOW_AI_WITHOUT_AUTH;
+  });
+
+  // Verdicts are stored without holding up the request; wait for the row to show up
+  const waitForRow = async <T>(sql: string, params: unknown[]): Promise<T> => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const result = await mockDb.query<T>(sql, params);
+      if (result.rows.length > 0) return result.rows[0];
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error(`No row for ${params.join(', ')}`);
+  };
+
+  const storedVerdict = (url: string, condition = 'TRUE') =>
+    waitForRow<{ trust_score: string; category: string }>(
+      `SELECT trust_score, category FROM url_verdicts WHERE url = $1 AND ${condition}`,
+      [url]
+    );
+
+  it('should store the balanced verdict and score it with the profile of each user reading it', async () => {
+    const [scanned] = await analyzeLinks([BORDERLINE_LINK], 'news.example', STRICT_USER_ID);
+    expect(scanned.verdict.category).toBe('SUSPICIOUS');
+
+    const stored = await storedVerdict(BORDERLINE_LINK.href);
+    expect(stored.category).toBe('SAFE');
+    expect(parseFloat(stored.trust_score)).toBeCloseTo(0.75);
+
+    // Served from the cache
+    const [anonymous] = await analyzeLinksWithAI([BORDERLINE_LINK], 'news.example');
+    const [strictUser] = await analyzeLinksWithAI([BORDERLINE_LINK], 'news.example', STRICT_USER_ID);
+    expect(anonymous.verdict.category).toBe('SAFE');
+    expect(anonymous.verdict.trustScore).toBeCloseTo(0.75);
+    expect(strictUser.verdict.category).toBe('SUSPICIOUS');
+  });
+
+  it('should judge the text of a cached link by the text it is shown with', async () => {
+    const link = { ...BORDERLINE_LINK, href: 'https://text-store.xyz/', targetDomain: 'text-store.xyz' };
+    const mismatching = { ...link, text: 'https://www.mybank.com' };
+    const hasMismatch = (analysis: LinkAnalysis) =>
+      (analysis.verdict.findings || []).some(finding => finding.code === 'text_href_mismatch');
+
+    const [scanned] = await analyzeLinks([link], 'news.example');
+    await storedVerdict(link.href);
+
+    // Served from the cache
+    const [shownAsBank] = await analyzeLinksWithAI([mismatching], 'news.example');
+    const [shownAsStore] = await analyzeLinksWithAI([link], 'news.example');
+    expect(hasMismatch(shownAsBank)).toBe(true);
+    expect(shownAsBank.verdict.trustScore).toBeLessThan(scanned.verdict.trustScore);
+    expect(hasMismatch(shownAsStore)).toBe(false);
+    expect(shownAsStore.verdict.trustScore).toBeCloseTo(scanned.verdict.trustScore);
+  });
+
+  it('should count the balanced verdict toward the reputation of the site', async () => {
+    await analyzeLinks([{ ...BORDERLINE_LINK, href: 'https://example-store.xyz/sale' }], 'news.example', STRICT_USER_ID);
+
+    const reputation = await waitForRow(
+      'SELECT safe_count, suspicious_count, dangerous_count FROM domain_reputation WHERE domain = $1 AND safe_count + suspicious_count + dangerous_count = 2',
+      ['example-store.xyz']
+    );
+    expect(reputation).toEqual({ safe_count: 2, suspicious_count: 0, dangerous_count: 0 });
+  });
+
+  it('should count a verdict toward the site of its URL, whatever domain the client sent', async () => {
+    await analyzeLinks([{ ...BORDERLINE_LINK, href: 'https://spoofing-store.xyz/', targetDomain: 'bank.example' }], 'news.example');
+
+    await waitForRow('SELECT 1 FROM domain_reputation WHERE domain = $1', ['spoofing-store.xyz']);
+    expect((await mockDb.query('SELECT 1 FROM domain_reputation WHERE domain = $1', ['bank.example'])).rows).toEqual([]);
+  });
+
+  it('should share the result of an AI job and score it with the profile of each user reading it', async () => {
+    process.env.ALLOW_AI_WITHOUT_AUTH = 'true';
+    // No recommendation: the AI score is blended with the link's own
+    mockOllama.result = { contentRelevance: '', followRecommendation: '', clickBehavior: '', safetyRating: 75, reasoning: '' };
+    const link = { ...BORDERLINE_LINK, href: 'https://another-store.xyz/', targetDomain: 'another-store.xyz' };
+
+    let finished!: () => void;
+    const backgroundDone = new Promise<void>(resolve => (finished = resolve));
+    const [queued] = await analyzeLinksWithAI([link], 'news.example', STRICT_USER_ID, '', link.href, 'click', undefined, finished);
+    expect(queued.aiJobId).toBeDefined();
+    startAiJobWorker(analyzeAiJob);
+    await backgroundDone;
+
+    const forStrictUser = await getAiJobStatus(queued.aiJobId!, STRICT_USER_ID);
+    const forAnonymous = await getAiJobStatus(queued.aiJobId!);
+    expect(forStrictUser?.status).toBe('done');
+    expect(forStrictUser?.analysis?.verdict.category).toBe('SUSPICIOUS');
+    expect(forAnonymous?.analysis?.verdict.category).toBe('SAFE');
+    expect((await storedVerdict(link.href)).category).toBe('SAFE');
+  });
+
+  it('should answer without the AI analysis when its job takes more than a few seconds', async () => {
+    process.env.ALLOW_AI_WITHOUT_AUTH = 'true';
+    mockOllama.result = { contentRelevance: '', followRecommendation: 'SAFE_TO_FOLLOW', clickBehavior: '', safetyRating: 90, reasoning: '' };
+    const link = { ...BORDERLINE_LINK, href: 'https://slow-store.xyz/', targetDomain: 'slow-store.xyz' };
+
+    // No worker runs the job
+    const started = Date.now();
+    const [analysis] = await analyzeLinks([link], 'news.example');
+
+    expect(Date.now() - started).toBeLessThan(10_000);
+    expect(analysis.aiJobId).toBeDefined();
+    expect(analysis.aiJobStatus).toBe('queued');
+    expect(analysis.verdict.category).toBe('SAFE');
+  }, 15_000);
+
+  it('should store the AI analysis of a link whose first verdict was still being stored', async () => {
+    process.env.ALLOW_AI_WITHOUT_AUTH = 'true';
+    mockOllama.result = { contentRelevance: '', followRecommendation: 'SAFE_TO_FOLLOW', clickBehavior: '', safetyRating: 90, reasoning: '' };
+    const link = { ...BORDERLINE_LINK, href: 'https://busy-store.xyz/', targetDomain: 'busy-store.xyz' };
+    let release!: () => void;
+    mockStores.held = new Promise<void>(resolve => (release = resolve));
+
+    try {
+      // Answers without the AI analysis, whose job then finishes while the verdict is being stored
+      const [analysis] = await analyzeLinks([link], 'news.example');
+      startAiJobWorker(analyzeAiJob);
+      expect((await waitForAiJob(analysis.aiJobId!, 5_000))?.status).toBe('done');
+    } finally {
+      mockStores.held = null;
+      release();
+    }
+
+    await storedVerdict(link.href, 'ollama_analysis IS NOT NULL');
+  }, 20_000);
+
+  it('should leave links on trusted sites and allow-listed links out of the history', async () => {
+    setDomainListEntries([
+      { id: 1, domain: 'allowed-store.xyz', listType: 'allow', userId: STRICT_USER_ID, reason: null, expiresAt: null }
+    ]);
+    const links = ['https://www.google.com/', 'https://allowed-store.xyz/', 'https://history-store.xyz/']
+      .map(href => ({ ...BORDERLINE_LINK, href, targetDomain: new URL(href).hostname }));
+
+    await analyzeLinks(links, 'news.example', STRICT_USER_ID);
+
+    const event = await waitForRow<{ url: string }>(
+      `SELECT v.url FROM user_scan_events e JOIN url_verdicts v ON v.id = e.url_verdict_id
+       WHERE e.user_id = $1 AND v.url = ANY($2::text[])`,
+      [STRICT_USER_ID, links.map(link => link.href)]
+    );
+    expect(event.url).toBe('https://history-store.xyz/');
+    // The allow-listed link was scanned and stored all the same
+    await storedVerdict('https://allowed-store.xyz/');
+    const events = await mockDb.query(
+      `SELECT 1 FROM user_scan_events e JOIN url_verdicts v ON v.id = e.url_verdict_id
+       WHERE e.user_id = $1 AND v.url = ANY($2::text[])`,
+      [STRICT_USER_ID, links.map(link => link.href)]
+    );
+    expect(events.rows).toHaveLength(1);
+  });
+});
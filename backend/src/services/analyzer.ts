@@ -1,14 +1,40 @@
-import type { LinkMeta, LinkAnalysis, TrustVerdict } from '../../shared/types.js';
-import { calculateHeuristics, isTrustedDomain } from './heuristics.js';
-import { getGptAnalysis } from './gpt.js';
+import type { Finding, LinkMeta, LinkAnalysis, ScoreStep, TrustVerdict } from '../../shared/types.js';
+import { calculateHeuristics, isLinkTextFinding, isRedirectWrapper, isTrustedDomain, type HeuristicsResult } from './heuristics.js';
+import { getGptAnalysis, getGptFindings } from './gpt.js';
 import { checkExternalServices, AggregatedCheckResult } from './externalCheckers.js';
-import { analyzeSuspiciousLink, type OllamaAnalysisResult } from './ollama.js';
+import { analyzeSuspiciousLink, getOllamaFindings, isOllamaAvailable, type OllamaAnalysisResult } from './ollama.js';
 import { pool } from '../db/index.js';
 import { hasExtensionMarker } from '../utils/sanitize.js';
+import { createFinding, findingsToIssues } from './findings.js';
+import { resolveRedirectChain, type RedirectChain } from './redirectResolver.js';
+import { extractEmbeddedUrls } from '../../shared/embeddedUrls.js';
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
+import { findDomainListEntry } from './domainLists.js';
+import { classifyPrivateHost, resolvePrivateAddress } from './privateNetwork.js';
+import {
+  adjustVerdictScore,
+  calculateTrustScore,
+  categorizeTrust,
+  createScoreStep,
+  describeTarget,
+  scoreAiRecommendation,
+  scoreLink,
+  type ExternalScoreInput,
+  type ReputationCounts,
+  type ScoringInput
+} from './scoring.js';
+import { BALANCED_PROFILE, getScoringProfile, type ScoringProfile } from './scoringProfiles.js';
+import { formatEngineVersion, getCacheFreshness } from './engineVersion.js';
+import { getCacheAge, getMaxCacheAgeMs, type CachedVerdictInfo } from './cachePolicy.js';
+import { getReputationCounts, recordScanReputation } from './domainReputation.js';
+import { recordScanEvents, type ScanAction } from './scanHistory.js';
+import { defineStage, runPipeline, type PipelineConfig, type PipelineStage } from './pipeline.js';
+import { enqueueAiJob, getAiJob, waitForAiJob, type AiJob, type AiJobPriority, type AiJobStatus } from './aiJobQueue.js';
 
-// Cache TTL: use cached results if scanned within this time (24 hours)
-const CACHE_TTL_HOURS = 24;
-const CACHE_TTL_MS = CACHE_TTL_HOURS * 60 * 60 * 1000;
+// How long /api/analyze waits for the AI jobs of its links before answering without them
+const ANALYZE_AI_JOB_WAIT_MS = 5 * 1000;
+// How long the background part of /api/ai-analyze waits for them
+const AI_JOB_WAIT_MS = 3 * 60 * 1000;
 
 /**
  * Normalize URL for consistent caching (remove trailing slashes, fragments, etc.)
@@ -27,20 +53,163 @@ function normalizeUrl(url: string): string {
   }
 }
 
+type UrlVerdictRow = {
+  url: string;
+  link_text: string | null;
+  detected_issues: string[] | null;
+  findings: Finding[] | null;
+  redirect_chain: TrustVerdict['redirectChain'] | null;
+  score_breakdown: ScoreStep[] | null;
+  raw_findings: ScoringInput | null;
+  trust_score: string;
+  gpt_summary: string | null;
+  ollama_analysis: OllamaAnalysisResult | null;
+  external_checks: AggregatedCheckResult | null;
+  recommendation: string | null;
+  risk_tags: string[] | null;
+  confidence: string | null;
+  category: TrustVerdict['category'];
+  engine_version: string | null;
+  scanned_at: Date;
+};
+
+// A cached analysis; stale ones are served while a background scan refreshes them
+type CachedScan = {
+  analysis: LinkAnalysis;
+  stale: boolean;
+  scoringInput: ScoringInput | null; // What the verdict was scored from (null for older rows)
+  ollamaResult: OllamaAnalysisResult | null;
+};
+
+/**
+ * What the cache TTL of a stored verdict depends on
+ */
+function toCachedVerdictInfo(row: Pick<UrlVerdictRow, 'category' | 'confidence' | 'external_checks'>): CachedVerdictInfo {
+  return {
+    category: row.category,
+    confidence: row.confidence ? parseFloat(row.confidence) : null,
+    externallyFlagged: (row.external_checks?.threatCount ?? 0) > 0
+  };
+}
+
+/**
+ * A verdict scored with a user's profile. Verdicts are scored and stored with the balanced
+ * profile, so every user can share them; a user's own profile is applied on the way out,
+ * from the raw findings (and AI analysis) the verdict was scored from. Verdicts without
+ * raw findings (trusted sites, older rows) keep their score.
+ */
+function scoreForProfile(
+  verdict: TrustVerdict,
+  scoringInput: ScoringInput | null | undefined,
+  ollamaResult: OllamaAnalysisResult | null | undefined,
+  profile: ScoringProfile
+): TrustVerdict {
+  if (!scoringInput) return verdict;
+  const { trustScore, breakdown } = scoreLink(scoringInput, profile);
+  const scored: TrustVerdict = { ...verdict, trustScore, category: categorizeTrust(trustScore, profile), scoreBreakdown: breakdown };
+  if (ollamaResult) {
+    applyAiScore(scored, ollamaResult, profile);
+  }
+  return scored;
+}
+
+/**
+ * Rebuild an analysis from a url_verdicts row, with the balanced verdict. Rows with raw
+ * findings are re-scored (the running scorer may differ); older rows keep their score.
+ */
+function toCachedAnalysis(row: UrlVerdictRow): LinkAnalysis {
+  const stored: TrustVerdict = {
+    trustScore: parseFloat(row.trust_score),
+    category: row.category,
+    findings: row.findings || [],
+    issues: row.detected_issues || [],
+    redirectChain: row.redirect_chain || undefined,
+    scoreBreakdown: row.score_breakdown || undefined,
+    gptSummary: row.gpt_summary || undefined,
+    recommendation: row.recommendation || undefined,
+    riskTags: row.risk_tags || undefined,
+    confidence: row.confidence ? parseFloat(row.confidence) : undefined
+  };
+  const verdict = scoreForProfile(stored, row.raw_findings, row.ollama_analysis, BALANCED_PROFILE);
+  
+  const link: LinkMeta = {
+    href: row.url,
+    text: row.link_text || '',
+    targetDomain: new URL(row.url).hostname
+  };
+  
+  return { link, verdict };
+}
+
+/**
+ * Use a cached row if its TTL (cachePolicy.ts) has not run out and the running engine would
+ * give the same verdict. Rows of an older scorer or model are re-scored from their raw
+ * findings (and stored with the new score); rows whose findings came from other heuristic
+ * rules count as a cache miss.
+ */
+function readCachedRow(row: UrlVerdictRow): CachedScan | null {
+  const age = getCacheAge(toCachedVerdictInfo(row), new Date(row.scanned_at));
+  if (age === 'expired') {
+    return null;
+  }
+  
+  const freshness = getCacheFreshness(row.engine_version, row.raw_findings !== null);
+  if (freshness === 'stale') {
+    console.log(`[Cache] Ignoring ${row.url} from engine ${row.engine_version ?? 'unversioned'}`);
+    return null;
+  }
+  
+  const analysis = toCachedAnalysis(row);
+  if (freshness === 'rescore') {
+    console.log(`[Cache] Re-scored ${row.url} from engine ${row.engine_version}`);
+    refreshCachedScore(analysis.link, analysis.verdict, row.category).catch(err => {
+      console.error(`[Cache] Error storing re-scored result for ${row.url}:`, err);
+    });
+  }
+  if (age === 'stale') {
+    console.log(`[Cache] Serving stale result for ${row.url} (scanned ${new Date(row.scanned_at).toISOString()})`);
+  }
+  return { analysis, stale: age === 'stale', scoringInput: row.raw_findings, ollamaResult: row.ollama_analysis };
+}
+
+/**
+ * Store a re-scored verdict with the running engine version
+ */
+async function refreshCachedScore(link: LinkMeta, verdict: TrustVerdict, previousCategory: TrustVerdict['category']): Promise<void> {
+  const url = link.href;
+  await pool.query(
+    `UPDATE url_verdicts SET
+      trust_score = $1,
+      category = $2,
+      score_breakdown = $3,
+      engine_version = $4,
+      updated_at = NOW()
+    WHERE url = $5`,
+    [
+      verdict.trustScore,
+      verdict.category,
+      verdict.scoreBreakdown ? JSON.stringify(verdict.scoreBreakdown) : null,
+      formatEngineVersion(),
+      url
+    ]
+  );
+  await updateReputation(link, verdict, previousCategory);
+}
+
 /**
  * Get cached scan result from database
  */
-async function getCachedScan(url: string): Promise<LinkAnalysis | null> {
+async function getCachedScan(url: string): Promise<CachedScan | null> {
   try {
     const normalizedUrl = normalizeUrl(url);
-    const cacheCutoff = new Date(Date.now() - CACHE_TTL_MS);
+    const cacheCutoff = new Date(Date.now() - getMaxCacheAgeMs());
     
     const result = await pool.query(
-      `SELECT url, link_text, detected_issues, trust_score, gpt_summary, 
+      `SELECT url, link_text, detected_issues, findings, redirect_chain, score_breakdown, raw_findings, trust_score, gpt_summary, 
               ollama_analysis, external_checks, recommendation, risk_tags, 
-              confidence, category, created_at
-       FROM link_scans
-       WHERE url = $1 AND created_at > $2
+              confidence, category, engine_version, scanned_at, created_at
+       FROM url_verdicts
+       WHERE url = $1 AND scanned_at > $2
        ORDER BY created_at DESC
        LIMIT 1`,
       [normalizedUrl, cacheCutoff]
@@ -48,27 +217,11 @@ async function getCachedScan(url: string): Promise<LinkAnalysis | null> {
     
     if (result.rows.length > 0) {
       const row = result.rows[0];
-      console.log(`[Cache] Found cached result for ${url} (from ${row.created_at})`);
-      
-      // Reconstruct verdict from database
-      const verdict: TrustVerdict = {
-        trustScore: parseFloat(row.trust_score),
-        category: row.category,
-        issues: row.detected_issues || [],
-        gptSummary: row.gpt_summary || undefined,
-        recommendation: row.recommendation || undefined,
-        riskTags: row.risk_tags || undefined,
-        confidence: row.confidence ? parseFloat(row.confidence) : undefined
-      };
-      
-      // Reconstruct link metadata
-      const link: LinkMeta = {
-        href: row.url,
-        text: row.link_text || '',
-        targetDomain: new URL(row.url).hostname
-      };
-      
-      return { link, verdict };
+      const scan = readCachedRow(row);
+      if (scan) {
+        console.log(`[Cache] Found cached result for ${url} (from ${row.scanned_at})`);
+      }
+      return scan;
     }
     
     return null;
@@ -81,27 +234,27 @@ async function getCachedScan(url: string): Promise<LinkAnalysis | null> {
 /**
  * Batch get cached scans for multiple URLs
  */
-async function getCachedScans(urls: string[]): Promise<Map<string, LinkAnalysis>> {
-  const cached = new Map<string, LinkAnalysis>();
+async function getCachedScans(urls: string[]): Promise<Map<string, CachedScan>> {
+  const cached = new Map<string, CachedScan>();
   
   if (urls.length === 0) return cached;
   
   try {
     const normalizedUrls = urls.map(normalizeUrl);
-    const cacheCutoff = new Date(Date.now() - CACHE_TTL_MS);
+    const cacheCutoff = new Date(Date.now() - getMaxCacheAgeMs());
     
     const result = await pool.query(
-      `SELECT url, link_text, detected_issues, trust_score, gpt_summary, 
+      `SELECT url, link_text, detected_issues, findings, redirect_chain, score_breakdown, raw_findings, trust_score, gpt_summary, 
               ollama_analysis, external_checks, recommendation, risk_tags, 
-              confidence, category, created_at
-       FROM link_scans
-       WHERE url = ANY($1::text[]) AND created_at > $2
+              confidence, category, engine_version, scanned_at, created_at
+       FROM url_verdicts
+       WHERE url = ANY($1::text[]) AND scanned_at > $2
        ORDER BY url, created_at DESC`,
       [normalizedUrls, cacheCutoff]
     );
     
     // Group by URL (take most recent for each)
-    const urlMap = new Map<string, any>();
+    const urlMap = new Map<string, UrlVerdictRow>();
     for (const row of result.rows) {
       if (!urlMap.has(row.url)) {
         urlMap.set(row.url, row);
@@ -110,24 +263,11 @@ async function getCachedScans(urls: string[]): Promise<Map<string, LinkAnalysis>
     
     // Convert to LinkAnalysis format
     for (const [url, row] of urlMap) {
-      const verdict: TrustVerdict = {
-        trustScore: parseFloat(row.trust_score),
-        category: row.category,
-        issues: row.detected_issues || [],
-        gptSummary: row.gpt_summary || undefined,
-        recommendation: row.recommendation || undefined,
-        riskTags: row.risk_tags || undefined,
-        confidence: row.confidence ? parseFloat(row.confidence) : undefined
-      };
-      
-      const link: LinkMeta = {
-        href: row.url,
-        text: row.link_text || '',
-        targetDomain: new URL(row.url).hostname
-      };
-      
-      cached.set(url, { link, verdict });
-      console.log(`[Cache] Found cached result for ${url}`);
+      const scan = readCachedRow(row);
+      if (scan) {
+        cached.set(url, scan);
+        console.log(`[Cache] Found cached result for ${url}`);
+      }
     }
     
     console.log(`[Cache] Retrieved ${cached.size} cached results out of ${urls.length} URLs`);
@@ -139,727 +279,915 @@ async function getCachedScans(urls: string[]): Promise<Map<string, LinkAnalysis>
 }
 
 /**
- * Analyze links with AI in parallel, prioritizing clicked links
- * Returns initial results immediately, then processes AI analysis in parallel batches in the background
+ * A cached verdict with the link text findings of the link being analyzed. Verdicts are
+ * cached by URL, but the same URL may be shown with other text: the findings that text
+ * gave the stored scan are swapped for those of this link, and the verdict re-scored.
+ * Verdicts without raw findings are served as stored.
  */
-export async function analyzeLinksWithAI(
-  links: LinkMeta[],
-  domain: string,
-  userId?: string,
-  sourcePageContext?: string,
-  priorityUrl?: string,
-  onUpdate?: (analysis: LinkAnalysis, index: number) => void
-): Promise<LinkAnalysis[]> {
-  
-  // Step 0: Filter out links with extension markers (already processed)
-  const filteredLinks: Array<{ link: LinkMeta; originalIndex: number }> = [];
-  for (let i = 0; i < links.length; i++) {
-    if (!hasExtensionMarker(links[i].text)) {
-      filteredLinks.push({ link: links[i], originalIndex: i });
-    } else {
-      console.log(`[Analyze] Skipping link with extension marker: ${links[i].href}`);
-    }
+function withLinkTextFindings(scan: CachedScan, heuristics: HeuristicsResult): Pick<LinkState, 'verdict' | 'scoringInput'> {
+  const { verdict } = scan.analysis;
+  if (!scan.scoringInput) {
+    return { verdict };
   }
   
-  if (filteredLinks.length === 0) {
-    console.log(`[Analyze] All links filtered out (already processed)`);
-    return links.map(link => ({
-      link,
-      verdict: {
-        trustScore: 0.5,
-        category: 'SAFE' as const,
-        issues: [],
-        confidence: 0.5
+  const textFindings = heuristics.findings.filter(isLinkTextFinding);
+  const withText = (findings: Finding[]) => [...findings.filter(finding => !isLinkTextFinding(finding)), ...textFindings];
+  const scoringInput: ScoringInput = { ...scan.scoringInput, findings: withText(scan.scoringInput.findings) };
+  const findings = withText(verdict.findings || []);
+  return {
+    verdict: scoreForProfile({ ...verdict, findings, issues: findingsToIssues(findings) }, scoringInput, scan.ollamaResult, BALANCED_PROFILE),
+    scoringInput
+  };
+}
+
+// A link's way through the analysis pipeline; each stage fills in some of these fields
+type LinkState = {
+  link: LinkMeta;
+  normalizedUrl: string;
+  indices: number[]; // Positions in the request (identical links share one state)
+  heuristics?: HeuristicsResult;
+  embeddedTargets?: TargetAnalysis[];
+  externalResult?: AggregatedCheckResult;
+  redirectAnalysis?: RedirectAnalysis | null;
+  reputation?: Map<string, ReputationCounts>; // Stored scans of the sites of the link and its targets, by host
+  scoringInput?: ScoringInput;
+  verdict?: TrustVerdict;
+  ollamaResult?: OllamaAnalysisResult;
+  aiJobId?: string; // Queued AI analysis
+  aiJobStatus?: AiJobStatus; // Set once the request stopped waiting for it
+  finished?: boolean; // The verdict is final (cached scan or trusted site)
+  trusted?: boolean; // Trusted site (built-in list or global allowlist): SAFE without a scan, nothing stored
+};
+
+type AnalysisContext = {
+  domain: string;
+  userId?: string;
+  sourcePageContext: string;
+  priorityUrl?: string;
+  priority: AiJobPriority; // Queue priority of the priority URL ('click' or 'hover')
+  // The caller's scoring profile, applied to the verdicts going out (toAnalysis). The stages
+  // score with the balanced profile: their verdicts are stored and shared by every user.
+  profile: ScoringProfile;
+  // Whether AI analysis may run for this request (checked once per request)
+  isAiAllowed: () => Promise<boolean>;
+};
+
+const stage = defineStage<LinkState, AnalysisContext>();
+
+// Use a stored verdict of the same URL; stale ones are scanned again in the background
+const cacheStage = stage({
+  name: 'cache',
+  reads: [],
+  async runBatch(states, context) {
+    const cached = await getCachedScans(states.map(state => state.normalizedUrl));
+    return states.map(state => {
+      const scan = cached.get(state.normalizedUrl);
+      if (!scan) return undefined;
+      if (scan.stale) {
+        revalidateCachedScan(state.link, context);
       }
-    }));
+      return {
+        ...withLinkTextFindings(scan, calculateHeuristics(state.link, undefined, context.domain)),
+        ollamaResult: scan.ollamaResult ?? undefined,
+        finished: true
+      };
+    });
   }
-  
-  // Step 0.5: Check database cache first (batch lookup for efficiency)
-  const urls = filteredLinks.map(({ link }) => normalizeUrl(link.href));
-  const cachedScans = await getCachedScans(urls);
-  const analyses: LinkAnalysis[] = new Array(links.length); // Pre-allocate for original indices
-  const linksToAnalyze: Array<{ link: LinkMeta; index: number; originalIndex: number }> = [];
-  
-  // Separate cached vs uncached links
-  for (let i = 0; i < filteredLinks.length; i++) {
-    const { link, originalIndex } = filteredLinks[i];
-    const normalizedUrl = normalizeUrl(link.href);
-    const cached = cachedScans.get(normalizedUrl);
-    
-    if (cached) {
-      analyses[originalIndex] = cached;
-    } else {
-      linksToAnalyze.push({ link, index: i, originalIndex });
-    }
+});
+
+// Local heuristics, then names resolving to private IPs
+const heuristicsStage = stage({
+  name: 'heuristics',
+  reads: [],
+  async run(state, context) {
+    const heuristics = calculateHeuristics(state.link, undefined, context.domain);
+    await addPrivateResolutionFinding({ link: state.link, heuristics }, context.domain);
+    return { heuristics };
   }
-  
-  if (linksToAnalyze.length === 0) {
-    console.log(`[Analyze] All ${links.length} links found in cache`);
-    return analyses;
+});
+
+// URLs embedded in the link's parameters. Analyzed even on trusted domains - open redirects live there.
+const embeddedStage = stage({
+  name: 'embedded',
+  reads: [],
+  async run(state) {
+    return { embeddedTargets: await analyzeEmbeddedTargets(state.link) };
   }
-  
-  console.log(`[Analyze] ${cachedScans.size} cached, ${linksToAnalyze.length} need analysis`);
-  
-  // Step 1: Calculate heuristics for uncached links only
-  const heuristicsResults = linksToAnalyze.map(({ link }) => ({
-    link,
-    heuristics: calculateHeuristics(link)
-  }));
-  
-  // Step 2: Check uncached links with external services in parallel (skip for trusted domains)
-  const externalCheckResults = await Promise.all(
-    linksToAnalyze.map(async ({ link }) => {
-      // Skip external checks for trusted domains (they're already safe)
-      if (isTrustedDomain(link.targetDomain)) {
-        return {
-          safe: true,
-          confidence: 1.0,
-          sources: [],
-          threatCount: 0
-        } as AggregatedCheckResult;
-      }
-      
-      try {
-        return await checkExternalServices(link);
-      } catch (err) {
-        console.error(`External check failed for ${link.href}:`, err);
-        return {
-          safe: true,
-          confidence: 0.5,
-          sources: [],
-          threatCount: 0
-        } as AggregatedCheckResult;
-      }
-    })
-  );
-  
-  // Step 3: Create initial verdicts (heuristics + external checks) - return immediately
-  // Deduplicate by normalized URL to avoid processing same link multiple times
-  const seenUrls = new Set<string>();
-  const urlToAnalysisItem = new Map<string, {
-    link: LinkMeta;
-    heuristics: ReturnType<typeof calculateHeuristics>;
-    externalResult: AggregatedCheckResult;
-    trustScore: number;
-    category: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
-    verdict: TrustVerdict;
-    originalIndices: number[]; // Track all original indices for this URL
-  }>();
-  
-  const aiAnalysisQueue: Array<{
-    link: LinkMeta;
-    heuristics: ReturnType<typeof calculateHeuristics>;
-    externalResult: AggregatedCheckResult;
-    trustScore: number;
-    category: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
-    verdict: TrustVerdict;
-    originalIndices: number[]; // All indices that map to this URL
-  }> = [];
-  
-  for (let j = 0; j < linksToAnalyze.length; j++) {
-    const { link, originalIndex } = linksToAnalyze[j];
-    const heuristics = heuristicsResults[j].heuristics;
-    const externalResult = externalCheckResults[j];
-    
-    // Deduplicate by normalized URL
-    const normalizedUrl = normalizeUrl(link.href);
-    
-    // Speed optimization: Skip AI and external checks for trusted domains
-    const isTrusted = isTrustedDomain(link.targetDomain);
-    
-    let verdict: TrustVerdict;
-    
-    if (isTrusted) {
-      // Trusted domain - mark as SAFE immediately, skip all checks
-      verdict = {
-        trustScore: 1.0,
-        category: 'SAFE',
-        issues: [],
-        confidence: 1.0,
-        gptSummary: '✅ Trusted domain - No analysis needed. This is a renowned, safe website.'
-      };
-      analyses[originalIndex] = { link, verdict };
-      continue; // Skip to next link
+});
+
+// Trusted sites without embedded URLs are SAFE - the remaining checks are skipped
+const trustedStage = stage({
+  name: 'trusted',
+  reads: ['embeddedTargets'],
+  skip: state => {
+    if (!isTrustedDomain(state.link.targetDomain)) return 'not trusted';
+    return state.embeddedTargets.length > 0 ? 'embedded URLs' : false;
+  },
+  async run() {
+    const verdict: TrustVerdict = {
+      trustScore: 1.0,
+      category: 'SAFE',
+      findings: [],
+      issues: [],
+      scoreBreakdown: [
+        createScoreStep('baseline', 'Neutral starting point', 0.5, 0.5),
+        createScoreStep('flag', 'Known trusted site - other checks skipped', 0.5, 1.0, 'isKnownSafe')
+      ],
+      confidence: 1.0,
+      gptSummary: '✅ Trusted domain - No analysis needed. This is a renowned, safe website.'
+    };
+    return { verdict, trusted: true, finished: true };
+  }
+});
+
+// External reputation services (trusted sites are not sent to them)
+const externalStage = stage({
+  name: 'external',
+  reads: [],
+  async run(state) {
+    if (isTrustedDomain(state.link.targetDomain)) {
+      return { externalResult: { safe: true, confidence: 1.0, sources: [], threatCount: 0, findings: [] } };
     }
-    
-    // Combine heuristics and external checks for non-trusted domains
-    let trustScore = calculateTrustScore(heuristics, externalResult);
-    let category = categorizeTrust(trustScore);
-    
-    // Merge issues from external checks
-    const allIssues = [...heuristics.issues];
-    if (externalResult.threatCount > 0) {
-      allIssues.push(`external_threats: ${externalResult.threatCount} service(s) flagged this URL`);
+    try {
+      return { externalResult: await checkExternalServices(state.link) };
+    } catch (err) {
+      console.error(`External check failed for ${state.link.href}:`, err);
+      return { externalResult: { safe: true, confidence: 0.5, sources: [], threatCount: 0, findings: [] } };
     }
-    externalResult.sources.forEach(source => {
-      if (!source.safe && source.details) {
-        allIssues.push(`${source.source.toLowerCase()}: ${source.details}`);
-      }
+  }
+});
+
+// Redirect chains of shortener and tracking links
+const redirectStage = stage({
+  name: 'redirects',
+  reads: [],
+  skip: state => (isTrustedDomain(state.link.targetDomain) ? 'trusted' : false),
+  async run(state) {
+    return { redirectAnalysis: await analyzeRedirects(state.link) };
+  }
+});
+
+// What stored scans say about the sites of the link and of its redirect hops and embedded
+// targets (the starting points of their scores). Sites are taken from the URLs, never from
+// the targetDomain the client sent.
+const reputationStage = stage({
+  name: 'reputation',
+  reads: ['embeddedTargets'],
+  async runBatch(states) {
+    const hosts = states.flatMap(state => [
+      toHopLink(state.normalizedUrl).targetDomain,
+      ...[...(state.redirectAnalysis?.hops || []), ...state.embeddedTargets].map(target => toHopLink(target.url).targetDomain)
+    ]);
+    const counts = await getReputationCounts(hosts).catch(err => {
+      console.error('[Reputation] Failed to load domain reputation:', err);
+      return new Map<string, ReputationCounts>();
     });
-    
-    verdict = {
+    return states.map(() => ({ reputation: counts }));
+  }
+});
+
+// Combine the signals into the initial verdict (balanced, see AnalysisContext.profile)
+const scoreStage = stage({
+  name: 'score',
+  reads: ['heuristics', 'externalResult', 'embeddedTargets'],
+  async run(state) {
+    const { link, heuristics, externalResult, embeddedTargets, redirectAnalysis = null, reputation = new Map() } = state;
+    const { trustScore, findings, breakdown, scoringInput } = scoreWithTargets(
+      link, heuristics, externalResult, redirectAnalysis, embeddedTargets, reputation, BALANCED_PROFILE
+    );
+    const verdict: TrustVerdict = {
       trustScore,
-      category,
-      issues: allIssues,
+      category: categorizeTrust(trustScore, BALANCED_PROFILE),
+      findings,
+      issues: findingsToIssues(findings),
+      redirectChain: redirectAnalysis?.chain.hops,
+      scoreBreakdown: breakdown,
       confidence: Math.max(0.7, externalResult.confidence)
     };
     
-    // Store initial analysis (return immediately)
-    analyses[originalIndex] = { link, verdict };
-    
-    // Speed optimization: Fast-check - skip AI for obviously dangerous/safe links
-    // If trust score is very low (< 0.2) and external checks confirm danger, skip AI
-    const isObviouslyDangerous = trustScore < 0.2 && externalResult.threatCount > 0;
-    // More aggressive safe detection: if trust score is high (> 0.8) and no issues, skip AI
-    const isObviouslySafe = (trustScore > 0.8 && allIssues.length === 0) || 
-                           (trustScore > 0.85 && externalResult.safe && externalResult.confidence > 0.8);
-    
-    // Queue for AI analysis (skip obviously dangerous/safe links for speed)
-    const allowAIWithoutAuth = process.env.ALLOW_AI_WITHOUT_AUTH === 'true';
-    const shouldRunAI = (userId || allowAIWithoutAuth) && !isObviouslyDangerous && !isObviouslySafe;
-    
-    if (shouldRunAI) {
-      // Check if we've already seen this URL (deduplicate)
-      if (seenUrls.has(normalizedUrl)) {
-        // This is a duplicate - add to existing item's indices
-        const existingItem = urlToAnalysisItem.get(normalizedUrl);
-        if (existingItem) {
-          existingItem.originalIndices.push(originalIndex);
-        }
-      } else {
-        // First occurrence of this URL - add to queue
-        seenUrls.add(normalizedUrl);
-        const queueItem = {
-          link,
-          heuristics,
-          externalResult,
-          trustScore,
-          category,
-          verdict,
-          originalIndices: [originalIndex]
-        };
-        urlToAnalysisItem.set(normalizedUrl, queueItem);
-        aiAnalysisQueue.push(queueItem);
-      }
-    } else if (isObviouslyDangerous) {
-      // Add a note that AI was skipped for speed
+    const triage = triageForAi(verdict, externalResult);
+    if (triage === 'dangerous') {
       verdict.gptSummary = '⚠️ High risk detected by security checks. AI analysis skipped for faster response.';
-    } else if (isObviouslySafe) {
-      // Add a note that link is clearly safe
+    } else if (triage === 'safe') {
       verdict.gptSummary = '✅ Link verified as safe by multiple security services.';
     }
+    return { verdict, scoringInput };
   }
-  
-  // Step 4: Process AI analysis sequentially (one at a time) in the background
-  // Sequential processing prevents weird/unfilterable responses from parallel requests
-  if (aiAnalysisQueue.length > 0) {
-    // Separate priority (clicked) link from others
-    const priorityIndex = priorityUrl 
-      ? aiAnalysisQueue.findIndex(item => normalizeUrl(item.link.href) === normalizeUrl(priorityUrl))
-      : -1;
+});
+
+// Queue AI analysis for links the security checks leave in doubt
+const queueStage = stage({
+  name: 'queue',
+  reads: ['verdict', 'heuristics', 'externalResult', 'scoringInput'],
+  skip: async (state, context) => {
+    const triage = triageForAi(state.verdict, state.externalResult);
+    if (triage) return `obviously ${triage}`;
+    if (!(await context.isAiAllowed())) return 'plan';
+    return (await isOllamaAvailable()) ? false : 'Ollama unavailable';
+  },
+  async run(state, context) {
+    const { link, normalizedUrl, heuristics, externalResult, scoringInput, verdict } = state;
+    const priority = isPriorityLink(state, context) ? context.priority : 'batch';
+    const job = await enqueueAiJob<AiJobPayload, AiJobResult>(normalizedUrl, priority, {
+      state: { link, normalizedUrl, heuristics, externalResult, scoringInput, verdict },
+      domain: context.domain,
+      userId: context.userId,
+      sourcePageContext: context.sourcePageContext
+    });
+    return { aiJobId: job.id };
+  }
+});
+
+// Wait up to `waitMs` for the link's AI job (run by the job worker, see analyzeAiJob); a job
+// still pending leaves the verdict as it is, with the job's status for the caller to follow up
+const aiJobStage = (waitMs: number) => stage({
+  name: 'ai-job',
+  reads: ['aiJobId', 'verdict'],
+  async run(state) {
+    const job = (await waitForAiJob<AiJobPayload, AiJobResult>(state.aiJobId, waitMs)) ||
+      (await getAiJob<AiJobPayload, AiJobResult>(state.aiJobId));
+    if (!job) return;
+    if (job.status === 'queued' || job.status === 'running') {
+      console.warn(`[AI] Job ${state.aiJobId} for ${state.link.href} still ${job.status} after ${waitMs / 1000}s`);
+      return { aiJobStatus: job.status };
+    }
+    if (job.status === 'done' && job.result) {
+      return { verdict: job.result.verdict, ollamaResult: job.result.ollamaResult, aiJobStatus: job.status };
+    }
+    // Continue with the heuristic/external check results
+    const verdict = state.verdict.gptSummary
+      ? state.verdict
+      : { ...state.verdict, gptSummary: 'AI analysis temporarily unavailable. Heuristic and external security checks are still active.' };
+    return { verdict, aiJobStatus: job.status };
+  }
+});
+
+// Ollama analysis of the link in its page context. Runs in the AI job worker, which
+// bounds how many analyses Ollama gets at once; failures are retried by the queue.
+const aiStage = stage({
+  name: 'ai',
+  reads: ['verdict', 'heuristics'],
+  async run(state, context) {
+    const { link, heuristics, verdict } = state;
+    // Extract source domain for better context
+    const sourceDomain = context.domain || context.sourcePageContext.match(/Page Domain:\s*([^\n]+)/i)?.[1]?.trim();
     
-    const priorityItem = priorityIndex >= 0 ? aiAnalysisQueue.splice(priorityIndex, 1)[0] : null;
-    const regularItems = aiAnalysisQueue;
+    const ollamaResult = await analyzeSuspiciousLink(
+      link,
+      context.sourcePageContext || link.contextSnippet || '',
+      heuristics,
+      verdict.trustScore,
+      sourceDomain
+    );
+    if (!ollamaResult) {
+      throw new Error('Ollama returned no analysis');
+    }
     
-    // Process AI analysis sequentially in background (fire and forget, but with callbacks for updates)
-    (async () => {
-      // Process priority link first (if exists)
-      if (priorityItem) {
-        console.log(`[AI] Processing priority link: ${priorityItem.link.href}`);
-        await processAIAnalysis(priorityItem, userId || undefined, sourcePageContext || '', domain);
-        // Update all analyses that map to this URL (handle duplicates)
-        const updatedAnalysis: LinkAnalysis = {
-          link: priorityItem.link,
-          verdict: priorityItem.verdict
-        };
-        for (const idx of priorityItem.originalIndices) {
-          analyses[idx] = updatedAnalysis;
-          if (onUpdate) {
-            onUpdate(updatedAnalysis, idx);
-          }
-        }
-      }
-      
-      // Process remaining links sequentially (one at a time) to avoid response issues
-      for (let i = 0; i < regularItems.length; i++) {
-        const item = regularItems[i];
-        console.log(`[AI] Processing link ${i + 1}/${regularItems.length}: ${item.link.href} (${item.originalIndices.length} occurrence(s))`);
-        
-        try {
-          await processAIAnalysis(item, userId || undefined, sourcePageContext || '', domain);
-          // Update all analyses that map to this URL (handle duplicates)
-          const updatedAnalysis: LinkAnalysis = {
-            link: item.link,
-            verdict: item.verdict
-          };
-          for (const idx of item.originalIndices) {
-            analyses[idx] = updatedAnalysis;
-            if (onUpdate) {
-              onUpdate(updatedAnalysis, idx);
-            }
-          }
-        } catch (err) {
-          console.error(`[AI] Error processing link ${item.link.href}:`, err);
-          // Continue with next link even if one fails
-        }
-      }
-    })().catch(err => {
-      console.error('[AI] Background AI processing error:', err);
+    const aiVerdict = applyAiAnalysis(verdict, ollamaResult, BALANCED_PROFILE);
+    console.log(`[AI] ${link.href}: ${aiVerdict.category} (score: ${aiVerdict.trustScore.toFixed(2)})`);
+    return { verdict: aiVerdict, ollamaResult };
+  }
+});
+
+// OpenAI summary for SAFE links the other stages left without one
+const gptStage = stage({
+  name: 'gpt',
+  reads: ['verdict', 'heuristics', 'externalResult'],
+  skip: async (state, context) => {
+    if (state.aiJobId) return 'AI job';
+    if (state.verdict.category !== 'SAFE') return 'not SAFE';
+    if (state.verdict.gptSummary) return 'has summary';
+    return (await context.isAiAllowed()) ? false : 'plan';
+  },
+  async run(state) {
+    const { link, heuristics, externalResult, verdict } = state;
+    const gptResult = await getGptAnalysis(link, heuristics, verdict.trustScore, externalResult);
+    if (!gptResult) return;
+    
+    const gptVerdict: TrustVerdict = {
+      ...verdict,
+      gptSummary: gptResult.summary,
+      recommendation: gptResult.recommendation,
+      riskTags: gptResult.concise_risk_tags,
+      confidence: gptResult.confidence || verdict.confidence
+    };
+    addVerdictFindings(gptVerdict, getGptFindings(gptResult));
+    return { verdict: gptVerdict };
+  }
+});
+
+// Store the verdict in the global cache (not awaited)
+const storeStage = stage({
+  name: 'store',
+  reads: ['verdict', 'scoringInput'],
+  async run(state, context) {
+    storeScanResult(state.link, state.verdict, state.scoringInput, state.externalResult, state.ollamaResult, context.domain).catch(err => {
+      console.error(`[DB] Failed to store scan result for ${state.link.href}:`, err);
     });
   }
+});
+
+function inBackground(pipelineStage: PipelineStage<LinkState, AnalysisContext>): PipelineStage<LinkState, AnalysisContext> {
+  return { ...pipelineStage, background: true };
+}
+
+const signalStages = [heuristicsStage, embeddedStage, trustedStage, externalStage, redirectStage, reputationStage, scoreStage];
+
+function isPriorityLink(state: LinkState, context: AnalysisContext): boolean {
+  return context.priorityUrl !== undefined && state.normalizedUrl === normalizeUrl(context.priorityUrl);
+}
+
+const pipelineDefaults = {
+  isDone: (state: LinkState) => state.finished === true,
+  isPriority: isPriorityLink
+};
+
+// /api/analyze: everything, AI included, before responding
+const ANALYZE_PIPELINE: PipelineConfig<LinkState, AnalysisContext> = {
+  name: 'analyze',
+  stages: [...signalStages, queueStage, aiJobStage(ANALYZE_AI_JOB_WAIT_MS), gptStage, storeStage],
+  ...pipelineDefaults
+};
+
+// /api/ai-analyze: cached verdicts and the initial verdicts first, AI (clicked link first) afterwards
+const AI_ANALYZE_PIPELINE: PipelineConfig<LinkState, AnalysisContext> = {
+  name: 'ai-analyze',
+  stages: [cacheStage, ...signalStages, queueStage, inBackground(aiJobStage(AI_JOB_WAIT_MS)), inBackground(gptStage), inBackground(storeStage)],
+  ...pipelineDefaults
+};
+
+// Re-scan of a stale cached link: the initial verdict is stored, AI runs in its job
+const REVALIDATE_PIPELINE: PipelineConfig<LinkState, AnalysisContext> = {
+  name: 'revalidate',
+  stages: [...signalStages, queueStage, gptStage, storeStage],
+  ...pipelineDefaults
+};
+
+// Pipelines answering a user's request: their links go to the user's history
+const HISTORY_PIPELINES = new Set([ANALYZE_PIPELINE, AI_ANALYZE_PIPELINE]);
+
+// One AI job: the analysis, then storing the verdict (a failed analysis is retried by the queue)
+const AI_JOB_PIPELINE: PipelineConfig<LinkState, AnalysisContext> = {
+  name: 'ai-job',
+  stages: [aiStage, storeStage]
+};
+
+// What an AI job needs to resume the pipeline where the request left it
+type AiJobPayload = {
+  state: Pick<LinkState, 'link' | 'normalizedUrl' | 'heuristics' | 'externalResult' | 'scoringInput' | 'verdict'>;
+  domain: string;
+  userId?: string;
+  sourcePageContext: string;
+};
+
+type AiJobResult = {
+  verdict: TrustVerdict;
+  ollamaResult?: OllamaAnalysisResult;
+};
+
+/**
+ * Run a queued AI job (the handler of the job worker). Jobs are shared by every request
+ * for the URL, so the result is scored with the balanced profile; each waiter's profile
+ * is applied when they read it (aiJobStage, getAiJobStatus).
+ */
+export async function analyzeAiJob(job: AiJob<AiJobPayload, AiJobResult>): Promise<AiJobResult> {
+  const { state: saved, domain, userId, sourcePageContext } = job.payload;
+  const state: LinkState = { ...saved, indices: [] };
+  const context: AnalysisContext = {
+    domain,
+    userId,
+    sourcePageContext,
+    priority: job.priority,
+    profile: BALANCED_PROFILE,
+    isAiAllowed: createAiCheck(userId)
+  };
   
-  // Fill in any gaps (for links that were filtered out or had errors)
-  for (let i = 0; i < links.length; i++) {
-    if (!analyses[i]) {
-      // If link was filtered out due to extension marker, return a safe default
-      if (hasExtensionMarker(links[i].text)) {
-        analyses[i] = {
-          link: links[i],
-          verdict: {
-            trustScore: 0.5,
-            category: 'SAFE',
-            issues: [],
-            confidence: 0.5,
-            gptSummary: 'Link already processed by extension'
-          }
-        };
-      } else {
-        // Error case - create basic analysis
-        const link = links[i];
-        const heuristics = calculateHeuristics(link);
-        const trustScore = calculateTrustScore(heuristics);
-        analyses[i] = {
-          link,
-          verdict: {
-            trustScore,
-            category: categorizeTrust(trustScore),
-            issues: heuristics.issues,
-            confidence: 0.5
-          }
-        };
-      }
-    }
+  const reports = await runPipeline(AI_JOB_PIPELINE, [state], context);
+  const failed = reports.find(report => report.failed > 0);
+  if (failed) {
+    throw new Error(failed.error || `${failed.stage} failed`);
   }
-  
-  // Return initial results immediately (before AI processing completes)
-  return analyses;
+  return { verdict: state.verdict!, ollamaResult: state.ollamaResult };
 }
 
 /**
- * Process AI analysis for a single link
+ * A queued AI job as shown to a user: its status and, once done, the analysis with the user's
+ * profile and lists applied
  */
-async function processAIAnalysis(
-  item: {
-    link: LinkMeta;
-    heuristics: ReturnType<typeof calculateHeuristics>;
-    externalResult: AggregatedCheckResult;
-    trustScore: number;
-    category: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
-    verdict: TrustVerdict;
-    originalIndices?: number[]; // All indices that map to this URL (for deduplication)
-    originalIndex?: number; // Keep for backward compatibility
-  },
-  userId: string | undefined,
-  sourcePageContext: string,
-  domain: string
-): Promise<void> {
-  const { link, heuristics, externalResult, verdict } = item;
-  let { trustScore, category } = item;
+export async function getAiJobStatus(id: string, userId?: string) {
+  const job = await getAiJob<AiJobPayload, AiJobResult>(id);
+  if (!job) return null;
   
-  // Preserve original URL to prevent mutation issues
-  const originalLinkUrl = link.href;
+  let analysis: LinkAnalysis | null = null;
+  if (job.result) {
+    const { verdict, ollamaResult } = job.result;
+    const profile = await getScoringProfile(userId);
+    const scored = scoreForProfile(verdict, job.payload.state.scoringInput, ollamaResult, profile);
+    analysis = applyDomainList({ link: job.payload.state.link, verdict: scored }, userId);
+  }
+  return {
+    id: job.id,
+    url: job.url,
+    status: job.status,
+    priority: job.priority,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    analysis
+  };
+}
+
+/**
+ * Links that need no AI opinion: clearly malicious per external services, or clean and high scoring
+ */
+function triageForAi(verdict: TrustVerdict, externalResult: AggregatedCheckResult): 'dangerous' | 'safe' | null {
+  if (verdict.trustScore < 0.2 && externalResult.threatCount > 0) {
+    return 'dangerous';
+  }
+  if ((verdict.trustScore > 0.8 && !verdict.findings?.length) ||
+      (verdict.trustScore > 0.85 && externalResult.safe && externalResult.confidence > 0.8)) {
+    return 'safe';
+  }
+  return null;
+}
+
+/**
+ * A copy of the verdict with the AI analysis applied: score, summary, recommendation and findings
+ */
+function applyAiAnalysis(verdict: TrustVerdict, ollamaResult: OllamaAnalysisResult, profile: ScoringProfile): TrustVerdict {
+  const aiVerdict: TrustVerdict = { ...verdict };
+  applyAiScore(aiVerdict, ollamaResult, profile);
   
-  // Check user plan if needed
-  const allowAIWithoutAuth = process.env.ALLOW_AI_WITHOUT_AUTH === 'true';
-  if (userId && !allowAIWithoutAuth) {
-    const user = await getUserPlan(userId);
-    if (!user || (user.plan !== 'premium' && user.plan !== 'trial')) {
-      return; // Skip AI analysis
-    }
+  const summaryParts: string[] = [];
+  if (ollamaResult.contentRelevance) {
+    summaryParts.push(`📄 Content Relevance: ${ollamaResult.contentRelevance}`);
+  }
+  if (ollamaResult.clickBehavior) {
+    summaryParts.push(`🖱️ Click Behavior: ${ollamaResult.clickBehavior}`);
+  }
+  if (ollamaResult.reasoning) {
+    summaryParts.push(`💭 Reasoning: ${ollamaResult.reasoning}`);
+  }
+  if (ollamaResult.followRecommendation) {
+    const recText = ollamaResult.followRecommendation === 'SAFE_TO_FOLLOW' ? '✅ Safe to Follow' :
+                   ollamaResult.followRecommendation === 'AVOID' ? '❌ Avoid' :
+                   '⚠️ Proceed with Caution';
+    summaryParts.push(`\n${recText}`);
   }
   
-  try {
-    // Extract source domain for better context
-    const sourceDomainForAnalysis = domain || (sourcePageContext ? 
-      sourcePageContext.match(/Page Domain:\s*([^\n]+)/i)?.[1]?.trim() : undefined);
-    
-    const ollamaResult = await analyzeSuspiciousLink(
-      link,
-      sourcePageContext || link.contextSnippet || '',
-      heuristics,
-      trustScore,
-      sourceDomainForAnalysis
-    );
-    
-    if (ollamaResult) {
-      const aiTrustScore = ollamaResult.safetyRating / 100;
-      
-      // Update trust score and category based on AI recommendation
-      if (ollamaResult.followRecommendation === 'SAFE_TO_FOLLOW') {
-        trustScore = Math.max(0.7, Math.min(1.0, aiTrustScore));
-        category = 'SAFE';
-      } else if (ollamaResult.followRecommendation === 'AVOID') {
-        trustScore = Math.min(0.3, Math.max(0, aiTrustScore));
-        category = 'DANGEROUS';
-      } else if (ollamaResult.followRecommendation === 'CAUTION_ADVISED') {
-        trustScore = Math.max(0.4, Math.min(0.69, aiTrustScore));
-        category = 'SUSPICIOUS';
+  aiVerdict.gptSummary = summaryParts.join('\n\n');
+  aiVerdict.recommendation = ollamaResult.followRecommendation;
+  aiVerdict.riskTags = [
+    ollamaResult.followRecommendation === 'AVOID' ? 'high_risk' : 
+    ollamaResult.followRecommendation === 'CAUTION_ADVISED' ? 'moderate_risk' : 'low_risk'
+  ];
+  aiVerdict.confidence = 0.85; // High confidence for AI analysis
+  addVerdictFindings(aiVerdict, getOllamaFindings(ollamaResult));
+  return aiVerdict;
+}
+
+/**
+ * AI runs for premium and trial users, or for everyone when ALLOW_AI_WITHOUT_AUTH is set (testing)
+ */
+function createAiCheck(userId?: string): () => Promise<boolean> {
+  let allowed: Promise<boolean> | null = null;
+  return () => {
+    if (!allowed) {
+      if (process.env.ALLOW_AI_WITHOUT_AUTH === 'true') {
+        allowed = Promise.resolve(true);
+      } else if (!userId) {
+        allowed = Promise.resolve(false);
       } else {
-        trustScore = aiTrustScore * 0.6 + trustScore * 0.4;
-        category = categorizeTrust(trustScore);
-      }
-      
-      // Update verdict
-      verdict.trustScore = trustScore;
-      verdict.category = category;
-      
-      console.log(`[AI] ${link.href}: ${category} (score: ${trustScore.toFixed(2)})`);
-      
-      // Format AI summary
-      const aiSummaryParts: string[] = [];
-      if (ollamaResult.contentRelevance) {
-        aiSummaryParts.push(`📄 Content Relevance: ${ollamaResult.contentRelevance}`);
-      }
-      if (ollamaResult.clickBehavior) {
-        aiSummaryParts.push(`🖱️ Click Behavior: ${ollamaResult.clickBehavior}`);
-      }
-      if (ollamaResult.reasoning) {
-        aiSummaryParts.push(`💭 Reasoning: ${ollamaResult.reasoning}`);
-      }
-      if (ollamaResult.followRecommendation) {
-        const recText = ollamaResult.followRecommendation === 'SAFE_TO_FOLLOW' ? '✅ Safe to Follow' :
-                       ollamaResult.followRecommendation === 'AVOID' ? '❌ Avoid' :
-                       '⚠️ Proceed with Caution';
-        aiSummaryParts.push(`\n${recText}`);
+        allowed = getUserPlan(userId)
+          .then(user => user !== null && (user.plan === 'premium' || user.plan === 'trial'))
+          .catch(err => {
+            console.error(`[AI] Could not check the plan of user ${userId}:`, err);
+            return false;
+          });
       }
-      
-      verdict.gptSummary = aiSummaryParts.join('\n\n');
-      verdict.recommendation = ollamaResult.followRecommendation;
-      verdict.riskTags = [
-        ollamaResult.followRecommendation === 'AVOID' ? 'high_risk' : 
-        ollamaResult.followRecommendation === 'CAUTION_ADVISED' ? 'moderate_risk' : 'low_risk'
-      ];
-      verdict.confidence = 0.85;
-      
-      // Store in database - ensure we use the original URL
-      const linkForStorage: LinkMeta = {
-        ...link,
-        href: originalLinkUrl
-      };
-      storeScanResult(userId || null, linkForStorage, verdict, externalResult, ollamaResult).catch(console.error);
-    }
-  } catch (err: any) {
-    // Log error but don't throw - continue with heuristic/external check results
-    console.warn(`[AI] Analysis failed for ${link.href}: ${err.message || err}. Continuing with heuristic/external check results.`);
-    // Optionally add a note to the verdict that AI analysis was unavailable
-    if (!verdict.gptSummary) {
-      verdict.gptSummary = 'AI analysis temporarily unavailable. Heuristic and external security checks are still active.';
     }
+    return allowed;
+  };
+}
+
+/**
+ * The analysis of a link after the pipeline, scored with the caller's profile: its verdict,
+ * or the heuristics alone if a stage failed
+ */
+function toAnalysis(state: LinkState, profile: ScoringProfile): LinkAnalysis {
+  if (state.verdict) {
+    const verdict = scoreForProfile(state.verdict, state.scoringInput, state.ollamaResult, profile);
+    return {
+      link: state.link,
+      verdict,
+      ...(state.aiJobId ? { aiJobId: state.aiJobId } : {}),
+      ...(state.aiJobStatus ? { aiJobStatus: state.aiJobStatus } : {})
+    };
   }
+  const heuristics = state.heuristics || calculateHeuristics(state.link);
+  const { trustScore, breakdown } = calculateTrustScore(heuristics.findings, heuristics.flags, undefined, profile);
+  return {
+    link: state.link,
+    verdict: {
+      trustScore,
+      category: categorizeTrust(trustScore, profile),
+      findings: heuristics.findings,
+      issues: heuristics.issues,
+      scoreBreakdown: breakdown,
+      confidence: 0.5
+    }
+  };
 }
 
-export async function analyzeLinks(
+/**
+ * Run an analysis pipeline over the links of a request. Links already marked by the
+ * extension are left out; identical links are analyzed once.
+ */
+async function runAnalysis(
+  config: PipelineConfig<LinkState, AnalysisContext>,
   links: LinkMeta[],
   domain: string,
   userId?: string,
-  sourcePageContext?: string
+  sourcePageContext?: string,
+  priorityUrl?: string,
+  priority: AiJobPriority = 'click',
+  onUpdate?: (analysis: LinkAnalysis, index: number) => void,
+  onDone?: () => void
 ): Promise<LinkAnalysis[]> {
-  const analyses: LinkAnalysis[] = [];
+  const analyses: LinkAnalysis[] = new Array(links.length);
+  const states = new Map<string, LinkState>();
   
-  // Step 1: Calculate heuristics for all links first
-  const heuristicsResults = links.map(link => ({
-    link,
-    heuristics: calculateHeuristics(link)
-  }));
-  
-  // Step 2: Check all links with external services in parallel
-  const externalCheckResults = await Promise.all(
-    heuristicsResults.map(async ({ link }) => {
-      try {
-        return await checkExternalServices(link);
-      } catch (err) {
-        console.error(`External check failed for ${link.href}:`, err);
-        return {
-          safe: true,
+  links.forEach((link, index) => {
+    if (hasExtensionMarker(link.text)) {
+      console.log(`[Analyze] Skipping link with extension marker: ${link.href}`);
+      analyses[index] = {
+        link,
+        verdict: {
+          trustScore: 0.5,
+          category: 'SAFE',
+          findings: [],
+          issues: [],
           confidence: 0.5,
-          sources: [],
-          threatCount: 0
-        } as AggregatedCheckResult;
-      }
-    })
-  );
-  
-  // Step 3: Combine heuristics + external checks, determine which links need AI analysis
-  for (let i = 0; i < links.length; i++) {
-    const link = links[i];
-    const heuristics = heuristicsResults[i].heuristics;
-    const externalResult = externalCheckResults[i];
-    
-    // Combine heuristics and external checks
-    let trustScore = calculateTrustScore(heuristics, externalResult);
-    let category = categorizeTrust(trustScore);
-    
-    // Merge issues from external checks
-    const allIssues = [...heuristics.issues];
-    if (externalResult.threatCount > 0) {
-      allIssues.push(`external_threats: ${externalResult.threatCount} service(s) flagged this URL`);
-    }
-    externalResult.sources.forEach(source => {
-      if (!source.safe && source.details) {
-        allIssues.push(`${source.source.toLowerCase()}: ${source.details}`);
-      }
-    });
-    
-    let verdict: TrustVerdict = {
-      trustScore,
-      category,
-      issues: allIssues,
-      confidence: Math.max(0.7, externalResult.confidence)
-    };
-    
-    // Step 4: Streamlined Ollama AI analysis for SUSPICIOUS or DANGEROUS links only
-    // This happens BEFORE the general GPT analysis
-    // Also run for links that are close to suspicious threshold (trustScore < 0.5)
-    // For testing: allow AI analysis without userId if explicitly enabled via env var
-    const allowAIWithoutAuth = process.env.ALLOW_AI_WITHOUT_AUTH === 'true';
-    const shouldRunAI = (category === 'SUSPICIOUS' || category === 'DANGEROUS' || trustScore < 0.5) && (userId || allowAIWithoutAuth);
-    
-    // Declare ollamaResult outside the if block so it's accessible later
-    let ollamaResult: OllamaAnalysisResult | null = null;
-    
-    if (shouldRunAI) {
-      // If no userId but AI is allowed without auth, proceed
-      if (!userId && allowAIWithoutAuth) {
-        console.log(`[AI] Running AI analysis without auth (testing mode) for ${link.href}`);
-        // Skip user plan check, proceed directly to AI analysis
-      } else {
-        const user = await getUserPlan(userId!);
-        console.log(`[AI] Checking user plan for link ${link.href}: user=${userId}, plan=${user?.plan}, category=${category}, trustScore=${trustScore.toFixed(2)}`);
-        
-        if (!user || (user.plan !== 'premium' && user.plan !== 'trial')) {
-          console.log(`[AI] Skipping AI analysis: user plan=${user?.plan}, required=premium/trial`);
-          // Continue to next link
-          analyses.push({
-            link,
-            verdict
-          });
-          continue;
-        }
-        console.log(`[AI] User plan check passed, proceeding with Ollama analysis...`);
-      }
-      
-      // Run AI analysis (either with auth or in testing mode)
-      try {
-        console.log(`[AI] Starting Ollama analysis for ${link.href} (${category})`);
-        // Extract source domain for better context
-        const sourceDomainForAnalysis = domain || (sourcePageContext ? 
-          sourcePageContext.match(/Page Domain:\s*([^\n]+)/i)?.[1]?.trim() : undefined);
-        
-        ollamaResult = await analyzeSuspiciousLink(
-          link,
-          sourcePageContext || link.contextSnippet || '',
-          heuristics,
-          trustScore,
-          sourceDomainForAnalysis
-        );
-        
-        console.log(`[AI] Ollama result for ${link.href}:`, ollamaResult ? 'SUCCESS' : 'NULL');
-        
-        if (ollamaResult) {
-            console.log(`[AI] Processing Ollama result: safetyRating=${ollamaResult.safetyRating}, recommendation=${ollamaResult.followRecommendation}`);
-            // Use AI safety rating to adjust trust score (convert 0-100 to 0-1)
-            const aiTrustScore = ollamaResult.safetyRating / 100;
-            
-            // Update trust score and category based on AI recommendation FIRST
-            if (ollamaResult.followRecommendation === 'SAFE_TO_FOLLOW') {
-              // AI says it's safe - upgrade category to SAFE and use AI rating (minimum 0.7 for SAFE)
-              trustScore = Math.max(0.7, Math.min(1.0, aiTrustScore));
-              category = 'SAFE';
-              console.log(`[AI] Upgraded to SAFE based on AI recommendation: ${link.href}`);
-            } else if (ollamaResult.followRecommendation === 'AVOID') {
-              // AI says avoid - downgrade to DANGEROUS and use AI rating (maximum 0.3 for DANGEROUS)
-              trustScore = Math.min(0.3, Math.max(0, aiTrustScore));
-              category = 'DANGEROUS';
-              console.log(`[AI] Downgraded to DANGEROUS based on AI recommendation: ${link.href}`);
-            } else if (ollamaResult.followRecommendation === 'CAUTION_ADVISED') {
-              // AI says caution - keep SUSPICIOUS, adjust trust score based on AI rating
-              trustScore = Math.max(0.4, Math.min(0.69, aiTrustScore)); // Keep in SUSPICIOUS range (0.4-0.69)
-              category = 'SUSPICIOUS';
-              console.log(`[AI] Kept as SUSPICIOUS based on AI recommendation: ${link.href}`);
-            } else {
-              // Fallback: blend AI rating with existing score if recommendation is unclear
-              trustScore = aiTrustScore * 0.6 + trustScore * 0.4;
-              category = categorizeTrust(trustScore);
-            }
-            
-            // Update verdict with AI analysis
-            verdict.trustScore = trustScore;
-            verdict.category = category;
-            
-            // Format AI summary with all relevant information (in English)
-            const aiSummaryParts: string[] = [];
-            if (ollamaResult.contentRelevance) {
-              aiSummaryParts.push(`📄 Content Relevance: ${ollamaResult.contentRelevance}`);
-            }
-            if (ollamaResult.clickBehavior) {
-              aiSummaryParts.push(`🖱️ Click Behavior: ${ollamaResult.clickBehavior}`);
-            }
-            if (ollamaResult.reasoning) {
-              aiSummaryParts.push(`💭 Reasoning: ${ollamaResult.reasoning}`);
-            }
-            if (ollamaResult.followRecommendation) {
-              const recText = ollamaResult.followRecommendation === 'SAFE_TO_FOLLOW' ? '✅ Safe to Follow' :
-                             ollamaResult.followRecommendation === 'AVOID' ? '❌ Avoid' :
-                             '⚠️ Proceed with Caution';
-              aiSummaryParts.push(`\n${recText}`);
-            }
-            
-            verdict.gptSummary = aiSummaryParts.join('\n\n');
-            verdict.recommendation = ollamaResult.followRecommendation;
-            verdict.riskTags = [
-              ollamaResult.followRecommendation === 'AVOID' ? 'high_risk' : 
-              ollamaResult.followRecommendation === 'CAUTION_ADVISED' ? 'moderate_risk' : 'low_risk'
-            ];
-            verdict.confidence = 0.85; // High confidence for AI analysis
-            
-            // Add click behavior to issues (but don't duplicate in summary)
-            if (ollamaResult.clickBehavior && !ollamaResult.clickBehavior.includes('Unknown')) {
-              allIssues.push(`AI: ${ollamaResult.clickBehavior}`);
-            }
-            verdict.issues = allIssues;
-            
-            console.log(`[AI] Final verdict for ${link.href}: gptSummary=${verdict.gptSummary ? 'SET' : 'MISSING'}, trustScore=${verdict.trustScore}`);
-          } else {
-            console.warn(`[AI] Ollama returned null for ${link.href} - AI analysis unavailable`);
-          }
-        } catch (err) {
-          console.error(`[AI] Ollama analysis failed for ${link.href}:`, err);
-          // Continue with regular analysis
+          gptSummary: 'Link already processed by extension'
         }
+      };
+      return;
+    }
+    const normalizedUrl = normalizeUrl(link.href);
+    const key = `${normalizedUrl}\n${link.text}`;
+    const existing = states.get(key);
+    if (existing) {
+      existing.indices.push(index);
     } else {
-      if (!userId && !allowAIWithoutAuth) {
-        console.log(`[AI] Skipping AI analysis: no userId for ${link.href} (set ALLOW_AI_WITHOUT_AUTH=true to enable testing)`);
-      } else if (category === 'SAFE' && trustScore >= 0.5) {
-        console.log(`[AI] Skipping AI analysis: link is SAFE (${link.href}, score=${trustScore.toFixed(2)})`);
-      }
+      states.set(key, { link, normalizedUrl, indices: [index] });
     }
-    
-    // Step 5: General GPT analysis (fallback or for SAFE links, if OpenAI is configured)
-    if (userId && category === 'SAFE' && !verdict.gptSummary) {
-      const user = await getUserPlan(userId);
-      if (user && (user.plan === 'premium' || user.plan === 'trial')) {
-        try {
-          const gptResult = await getGptAnalysis(link, heuristics, trustScore, externalResult);
-          if (gptResult) {
-            verdict.gptSummary = gptResult.summary;
-            verdict.recommendation = gptResult.recommendation;
-            verdict.riskTags = gptResult.concise_risk_tags;
-            verdict.confidence = gptResult.confidence || verdict.confidence;
-          }
-        } catch (err) {
-          console.error('GPT analysis failed:', err);
+  });
+  
+  const context: AnalysisContext = {
+    domain,
+    userId,
+    sourcePageContext: sourcePageContext || '',
+    priorityUrl,
+    priority,
+    profile: await getScoringProfile(userId),
+    isAiAllowed: createAiCheck(userId)
+  };
+  
+  if (states.size > 0) {
+    await runPipeline(config, [...states.values()], context, {
+      onUpdate: state => {
+        if (!onUpdate) return;
+        const analysis = applyDomainList(toAnalysis(state, context.profile), userId);
+        state.indices.forEach(index => onUpdate(analysis, index));
+      },
+      onDone: () => {
+        onDone?.();
+        if (userId && HISTORY_PIPELINES.has(config)) {
+          recordHistory(userId, [...states.values()], context).catch(err => {
+            console.error(`[History] Failed to record the scans of user ${userId}:`, err);
+          });
         }
       }
-    }
-    
-    analyses.push({
-      link,
-      verdict
-    });
-    
-    // Store scan result in database (async, don't wait) - store for all users and anonymous
-    storeScanResult(userId || null, link, verdict, externalResult, ollamaResult).catch(err => {
-      console.error(`[DB] Failed to store scan result for ${link.href}:`, err);
     });
+  } else {
+    onDone?.();
   }
   
-  // Fill in any gaps in analyses array (shouldn't happen, but safety check)
-  for (let i = 0; i < links.length; i++) {
-    if (!analyses[i]) {
-      // If link was filtered out due to extension marker, return a safe default
-      if (hasExtensionMarker(links[i].text)) {
-        analyses[i] = {
-          link: links[i],
-          verdict: {
-            trustScore: 0.5,
-            category: 'SAFE',
-            issues: [],
-            confidence: 0.5,
-            gptSummary: 'Link already processed by extension'
-          }
-        };
-      } else {
-        // Error case - create basic analysis
-        const link = links[i];
-        const heuristics = calculateHeuristics(link);
-        const trustScore = calculateTrustScore(heuristics);
-        analyses[i] = {
-          link,
-          verdict: {
-            trustScore,
-            category: categorizeTrust(trustScore),
-            issues: heuristics.issues,
-            confidence: 0.5
-          }
-        };
-      }
+  for (const state of states.values()) {
+    const analysis = toAnalysis(state, context.profile);
+    state.indices.forEach(index => (analyses[index] = analysis));
+  }
+  return applyDomainLists(analyses, userId);
+}
+
+/**
+ * Add the links of a request to the user's history once their verdicts are stored. Links
+ * on trusted sites (no verdict is stored for them) and allow-listed links (the list, not
+ * a scan, decides their verdict) are left out.
+ */
+async function recordHistory(userId: string, states: LinkState[], context: AnalysisContext): Promise<void> {
+  const isAllowListed = (state: LinkState) => findDomainListEntry(state.link.targetDomain, userId)?.listType === 'allow';
+  const scanned = states.filter(state => state.verdict && !state.trusted && !isAllowListed(state));
+  await Promise.all(scanned.map(state => storageLocks.get(state.normalizedUrl)));
+  
+  const sourceUrl = context.sourcePageContext.match(/Page URL:\s*([^\n]+)/i)?.[1]?.trim();
+  const action = (state: LinkState): ScanAction =>
+    isPriorityLink(state, context) && context.priority !== 'batch' ? context.priority : 'scan';
+  await recordScanEvents(
+    userId,
+    { domain: context.domain, url: sourceUrl },
+    scanned.map(state => ({ url: state.normalizedUrl, action: action(state) }))
+  );
+}
+
+// Stale URLs being re-scanned, so concurrent requests start one scan
+const revalidating = new Set<string>();
+
+/**
+ * Scan a link whose cached verdict is stale again, without holding up the request
+ * that was served the stale verdict
+ */
+function revalidateCachedScan(link: LinkMeta, context: AnalysisContext): void {
+  const url = normalizeUrl(link.href);
+  if (revalidating.has(url)) return;
+  revalidating.add(url);
+  
+  runAnalysis(REVALIDATE_PIPELINE, [link], context.domain, context.userId, context.sourcePageContext)
+    .catch(err => console.error(`[Cache] Re-scan of ${url} failed:`, err))
+    .finally(() => revalidating.delete(url));
+}
+
+/**
+ * Analyze links with AI, prioritizing the clicked (or hovered, see `priority`) link. Returns
+ * cached and initial verdicts at once; AI analysis runs in queued jobs, each finished link
+ * is reported through `onUpdate` and `onDone` is called once the background work is over.
+ */
+export async function analyzeLinksWithAI(
+  links: LinkMeta[],
+  domain: string,
+  userId?: string,
+  sourcePageContext?: string,
+  priorityUrl?: string,
+  priority: AiJobPriority = 'click',
+  onUpdate?: (analysis: LinkAnalysis, index: number) => void,
+  onDone?: () => void
+): Promise<LinkAnalysis[]> {
+  return runAnalysis(AI_ANALYZE_PIPELINE, links, domain, userId, sourcePageContext, priorityUrl, priority, onUpdate, onDone);
+}
+
+/**
+ * Analyze links completely, AI included, before returning
+ */
+export async function analyzeLinks(
+  links: LinkMeta[],
+  domain: string,
+  userId?: string,
+  sourcePageContext?: string
+): Promise<LinkAnalysis[]> {
+  return runAnalysis(ANALYZE_PIPELINE, links, domain, userId, sourcePageContext);
+}
+
+/**
+ * Apply allow/deny list entries to an analysis. They are applied on top of cached and
+ * stored verdicts, so list changes take effect at once and one user's lists never
+ * change what others see.
+ */
+function applyDomainList(analysis: LinkAnalysis, userId?: string): LinkAnalysis {
+  const entry = findDomainListEntry(analysis.link.targetDomain, userId);
+  if (!entry) return analysis;
+
+  const list = `${entry.userId ? 'your' : 'the global'} ${entry.listType === 'allow' ? 'allowlist' : 'denylist'}`;
+  const evidence = `${entry.domain} is on ${list}${entry.reason ? `: ${entry.reason}` : ''}`;
+  const isAllowed = entry.listType === 'allow';
+  const finding = createFinding(isAllowed ? 'allowlisted_domain' : 'denylisted_domain', 'heuristics', evidence);
+  const findings = [...(analysis.verdict.findings || []).filter(f => f.code !== 'denylisted_domain'), finding];
+  const verdict: TrustVerdict = {
+    ...analysis.verdict,
+    category: isAllowed ? 'SAFE' : 'DANGEROUS',
+    findings,
+    issues: findingsToIssues(findings)
+  };
+  adjustVerdictScore(verdict, isAllowed ? 1.0 : 0, 'list', evidence);
+
+  return { ...analysis, verdict };
+}
+
+function applyDomainLists(analyses: LinkAnalysis[], userId?: string): LinkAnalysis[] {
+  return analyses.map(analysis => (analysis ? applyDomainList(analysis, userId) : analysis));
+}
+
+// A URL the link leads to besides its own href: a redirect hop or a URL embedded in its parameters
+type TargetAnalysis = {
+  url: string;
+  relation: 'redirect' | 'embedded';
+  findings: Finding[];
+  flags: Record<string, boolean>;
+  externalResult?: AggregatedCheckResult;
+};
+
+type RedirectAnalysis = {
+  chain: RedirectChain;
+  // Every hop after the original URL; only the final one is checked with external services
+  hops: TargetAnalysis[];
+};
+
+/**
+ * Resolve the redirect chain of a shortener or tracking link and analyze each hop
+ */
+async function analyzeRedirects(link: LinkMeta): Promise<RedirectAnalysis | null> {
+  if (!isRedirectWrapper(link.targetDomain)) {
+    return null;
+  }
+  
+  const chain = await resolveRedirectChain(link.href);
+  if (chain.error) {
+    console.warn(`[Redirect] ${link.href}: ${chain.error}`);
+  }
+  if (chain.hops.length < 2) {
+    return null;
+  }
+  
+  const hops: RedirectAnalysis['hops'] = chain.hops.slice(1).map(hop => {
+    const hopLink = toHopLink(hop.url);
+    // Link text belongs to the original link, so it is not re-checked on later hops
+    const heuristics = calculateHeuristics(hopLink);
+    return { url: hop.url, relation: 'redirect' as const, findings: heuristics.findings, flags: heuristics.flags };
+  });
+  
+  const finalHop = hops[hops.length - 1];
+  try {
+    finalHop.externalResult = await checkExternalServices(toHopLink(finalHop.url));
+    finalHop.findings = [...finalHop.findings, ...finalHop.externalResult.findings];
+  } catch (err) {
+    console.error(`[Redirect] External check failed for ${finalHop.url}:`, err);
+  }
+  
+  console.log(`[Redirect] ${link.href} -> ${chain.finalUrl} (${hops.length} hop(s))`);
+  return { chain, hops };
+}
+
+/**
+ * Analyze every URL embedded in a link's parameters that points to another site,
+ * each as a link of its own (open redirects like "google.com/url?q=https://evil.tld")
+ */
+async function analyzeEmbeddedTargets(link: LinkMeta): Promise<TargetAnalysis[]> {
+  let url: URL;
+  try {
+    url = new URL(link.href);
+  } catch {
+    return [];
+  }
+  
+  const ownDomain = getRegistrableDomain(url.hostname) || url.hostname;
+  const targets = extractEmbeddedUrls(url).filter(embedded => {
+    const host = new URL(embedded.url).hostname;
+    return (getRegistrableDomain(host) || host) !== ownDomain;
+  });
+  
+  return Promise.all(targets.map(async (embedded) => {
+    const targetLink = toHopLink(embedded.url);
+    const heuristics = calculateHeuristics(targetLink);
+    const target: TargetAnalysis = {
+      url: embedded.url,
+      relation: 'embedded',
+      findings: heuristics.findings,
+      flags: heuristics.flags
+    };
+    try {
+      target.externalResult = await checkExternalServices(targetLink);
+      target.findings = [...target.findings, ...target.externalResult.findings];
+    } catch (err) {
+      console.error(`[Embedded] External check failed for ${embedded.url}:`, err);
     }
+    return target;
+  }));
+}
+
+/**
+ * Flag a public hostname that resolves into private address space (DNS rebinding).
+ * Links on intranet pages and trusted sites are not looked up.
+ */
+async function addPrivateResolutionFinding(
+  result: { link: LinkMeta; heuristics: ReturnType<typeof calculateHeuristics> },
+  sourceDomain: string
+): Promise<void> {
+  const { link, heuristics } = result;
+  if (!link.targetDomain || classifyPrivateHost(sourceDomain) || isTrustedDomain(link.targetDomain)) {
+    return;
   }
   
-  return analyses;
+  const resolved = await resolvePrivateAddress(link.targetDomain);
+  if (resolved) {
+    heuristics.findings.push(createFinding(
+      'private_dns_resolution',
+      'heuristics',
+      `${link.targetDomain} resolves to ${resolved.address}, ${resolved.target.description}`
+    ));
+    heuristics.issues = findingsToIssues(heuristics.findings);
+  }
 }
 
-function calculateTrustScore(
-  heuristics: {
-    issues: string[];
-    flags: Record<string, boolean>;
-  },
-  externalResult?: AggregatedCheckResult
-): number {
-  let score = 0.5; // Neutral starting point
+function toHopLink(url: string): LinkMeta {
+  let targetDomain = '';
+  try {
+    targetDomain = new URL(url).hostname;
+  } catch {
+    // calculateHeuristics reports invalid_url
+  }
+  return { href: url, text: '', targetDomain };
+}
+
+/**
+ * Score a link on its own findings, or on the worst of its redirect hops and embedded
+ * targets (see scoreLink), each with the reputation of its site from `reputation`.
+ * Findings of the worst target are carried over so the verdict explains the score;
+ * the raw findings are returned for storage.
+ */
+function scoreWithTargets(
+  link: LinkMeta,
+  heuristics: ReturnType<typeof calculateHeuristics>,
+  externalResult: AggregatedCheckResult,
+  redirectAnalysis: RedirectAnalysis | null,
+  embeddedTargets: TargetAnalysis[],
+  reputation: Map<string, ReputationCounts>,
+  profile: ScoringProfile
+): { trustScore: number; findings: Finding[]; breakdown: ScoreStep[]; scoringInput: ScoringInput } {
+  const findings = [...heuristics.findings, ...externalResult.findings];
   
-  // Deduct points for each issue (weighted)
-  for (const issue of heuristics.issues) {
-    if (issue.includes('PHISHING_RISK') || issue.includes('typosquatting')) {
-      score -= 0.50; // Very heavy penalty for typosquatting/phishing
+  if (redirectAnalysis) {
+    const { chain } = redirectAnalysis;
+    const finalHost = toHopLink(chain.finalUrl).targetDomain || chain.finalUrl;
+    findings.push(createFinding('redirect_chain', 'heuristics', `Redirects through ${chain.hops.length - 1} hop(s) to ${finalHost}`));
+    if (chain.truncated) {
+      findings.push(createFinding('redirect_chain_too_long', 'heuristics', `Stopped after ${chain.hops.length - 1} redirects`));
     }
-    if (issue.includes('short_url')) score -= 0.12;
-    if (issue.includes('no_https')) score -= 0.20;
-    if (issue.includes('punycode')) score -= 0.18;
-    if (issue.includes('suspicious_tld')) score -= 0.15;
-    if (issue.includes('ip_address')) score -= 0.15;
-    if (issue.includes('suspicious_params')) score -= 0.10;
-    if (issue.includes('encoded_url')) score -= 0.08;
-    if (issue.includes('invalid_url')) score -= 0.25;
-    if (issue.includes('external_threats')) score -= 0.30; // Heavy penalty for external threats
   }
   
-  // Positive signals
-  if (heuristics.flags.hasNoopener) score += 0.05;
-  if (heuristics.flags.isKnownSafe) score += 0.20;
-  if (heuristics.flags.hasValidSSL) score += 0.10;
-  if (heuristics.flags.hasValidDomain) score += 0.05;
+  const siteReputation = (host: string) => {
+    const counts = reputation.get(host);
+    return counts ? { reputation: counts } : {};
+  };
+  const scoringInput: ScoringInput = {
+    findings: [...findings],
+    flags: heuristics.flags,
+    external: toExternalScoreInput(externalResult),
+    targets: [...(redirectAnalysis?.hops || []), ...embeddedTargets].map(target => ({
+      url: target.url,
+      relation: target.relation,
+      findings: target.findings,
+      flags: target.flags,
+      external: toExternalScoreInput(target.externalResult),
+      ...siteReputation(toHopLink(target.url).targetDomain)
+    })),
+    ...siteReputation(toHopLink(link.href).targetDomain)
+  };
   
-  // Apply external check results (weighted heavily)
-  if (externalResult) {
-    if (!externalResult.safe && externalResult.confidence > 0.7) {
-      // External services flagged it - reduce score significantly
-      score = Math.min(score, 0.3);
-    } else if (externalResult.safe && externalResult.confidence > 0.7) {
-      // External services confirm it's safe - boost score
-      score = Math.min(1.0, score + 0.15);
+  const { trustScore, breakdown, worstTarget } = scoreLink(scoringInput, profile);
+  if (worstTarget) {
+    const context = describeTarget(worstTarget);
+    for (const finding of worstTarget.findings) {
+      findings.push({ ...finding, evidence: `${finding.evidence || finding.code} (${context})` });
     }
-    // Use external confidence to adjust final score
-    score = score * 0.6 + (externalResult.safe ? externalResult.confidence : 1 - externalResult.confidence) * 0.4;
   }
   
-  return Math.max(0, Math.min(1, score));
+  return { trustScore, findings, breakdown, scoringInput };
+}
+
+function toExternalScoreInput(result?: AggregatedCheckResult): ExternalScoreInput | undefined {
+  return result ? { safe: result.safe, confidence: result.confidence } : undefined;
+}
+
+/**
+ * Move a verdict's score and category to where the AI verdict puts them
+ */
+function applyAiScore(verdict: TrustVerdict, ollamaResult: OllamaAnalysisResult, profile: ScoringProfile): void {
+  const { trustScore, category } = scoreAiRecommendation(
+    ollamaResult.followRecommendation,
+    ollamaResult.safetyRating,
+    verdict.trustScore,
+    profile
+  );
+  adjustVerdictScore(verdict, trustScore, 'ai', describeAiAdjustment(ollamaResult));
+  verdict.category = category;
+}
+
+/**
+ * Breakdown label of the score change made by the AI verdict
+ */
+function describeAiAdjustment(result: OllamaAnalysisResult): string {
+  const recommendation = result.followRecommendation ? result.followRecommendation.replace(/_/g, ' ').toLowerCase() : 'no recommendation';
+  return `AI analysis: ${recommendation} (safety rating ${result.safetyRating}/100)`;
 }
 
-function categorizeTrust(score: number): 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS' {
-  if (score >= 0.7) return 'SAFE';
-  if (score >= 0.4) return 'SUSPICIOUS';
-  return 'DANGEROUS';
+/**
+ * Append AI findings to a verdict and refresh its legacy issues projection
+ */
+function addVerdictFindings(verdict: TrustVerdict, findings: Finding[]): void {
+  if (findings.length === 0) return;
+  verdict.findings = [...(verdict.findings || []), ...findings];
+  verdict.issues = findingsToIssues(verdict.findings);
 }
 
 async function getUserPlan(userId: string): Promise<{ plan: string; trial_expires_at?: Date } | null> {
@@ -870,64 +1198,96 @@ async function getUserPlan(userId: string): Promise<{ plan: string; trial_expire
   return result.rows[0] || null;
 }
 
+/**
+ * Count a stored verdict toward its site's reputation, moving the URL out of the
+ * category it was stored with before (errors are logged, the scan stays stored).
+ * Stored verdicts are balanced, so the counts do not depend on whose scan stored them.
+ */
+async function updateReputation(
+  link: LinkMeta,
+  verdict: TrustVerdict,
+  previousCategory: TrustVerdict['category'] | null,
+  sourceDomain?: string
+): Promise<void> {
+  const url = normalizeUrl(link.href);
+  try {
+    await recordScanReputation({
+      url,
+      sourceDomain,
+      category: verdict.category,
+      trustScore: verdict.trustScore
+    }, previousCategory);
+  } catch (err) {
+    console.error(`[Reputation] Failed to update the reputation of the site of ${url}:`, err);
+  }
+}
+
 // In-memory lock to prevent concurrent storage of the same URL
 const storageLocks = new Map<string, Promise<void>>();
 
 async function storeScanResult(
-  userId: string | null,
   link: LinkMeta,
   verdict: TrustVerdict,
+  scoringInput: ScoringInput,
   externalResult?: AggregatedCheckResult,
-  ollamaResult?: OllamaAnalysisResult | null
+  ollamaResult?: OllamaAnalysisResult | null,
+  sourceDomain?: string
 ): Promise<void> {
   const normalizedUrl = normalizeUrl(link.href);
   
-  // Check if storage is already in progress for this URL
-  const existingStorage = storageLocks.get(normalizedUrl);
-  if (existingStorage) {
-    // Wait for existing storage to complete
+  // Stores of the same URL take turns: a later one may carry newer data (an AI analysis),
+  // so it waits for the one in progress and then decides for itself whether to update
+  let existingStorage = storageLocks.get(normalizedUrl);
+  while (existingStorage) {
     await existingStorage;
-    return;
+    existingStorage = storageLocks.get(normalizedUrl);
   }
   
+  const engineVersion = formatEngineVersion();
+  
   // Create storage promise and lock it
   const storagePromise = (async () => {
     try {
-      // First, check if a recent result exists (within cache TTL)
-      const cacheCutoff = new Date(Date.now() - CACHE_TTL_MS);
+      // First, check if a result is stored
       const existingResult = await pool.query(
-        `SELECT id, created_at, gpt_summary, confidence FROM link_scans 
-         WHERE url = $1 AND created_at > $2 
+        `SELECT id, created_at, gpt_summary, confidence, category, external_checks, engine_version, scanned_at FROM url_verdicts 
+         WHERE url = $1 
          ORDER BY created_at DESC LIMIT 1`,
-        [normalizedUrl, cacheCutoff]
+        [normalizedUrl]
       );
       
       if (existingResult.rows.length > 0) {
-        // Update existing record (only if we have new AI analysis or better data)
+        // Update existing record (only if it was due for a new scan, or we have new AI analysis, better data or a newer engine)
         const existing = existingResult.rows[0];
         const shouldUpdate = ollamaResult || 
+                           getCacheAge(toCachedVerdictInfo(existing), new Date(existing.scanned_at)) !== 'fresh' ||
+                           existing.engine_version !== engineVersion ||
                            (verdict.gptSummary && !existing.gpt_summary) ||
                            (verdict.confidence && verdict.confidence > (parseFloat(existing.confidence) || 0));
         
         if (shouldUpdate) {
           await pool.query(
-            `UPDATE link_scans SET
-              user_id = COALESCE($1, user_id),
-              domain = $2,
-              link_text = $3,
-              detected_issues = $4,
-              trust_score = $5,
-              gpt_summary = COALESCE($6, gpt_summary),
-              ollama_analysis = COALESCE($7, ollama_analysis),
-              external_checks = COALESCE($8, external_checks),
-              recommendation = COALESCE($9, recommendation),
-              risk_tags = COALESCE($10, risk_tags),
-              confidence = COALESCE($11, confidence),
-              category = $12,
+            `UPDATE url_verdicts SET
+              domain = $1,
+              link_text = $2,
+              detected_issues = $3,
+              trust_score = $4,
+              gpt_summary = COALESCE($5, gpt_summary),
+              ollama_analysis = COALESCE($6, ollama_analysis),
+              external_checks = COALESCE($7, external_checks),
+              recommendation = COALESCE($8, recommendation),
+              risk_tags = COALESCE($9, risk_tags),
+              confidence = COALESCE($10, confidence),
+              category = $11,
+              findings = $13,
+              redirect_chain = $14,
+              score_breakdown = $15,
+              raw_findings = $16,
+              engine_version = $17,
+              scanned_at = NOW(),
               updated_at = NOW()
-            WHERE id = $13`,
+            WHERE id = $12`,
             [
-              userId,
               link.targetDomain,
               link.text,
               JSON.stringify(verdict.issues),
@@ -939,9 +1299,15 @@ async function storeScanResult(
               verdict.riskTags ? JSON.stringify(verdict.riskTags) : null,
               verdict.confidence || null,
               verdict.category,
-              existing.id
+              existing.id,
+              JSON.stringify(verdict.findings || []),
+              verdict.redirectChain ? JSON.stringify(verdict.redirectChain) : null,
+              verdict.scoreBreakdown ? JSON.stringify(verdict.scoreBreakdown) : null,
+              JSON.stringify(scoringInput),
+              engineVersion
             ]
           );
+          await updateReputation(link, verdict, existing.category, sourceDomain);
         }
         // If no update needed, just return (don't create duplicate)
         return;
@@ -951,14 +1317,13 @@ async function storeScanResult(
       // Try INSERT first, if it fails due to duplicate, update instead
       try {
         await pool.query(
-          `INSERT INTO link_scans (
-            user_id, domain, url, link_text, detected_issues, trust_score, 
+          `INSERT INTO url_verdicts (
+            domain, url, link_text, detected_issues, trust_score, 
             gpt_summary, ollama_analysis, external_checks, recommendation, 
-            risk_tags, confidence, category, updated_at
+            risk_tags, confidence, category, findings, redirect_chain, score_breakdown, raw_findings, engine_version, updated_at
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())`,
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW())`,
           [
-            userId,
             link.targetDomain,
             normalizedUrl,
             link.text,
@@ -970,31 +1335,43 @@ async function storeScanResult(
             verdict.recommendation || null,
             verdict.riskTags ? JSON.stringify(verdict.riskTags) : null,
             verdict.confidence || null,
-            verdict.category
+            verdict.category,
+            JSON.stringify(verdict.findings || []),
+            verdict.redirectChain ? JSON.stringify(verdict.redirectChain) : null,
+            verdict.scoreBreakdown ? JSON.stringify(verdict.scoreBreakdown) : null,
+            JSON.stringify(scoringInput),
+            engineVersion
           ]
         );
+        await updateReputation(link, verdict, null, sourceDomain);
       } catch (insertErr: any) {
         // If insert fails (e.g., duplicate), try to update existing record
         if (insertErr.code === '23505' || insertErr.message?.includes('unique') || insertErr.message?.includes('duplicate')) {
           // Record already exists - update it
-          await pool.query(
-            `UPDATE link_scans SET
-              user_id = COALESCE($1, user_id),
-              domain = $2,
-              link_text = $3,
-              detected_issues = $4,
-              trust_score = $5,
-              gpt_summary = COALESCE($6, gpt_summary),
-              ollama_analysis = COALESCE($7, ollama_analysis),
-              external_checks = COALESCE($8, external_checks),
-              recommendation = COALESCE($9, recommendation),
-              risk_tags = COALESCE($10, risk_tags),
-              confidence = COALESCE($11, confidence),
-              category = $12,
+          const updated = await pool.query(
+            `WITH previous AS (SELECT category FROM url_verdicts WHERE url = $12)
+            UPDATE url_verdicts SET
+              domain = $1,
+              link_text = $2,
+              detected_issues = $3,
+              trust_score = $4,
+              gpt_summary = COALESCE($5, gpt_summary),
+              ollama_analysis = COALESCE($6, ollama_analysis),
+              external_checks = COALESCE($7, external_checks),
+              recommendation = COALESCE($8, recommendation),
+              risk_tags = COALESCE($9, risk_tags),
+              confidence = COALESCE($10, confidence),
+              category = $11,
+              findings = $13,
+              redirect_chain = $14,
+              score_breakdown = $15,
+              raw_findings = $16,
+              engine_version = $17,
+              scanned_at = NOW(),
               updated_at = NOW()
-            WHERE url = $13 AND created_at > NOW() - INTERVAL '${CACHE_TTL_HOURS} hours'`,
+            WHERE url = $12
+            RETURNING (SELECT category FROM previous) AS previous_category`,
             [
-              userId,
               link.targetDomain,
               link.text,
               JSON.stringify(verdict.issues),
@@ -1006,9 +1383,17 @@ async function storeScanResult(
               verdict.riskTags ? JSON.stringify(verdict.riskTags) : null,
               verdict.confidence || null,
               verdict.category,
-              normalizedUrl
+              normalizedUrl,
+              JSON.stringify(verdict.findings || []),
+              verdict.redirectChain ? JSON.stringify(verdict.redirectChain) : null,
+              verdict.scoreBreakdown ? JSON.stringify(verdict.scoreBreakdown) : null,
+              JSON.stringify(scoringInput),
+              engineVersion
             ]
           );
+          if (updated.rows[0]) {
+            await updateReputation(link, verdict, updated.rows[0].previous_category, sourceDomain);
+          }
         } else {
           // Re-throw if it's a different error
           throw insertErr;
@@ -0,0 +1,40 @@
+/**
+ * Character bigram model of English and Romanian words (49081 + 175528 words)
+ * Source: en and ro Hunspell dictionaries (github.com/wooorm/dictionaries)
+ * Generated by scripts/update-bigram-model.js - do not edit by hand.
+ */
+
+// Row/column order of BIGRAM_LOG_PROBS; '^' starts a label and '$' ends it
+export const BIGRAM_ALPHABET = '^abcdefghijklmnopqrstuvwxyz$';
+
+// BIGRAM_LOG_PROBS[previous][next] = log10 P(next | previous)
+export const BIGRAM_LOG_PROBS: readonly (readonly number[])[] = [
+  /* ^ */ [-4.33, -1.2, -1.28, -1.03, -1.26, -1.47, -1.44, -1.5, -1.5, -1.31, -2.01, -2.09, -1.53, -1.23, -1.54, -1.62, -1.09, -2.56, -0.97, -1.02, -1.31, -1.9, -1.7, -1.82, -2.84, -2.6, -2.08, -4.33],
+  /* a */ [-4.3, -3.09, -1.55, -1.39, -1.57, -2.53, -1.98, -1.67, -2.34, -1.53, -2.35, -2.27, -1.04, -1.43, -0.85, -2.94, -1.61, -3.24, -0.88, -1.25, -0.83, -1.74, -1.91, -2.44, -2.62, -2.19, -2.02, -0.85],
+  /* b */ [-3.53, -0.74, -1.64, -2.54, -2.41, -0.92, -2.84, -3.24, -2.75, -0.77, -2.48, -3.3, -0.95, -2.53, -2.59, -0.92, -2.77, -3.44, -1.05, -1.66, -2.2, -1.01, -2.86, -2.92, -3.3, -2.01, -2.94, -1.66],
+  /* c */ [-3.92, -0.71, -3.38, -1.99, -3.17, -1.05, -3.39, -3.42, -1.05, -1.02, -3.82, -1.49, -1.46, -2.97, -2.63, -0.82, -3.2, -3.03, -1.27, -2.28, -1.26, -1.2, -2.65, -3.75, -3.92, -2.06, -3.25, -0.97],
+  /* d */ [-3.75, -1.02, -2.36, -2.57, -1.88, -0.66, -2.68, -2.14, -2.44, -0.83, -2.64, -3.35, -1.95, -2.22, -2.13, -1.19, -2.68, -3.41, -1.36, -2.01, -2.68, -0.72, -2.48, -2.39, -3.75, -2, -3.18, -0.83],
+  /* e */ [-4.28, -1.33, -2.01, -1.36, -1.41, -1.78, -1.87, -1.78, -2.3, -1.6, -2.57, -2.82, -1.28, -1.49, -1.04, -1.94, -1.59, -2.86, -0.82, -1.02, -1.25, -2.08, -1.89, -2.31, -1.86, -2.32, -1.6, -0.72],
+  /* f */ [-3.38, -0.87, -2.85, -2.77, -2.85, -0.92, -1.35, -2.91, -2.87, -0.67, -3.29, -3.13, -1.08, -2.86, -2.47, -0.89, -2.98, -3.38, -1.08, -2.52, -1.52, -1.04, -3.31, -2.92, -3.38, -1.95, -3.38, -1.4],
+  /* g */ [-3.57, -0.83, -2.7, -3.22, -2.69, -0.86, -2.76, -1.6, -1.21, -0.92, -3.29, -3.22, -1.39, -2.03, -1.58, -1.17, -2.86, -3.41, -0.95, -2.15, -2.46, -1.22, -2.85, -2.61, -3.43, -1.82, -2.97, -0.83],
+  /* h */ [-3.51, -0.78, -2.39, -2.66, -2.66, -0.69, -2.51, -2.92, -2.78, -0.72, -3.51, -2.88, -1.99, -1.95, -1.76, -0.86, -2.69, -3.28, -1.59, -1.65, -1.53, -1.37, -3.32, -2.22, -3.51, -1.51, -3.15, -1.06],
+  /* i */ [-4.24, -1.32, -1.87, -1.01, -1.59, -1.24, -1.79, -1.68, -2.64, -2.03, -2.81, -2.56, -1.24, -1.44, -0.75, -1.23, -1.74, -3.02, -1.38, -1.09, -0.99, -1.83, -1.65, -3.39, -2.68, -3.48, -1.44, -1.27],
+  /* j */ [-2.73, -0.7, -2.06, -2.56, -1.79, -0.83, -2.6, -2.23, -2.73, -0.89, -2.5, -2.64, -2.32, -2.02, -2.22, -0.83, -2.48, -2.73, -2.48, -2.64, -2.73, -0.66, -2.62, -2.64, -2.73, -2.73, -2.73, -1.15],
+  /* k */ [-3.02, -1.08, -1.88, -2.29, -2.42, -0.65, -2.14, -2.45, -1.69, -0.8, -2.68, -2.06, -1.44, -2.08, -1.48, -1.48, -2.23, -3.02, -1.74, -1.45, -2.05, -1.75, -2.82, -1.93, -3.02, -1.43, -3.02, -0.65],
+  /* l */ [-3.93, -0.75, -2.1, -1.96, -1.85, -0.76, -2.24, -2.28, -2.81, -0.75, -3.49, -2.38, -1.26, -2.09, -2.22, -0.96, -2.26, -3.65, -2.95, -2.12, -1.58, -1.29, -2.18, -2.94, -3.34, -1.46, -3.1, -0.98],
+  /* m */ [-3.74, -0.65, -1.32, -2.41, -3, -0.77, -2.39, -3.29, -3, -0.83, -3.63, -3.39, -2.43, -1.67, -1.95, -0.97, -1.14, -3.55, -2.85, -2.25, -2.42, -1.29, -3.05, -3.01, -3.74, -2.13, -3.21, -0.95],
+  /* n */ [-4.08, -0.99, -2.65, -1.29, -0.88, -0.91, -1.91, -1.16, -2.54, -1, -2.43, -2.16, -2.56, -2.51, -1.85, -1.33, -2.78, -3.02, -2.58, -1.39, -0.91, -1.76, -2.05, -2.86, -3.28, -2.3, -2.34, -0.91],
+  /* o */ [-4.04, -1.56, -1.62, -1.38, -1.54, -2.11, -1.75, -1.33, -2.39, -1.67, -2.68, -2.17, -1.1, -1.22, -0.75, -1.61, -1.37, -3.11, -0.82, -1.25, -1.28, -1.36, -1.64, -1.8, -2.25, -2.41, -2.05, -1.61],
+  /* p */ [-3.7, -0.77, -2.8, -2.48, -2.92, -0.83, -2.83, -3.14, -1.36, -0.99, -3.46, -2.99, -1.16, -2.72, -2.55, -0.93, -1.51, -3.7, -0.84, -1.64, -1.42, -1.27, -3.4, -2.96, -3.61, -2.14, -3.52, -1.45],
+  /* q */ [-2.31, -1.89, -2.14, -2.22, -2.31, -2.2, -2.31, -2.31, -2.31, -1.87, -2.31, -2.31, -1.95, -2.11, -2.28, -2.22, -2.31, -2.22, -2.14, -2.26, -2.11, -0.1, -2.31, -2.11, -2.31, -2.31, -2.31, -1.58],
+  /* r */ [-4.18, -0.76, -1.93, -1.74, -1.72, -0.56, -2.25, -1.88, -2.45, -0.91, -2.95, -2.25, -2.06, -1.7, -1.79, -1.08, -2.11, -3.35, -1.94, -1.72, -1.5, -1.51, -2.24, -2.72, -3.64, -1.81, -2.74, -1],
+  /* s */ [-4, -1.15, -2.56, -1.08, -2.81, -0.96, -2.08, -2.95, -1.41, -1.04, -3.37, -2.14, -1.87, -1.48, -1.89, -1.36, -1.42, -2.55, -2.93, -1.16, -0.75, -1.33, -2.93, -2.21, -4, -2.13, -3.37, -0.88],
+  /* t */ [-4.12, -0.71, -2.72, -2.2, -3.14, -0.87, -2.66, -3.08, -1.49, -0.7, -3.68, -3.51, -2.16, -2.5, -2.51, -1.09, -2.87, -4.03, -1.1, -2.3, -1.74, -1.37, -3.41, -2.49, -3.96, -1.74, -2.75, -0.79],
+  /* u */ [-3.86, -1.57, -1.58, -1.42, -1.64, -1.74, -2.01, -1.65, -2.64, -1.14, -2.67, -2.61, -1.02, -1.26, -1.04, -2.3, -1.53, -3.47, -0.89, -1, -1.13, -3, -2.3, -3.42, -2.57, -3, -1.96, -0.81],
+  /* v */ [-3.29, -0.62, -3.13, -3.06, -2.79, -0.48, -3.02, -2.84, -2.97, -0.63, -3.2, -3.29, -2.2, -3.13, -2.4, -1.08, -3.02, -3.29, -1.72, -2.62, -2.83, -1.7, -2.8, -3.24, -3.27, -2.35, -3.2, -1.41],
+  /* w */ [-2.98, -0.67, -1.94, -2.44, -1.9, -0.86, -2.21, -2.56, -1.19, -0.86, -2.81, -2.13, -1.66, -2.09, -1.26, -0.85, -2.15, -2.98, -1.51, -1.67, -2.14, -2.27, -2.89, -2.49, -2.89, -1.98, -2.69, -1.11],
+  /* x */ [-2.7, -1.06, -2.49, -1.17, -2.68, -1.13, -2.2, -2.61, -1.79, -0.72, -2.68, -2.68, -2.27, -2.23, -2.54, -1.28, -0.96, -2.54, -2.48, -2.13, -0.9, -1.44, -1.98, -2.41, -1.76, -1.86, -2.61, -0.84],
+  /* y */ [-3.24, -1.45, -1.95, -1.68, -1.89, -1.55, -2.42, -2.18, -2.49, -1.99, -2.99, -2.73, -1.6, -1.53, -1.61, -1.69, -1.58, -3.15, -1.74, -1.47, -1.85, -2.13, -2.81, -2.02, -2.71, -2.99, -2.59, -0.19],
+  /* z */ [-3.26, -0.45, -1.62, -3.08, -1.94, -0.85, -3.26, -1.74, -2.47, -0.9, -3.08, -2.92, -2, -1.93, -2.12, -1.23, -2.99, -3.1, -2.78, -2.94, -2.85, -1.46, -1.94, -2.87, -3.26, -2.18, -1.83, -0.82],
+  /* $ */ [-1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45, -1.45]
+];
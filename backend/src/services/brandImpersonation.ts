@@ -0,0 +1,125 @@
+/**
+ * Brand-outside-the-registrable-domain detection
+ * ("paypal.com.account-verify.xyz", "login-secure.net/microsoft/office365/")
+ */
+
+export type BrandLocation = 'subdomain' | 'path' | 'query';
+
+export interface BrandImpersonation {
+  brand: string;
+  brandDomain?: string; // Set when a full brand domain (e.g. "paypal.com") was found
+  location: BrandLocation;
+  token: string; // The label, path segment or query value the brand appeared in
+}
+
+// Short brand names match too many unrelated tokens to be useful here
+const MIN_BRAND_LENGTH = 3;
+// Brands long enough to also be matched as a token prefix ("paypalsecure", "microsoftonline")
+const MIN_PREFIX_BRAND_LENGTH = 5;
+
+const DOMAIN_LIKE_PATTERN = /[a-z0-9-]+(?:\.[a-z0-9-]+)+/g;
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/[^a-z0-9]+/).filter(word => word.length > 0);
+}
+
+function matchBrand(words: string[], brands: readonly string[]): string | null {
+  for (const brand of brands) {
+    if (brand.length < MIN_BRAND_LENGTH) continue;
+    const found = words.some(word =>
+      word === brand || (brand.length >= MIN_PREFIX_BRAND_LENGTH && word.startsWith(brand))
+    );
+    if (found) return brand;
+  }
+  return null;
+}
+
+/**
+ * Find a known brand domain spelled out inside free text ("www.paypal.com" in a path segment,
+ * "paypal.com.account-verify" as a subdomain). Every run of two or more labels is tried.
+ */
+function matchBrandDomain(text: string, brandDomains: ReadonlySet<string>): string | null {
+  for (const candidate of text.match(DOMAIN_LIKE_PATTERN) || []) {
+    const labels = candidate.split('.');
+    for (let start = 0; start < labels.length - 1; start++) {
+      for (let end = labels.length; end - start >= 2; end--) {
+        const run = labels.slice(start, end).join('.');
+        if (brandDomains.has(run)) return run;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Tokenize subdomain labels, path segments and query values of a URL and report
+ * every known brand (or brand domain) that appears outside its registrable domain.
+ *
+ * `brands` are bare brand names ("paypal"), `brandDomains` their real domains ("paypal.com").
+ * A brand is never reported on its own site, so "support.apple.com/apple-pay" is clean.
+ */
+export function detectBrandImpersonation(
+  url: URL,
+  registrableDomain: string,
+  brands: readonly string[],
+  brandDomains: ReadonlySet<string>
+): BrandImpersonation[] {
+  const hostname = url.hostname.toLowerCase();
+  const ownLabel = registrableDomain.split('.')[0];
+  const candidateBrands = brands.filter(brand => brand !== ownLabel);
+  const results: BrandImpersonation[] = [];
+  const seen = new Set<string>();
+
+  const report = (result: BrandImpersonation) => {
+    const key = `${result.location}:${result.brand}`;
+    if (seen.has(key) || result.brandDomain === registrableDomain) return;
+    seen.add(key);
+    results.push(result);
+  };
+
+  const inspect = (location: BrandLocation, token: string) => {
+    const brandDomain = matchBrandDomain(token, brandDomains);
+    if (brandDomain) {
+      report({ brand: brandDomain.split('.')[0], brandDomain, location, token });
+      return;
+    }
+    const brand = matchBrand(splitWords(token), candidateBrands);
+    if (brand) {
+      report({ brand, location, token });
+    }
+  };
+
+  // Subdomain: the whole label sequence first (catches "paypal.com.evil.xyz"), then each label
+  if (hostname.length > registrableDomain.length && hostname.endsWith(`.${registrableDomain}`)) {
+    const subdomain = hostname.slice(0, -(registrableDomain.length + 1));
+    const brandDomain = matchBrandDomain(subdomain, brandDomains);
+    if (brandDomain) {
+      report({ brand: brandDomain.split('.')[0], brandDomain, location: 'subdomain', token: subdomain });
+    }
+    for (const label of subdomain.split('.')) {
+      inspect('subdomain', label);
+    }
+  }
+
+  // Path segments
+  for (const segment of url.pathname.split('/')) {
+    const decoded = safeDecode(segment).toLowerCase();
+    if (decoded) inspect('path', decoded);
+  }
+
+  // Query values
+  for (const value of url.searchParams.values()) {
+    const decoded = value.toLowerCase();
+    if (decoded) inspect('query', decoded);
+  }
+
+  return results;
+}
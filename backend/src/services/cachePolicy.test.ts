@@ -0,0 +1,27 @@
+import { describe, it, expect } from '@jest/globals';
+import { getCacheAge, getCacheTtlRule, getMaxCacheAgeMs, STALE_WINDOW_MS } from './cachePolicy.js';
+
+describe('Cache policy', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const now = Date.parse('2026-01-10T12:00:00Z');
+  const scannedHoursAgo = (hours: number) => new Date(now - hours * HOUR_MS);
+
+  it('should keep verdicts by category, confidence and source', () => {
+    expect(getCacheTtlRule({ category: 'SAFE', confidence: 0.2, externallyFlagged: true }).ttlMs).toBe(7 * 24 * HOUR_MS);
+    expect(getCacheTtlRule({ category: 'DANGEROUS', confidence: 0.9, externallyFlagged: false }).ttlMs).toBe(3 * 24 * HOUR_MS);
+    expect(getCacheTtlRule({ category: 'SUSPICIOUS', confidence: 0.7, externallyFlagged: false }).ttlMs).toBe(HOUR_MS);
+    expect(getCacheTtlRule({ category: 'SUSPICIOUS', confidence: 0.85, externallyFlagged: false }).ttlMs).toBe(6 * HOUR_MS);
+    expect(getCacheTtlRule({ category: 'SAFE', confidence: null, externallyFlagged: false }).ttlMs).toBe(24 * HOUR_MS);
+  });
+
+  it('should serve verdicts past their TTL as stale for a while, then not at all', () => {
+    const unsure = { category: 'SUSPICIOUS' as const, confidence: 0.7, externallyFlagged: false };
+    expect(getCacheAge(unsure, scannedHoursAgo(0.5), now)).toBe('fresh');
+    expect(getCacheAge(unsure, scannedHoursAgo(2), now)).toBe('stale');
+    expect(getCacheAge(unsure, scannedHoursAgo(1 + STALE_WINDOW_MS / HOUR_MS), now)).toBe('expired');
+
+    const flagged = { category: 'DANGEROUS' as const, confidence: 0.9, externallyFlagged: true };
+    expect(getCacheAge(flagged, scannedHoursAgo(6 * 24), now)).toBe('fresh');
+    expect(getMaxCacheAgeMs()).toBe(7 * 24 * HOUR_MS + STALE_WINDOW_MS);
+  });
+});
@@ -0,0 +1,64 @@
+import type { TrustCategory } from './scoring.js';
+
+/**
+ * How long a stored verdict is used before the link is scanned again. Each verdict gets the
+ * TTL of the first rule it matches, counted from its last scan. Past its TTL a verdict is
+ * stale: for STALE_WINDOW_MS more it is still served at once while a background scan
+ * refreshes it; after that it is a cache miss.
+ */
+
+// What the TTL of a stored verdict depends on
+export type CachedVerdictInfo = {
+  category: TrustCategory;
+  confidence: number | null;
+  externallyFlagged: boolean; // Reported by at least one external threat feed
+};
+
+export type CacheTtlRule = {
+  name: string;
+  ttlMs: number;
+  matches: (verdict: CachedVerdictInfo) => boolean;
+};
+
+export type CacheAge = 'fresh' | 'stale' | 'expired';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Confidence below which a SUSPICIOUS verdict is re-checked soon (AI verdicts have 0.85)
+const LOW_CONFIDENCE = 0.8;
+
+export const STALE_WINDOW_MS = 24 * HOUR_MS;
+
+export const CACHE_TTL_RULES: CacheTtlRule[] = [
+  { name: 'flagged by external feeds', ttlMs: 7 * 24 * HOUR_MS, matches: verdict => verdict.externallyFlagged },
+  { name: 'dangerous', ttlMs: 3 * 24 * HOUR_MS, matches: verdict => verdict.category === 'DANGEROUS' },
+  {
+    name: 'low-confidence suspicious',
+    ttlMs: HOUR_MS,
+    matches: verdict => verdict.category === 'SUSPICIOUS' && (verdict.confidence ?? 0) < LOW_CONFIDENCE
+  },
+  { name: 'suspicious', ttlMs: 6 * HOUR_MS, matches: verdict => verdict.category === 'SUSPICIOUS' },
+  { name: 'default', ttlMs: 24 * HOUR_MS, matches: () => true }
+];
+
+export function getCacheTtlRule(verdict: CachedVerdictInfo): CacheTtlRule {
+  return CACHE_TTL_RULES.find(rule => rule.matches(verdict)) || CACHE_TTL_RULES[CACHE_TTL_RULES.length - 1];
+}
+
+/**
+ * Whether a verdict last scanned at `scannedAt` is served as is, served while it is
+ * re-scanned, or scanned again before it is served
+ */
+export function getCacheAge(verdict: CachedVerdictInfo, scannedAt: Date, now: number = Date.now()): CacheAge {
+  const age = now - scannedAt.getTime();
+  const { ttlMs } = getCacheTtlRule(verdict);
+  if (age < ttlMs) return 'fresh';
+  return age < ttlMs + STALE_WINDOW_MS ? 'stale' : 'expired';
+}
+
+/**
+ * Oldest scan any rule still serves (rows older than this need not be read)
+ */
+export function getMaxCacheAgeMs(): number {
+  return Math.max(...CACHE_TTL_RULES.map(rule => rule.ttlMs)) + STALE_WINDOW_MS;
+}
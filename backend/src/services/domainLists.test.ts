@@ -0,0 +1,34 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { calculateHeuristics, isTrustedDomain } from './heuristics.js';
+import { setDomainListEntries } from './domainLists.js';
+
+describe('Domain allow/deny lists', () => {
+  const entry = { reason: null, expiresAt: null };
+
+  afterEach(() => setDomainListEntries([]));
+
+  it('should let list entries override the built-in trusted list', () => {
+    setDomainListEntries([
+      { ...entry, id: 1, domain: 'dropbox.com', listType: 'deny', userId: null, reason: 'Abused for malware hosting' },
+      { ...entry, id: 2, domain: 'intranet.example-corp.com', listType: 'allow', userId: null },
+      { ...entry, id: 3, domain: 'dropbox.com', listType: 'allow', userId: 'user-1' }
+    ]);
+
+    expect(isTrustedDomain('www.dropbox.com')).toBe(false);
+    expect(isTrustedDomain('www.dropbox.com', 'user-1')).toBe(true);
+    expect(isTrustedDomain('wiki.intranet.example-corp.com')).toBe(true);
+    expect(isTrustedDomain('example-corp.com')).toBe(false);
+
+    const result = calculateHeuristics({ href: 'https://dl.dropbox.com/s/file', text: 'File', targetDomain: 'dl.dropbox.com' });
+    expect(result.issues).toContain('denylisted_domain: dropbox.com is on the global denylist: Abused for malware hosting');
+    expect(result.flags.isKnownSafe).toBe(false);
+  });
+
+  it('should ignore expired entries', () => {
+    setDomainListEntries([
+      { ...entry, id: 1, domain: 'github.com', listType: 'deny', userId: null, expiresAt: new Date(Date.now() - 1000) }
+    ]);
+
+    expect(isTrustedDomain('github.com')).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { pool } from '../db/index.js';
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
+
+/**
+ * Allow/deny lists from the domain_lists table. Lookups read an in-memory snapshot
+ * that is refreshed periodically and after every change made through /api/lists.
+ */
+
+export type DomainListType = 'allow' | 'deny';
+
+export interface DomainListEntry {
+  id: number;
+  domain: string;
+  listType: DomainListType;
+  userId: string | null; // null for global entries
+  reason: string | null;
+  expiresAt: Date | null;
+}
+
+type DomainListRow = {
+  id: number;
+  domain: string;
+  list_type: DomainListType;
+  user_id: string | null;
+  reason: string | null;
+  expires_at: Date | null;
+};
+
+const DEFAULT_REFRESH_INTERVAL_MS = 60 * 1000;
+
+let globalEntries = new Map<string, DomainListEntry>();
+let userEntries = new Map<string, Map<string, DomainListEntry>>();
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Replace the snapshot with a new set of entries
+ */
+export function setDomainListEntries(entries: DomainListEntry[]): void {
+  const nextGlobal = new Map<string, DomainListEntry>();
+  const nextUsers = new Map<string, Map<string, DomainListEntry>>();
+
+  for (const entry of entries) {
+    if (!entry.userId) {
+      nextGlobal.set(entry.domain, entry);
+      continue;
+    }
+    let entriesOfUser = nextUsers.get(entry.userId);
+    if (!entriesOfUser) {
+      entriesOfUser = new Map();
+      nextUsers.set(entry.userId, entriesOfUser);
+    }
+    entriesOfUser.set(entry.domain, entry);
+  }
+
+  globalEntries = nextGlobal;
+  userEntries = nextUsers;
+}
+
+/**
+ * Reload the snapshot from the database (expired entries are left out)
+ */
+export async function refreshDomainLists(): Promise<number> {
+  const result = await pool.query<DomainListRow>(
+    `SELECT id, domain, list_type, user_id, reason, expires_at
+     FROM domain_lists
+     WHERE expires_at IS NULL OR expires_at > now()`
+  );
+
+  setDomainListEntries(result.rows.map(row => ({
+    id: row.id,
+    domain: row.domain,
+    listType: row.list_type,
+    userId: row.user_id,
+    reason: row.reason,
+    expiresAt: row.expires_at
+  })));
+  return result.rows.length;
+}
+
+/**
+ * Load the lists and keep refreshing them in the background
+ */
+export async function startDomainListRefresh(intervalMs: number = DEFAULT_REFRESH_INTERVAL_MS): Promise<number> {
+  const count = await refreshDomainLists();
+
+  if (!refreshTimer) {
+    refreshTimer = setInterval(() => {
+      refreshDomainLists().catch(err => {
+        console.error('[DomainLists] Refresh failed, keeping the previous snapshot:', err instanceof Error ? err.message : err);
+      });
+    }, intervalMs);
+    refreshTimer.unref();
+  }
+
+  return count;
+}
+
+/**
+ * The host and its parent domains down to the registrable domain
+ * ('a.mail.example.co.uk' -> a.mail.example.co.uk, mail.example.co.uk, example.co.uk).
+ * Entries never cover other sites under a shared suffix like 'github.io'.
+ */
+function getCandidateDomains(domain: string): string[] {
+  const host = domain.toLowerCase().replace(/\.$/, '');
+  const registrable = getRegistrableDomain(host);
+  if (!registrable) return [host];
+
+  const candidates: string[] = [];
+  let current = host;
+  while (current.length >= registrable.length) {
+    candidates.push(current);
+    const dot = current.indexOf('.');
+    if (dot === -1) break;
+    current = current.slice(dot + 1);
+  }
+  return candidates;
+}
+
+function findInScope(scope: Map<string, DomainListEntry> | undefined, candidates: string[]): DomainListEntry | null {
+  if (!scope) return null;
+  const now = Date.now();
+  for (const candidate of candidates) {
+    const entry = scope.get(candidate);
+    // The snapshot may be older than an entry's expiry
+    if (entry && (!entry.expiresAt || entry.expiresAt.getTime() > now)) {
+      return entry;
+    }
+  }
+  return null;
+}
+
+/**
+ * List entry that applies to a domain: the user's own entries win over global ones,
+ * and within a scope the most specific domain wins
+ */
+export function findDomainListEntry(domain: string, userId?: string): DomainListEntry | null {
+  const candidates = getCandidateDomains(domain);
+  return (userId ? findInScope(userEntries.get(userId), candidates) : null) ||
+         findInScope(globalEntries, candidates);
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import { startTestDatabase, TEST_DATABASE_START_TIMEOUT_MS, type TestDatabase } from '../db/testDatabase.js';
+import { getDomainReputation, getReputationDomain, recordScanReputation } from './domainReputation.js';
+
+let mockDb: TestDatabase;
+jest.mock('../db/index.js', () => ({
+  pool: { query: (sql: string, params?: unknown[]) => mockDb.query(sql, params) }
+}));
+
+describe('Domain reputation', () => {
+  beforeAll(async () => {
+    mockDb = await startTestDatabase({ migrate: true });
+  }, TEST_DATABASE_START_TIMEOUT_MS);
+
+  afterAll(() => mockDb.close());
+
+  it('should keep reputation per site', () => {
+    expect(getReputationDomain('Login.Evil.TK.')).toBe('evil.tk');
+    expect(getReputationDomain('a.b.example.co.uk')).toBe('example.co.uk');
+  });
+
+  it('should count each URL of a site once, under its latest category', async () => {
+    await recordScanReputation({ url: 'https://shop.counted.example/a', category: 'SAFE', trustScore: 0.8 }, null);
+    await recordScanReputation({ url: 'https://counted.example/b', category: 'SUSPICIOUS', trustScore: 0.5 }, null);
+    // Re-scanned
+    await recordScanReputation({ url: 'https://counted.example/b', category: 'DANGEROUS', trustScore: 0.2 }, 'SUSPICIOUS');
+    // No site to count it toward
+    await recordScanReputation({ url: 'mailto:help@counted.example', category: 'SAFE', trustScore: 0.7 }, null);
+
+    expect(await getDomainReputation('counted.example')).toMatchObject({ safe: 1, suspicious: 0, dangerous: 1, total: 2 });
+  });
+
+  it('should keep the worst verdict of the last 30 days', async () => {
+    const worst = async () => (await getDomainReputation('worst.example'))?.worstRecent;
+    await recordScanReputation({ url: 'https://worst.example/phish', category: 'DANGEROUS', trustScore: 0.1 }, null);
+    await recordScanReputation({ url: 'https://worst.example/shop', category: 'SAFE', trustScore: 0.8 }, null);
+    expect(await worst()).toMatchObject({ url: 'https://worst.example/phish', trustScore: 0.1 });
+
+    await mockDb.query(`UPDATE domain_reputation SET worst_seen_at = now() - interval '31 days' WHERE domain = 'worst.example'`);
+    await recordScanReputation({ url: 'https://worst.example/odd', category: 'SUSPICIOUS', trustScore: 0.5 }, null);
+    expect(await worst()).toMatchObject({ url: 'https://worst.example/odd', category: 'SUSPICIOUS', trustScore: 0.5 });
+  });
+});
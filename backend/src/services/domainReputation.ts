@@ -0,0 +1,158 @@
+import { pool } from '../db/index.js';
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
+import type { ReputationCounts, TrustCategory } from './scoring.js';
+
+/**
+ * Domain reputation: how the stored scans of a site's URLs came out. It is kept up to date
+ * as scans are stored (each URL counts once, under its latest category) and gives new URLs
+ * of the site their starting score (getReputationPrior in scoring.ts).
+ */
+
+export type DomainReputation = ReputationCounts & {
+  total: number;
+  worstRecent: { category: TrustCategory; trustScore: number; url: string; seenAt: Date } | null;
+  firstSeen: Date;
+  lastSeen: Date;
+  sourceDomainCount: number; // Distinct sites linking to it
+  topSourceDomains: string[]; // Most recently seen first
+};
+
+type DomainReputationRow = {
+  domain: string;
+  safe_count: number;
+  suspicious_count: number;
+  dangerous_count: number;
+  worst_category: TrustCategory | null;
+  worst_score: string | null;
+  worst_url: string | null;
+  worst_seen_at: Date | null;
+  first_seen: Date;
+  last_seen: Date;
+  source_domain_count: string;
+  top_source_domains: string[] | null;
+};
+
+// A worse verdict than this old replaces the site's worst recent verdict
+const WORST_VERDICT_WINDOW_DAYS = 30;
+
+const TOP_SOURCE_DOMAINS = 10;
+
+/**
+ * The site a host belongs to ('login.evil.tk' -> 'evil.tk'); reputation is kept per site
+ */
+export function getReputationDomain(host: string): string {
+  const hostname = host.toLowerCase().replace(/\.$/, '');
+  return getRegistrableDomain(hostname) || hostname;
+}
+
+function categoryDelta(category: TrustCategory, previous: TrustCategory | null) {
+  const delta = (name: TrustCategory) => (category === name ? 1 : 0) - (previous === name ? 1 : 0);
+  return [delta('SAFE'), delta('SUSPICIOUS'), delta('DANGEROUS')];
+}
+
+/**
+ * Count a stored scan toward the reputation of the site its URL is on (URLs without a host
+ * are left out). `previousCategory` is the category the URL was stored with before (null
+ * for a new URL), so a re-scanned URL moves between counts.
+ */
+export async function recordScanReputation(
+  scan: { url: string; sourceDomain?: string; category: TrustCategory; trustScore: number },
+  previousCategory: TrustCategory | null
+): Promise<void> {
+  let host = '';
+  try {
+    host = new URL(scan.url).hostname;
+  } catch {
+    // Not a URL
+  }
+  if (!host) return;
+  const domain = getReputationDomain(host);
+  const [safe, suspicious, dangerous] = categoryDelta(scan.category, previousCategory);
+
+  await pool.query(
+    `INSERT INTO domain_reputation (domain, safe_count, suspicious_count, dangerous_count)
+     VALUES ($1, GREATEST(0, $2::int), GREATEST(0, $3::int), GREATEST(0, $4::int))
+     ON CONFLICT (domain) DO UPDATE SET
+       safe_count = GREATEST(0, domain_reputation.safe_count + $2::int),
+       suspicious_count = GREATEST(0, domain_reputation.suspicious_count + $3::int),
+       dangerous_count = GREATEST(0, domain_reputation.dangerous_count + $4::int),
+       last_seen = now()`,
+    [domain, safe, suspicious, dangerous]
+  );
+
+  // The worst verdict wins, unless the current worst is no longer recent
+  await pool.query(
+    `UPDATE domain_reputation SET
+       worst_category = $2, worst_score = $3, worst_url = $4, worst_seen_at = now()
+     WHERE domain = $1
+       AND (worst_score IS NULL OR $3 <= worst_score
+            OR worst_seen_at < now() - interval '${WORST_VERDICT_WINDOW_DAYS} days')`,
+    [domain, scan.category, scan.trustScore, scan.url]
+  );
+
+  if (scan.sourceDomain) {
+    await pool.query(
+      `INSERT INTO domain_reputation_sources (domain, source_domain)
+       VALUES ($1, $2)
+       ON CONFLICT (domain, source_domain) DO UPDATE SET last_seen = now()`,
+      [domain, getReputationDomain(scan.sourceDomain)]
+    );
+  }
+}
+
+/**
+ * Scan counts of the sites of these hosts, keyed by host (hosts of unknown sites are left out)
+ */
+export async function getReputationCounts(hosts: string[]): Promise<Map<string, ReputationCounts>> {
+  const counts = new Map<string, ReputationCounts>();
+  const domains = [...new Set(hosts.map(getReputationDomain))];
+  if (domains.length === 0) return counts;
+
+  const result = await pool.query<Pick<DomainReputationRow, 'domain' | 'safe_count' | 'suspicious_count' | 'dangerous_count'>>(
+    `SELECT domain, safe_count, suspicious_count, dangerous_count
+     FROM domain_reputation WHERE domain = ANY($1::text[])`,
+    [domains]
+  );
+  const byDomain = new Map(result.rows.map(row => [row.domain, {
+    domain: row.domain,
+    safe: row.safe_count,
+    suspicious: row.suspicious_count,
+    dangerous: row.dangerous_count
+  }]));
+  for (const host of hosts) {
+    const found = byDomain.get(getReputationDomain(host));
+    if (found) counts.set(host, found);
+  }
+  return counts;
+}
+
+export async function getDomainReputation(host: string): Promise<DomainReputation | null> {
+  const result = await pool.query<DomainReputationRow>(
+    `SELECT r.*,
+       (SELECT count(*) FROM domain_reputation_sources s WHERE s.domain = r.domain) AS source_domain_count,
+       ARRAY(
+         SELECT s.source_domain FROM domain_reputation_sources s
+         WHERE s.domain = r.domain ORDER BY s.last_seen DESC LIMIT ${TOP_SOURCE_DOMAINS}
+       ) AS top_source_domains
+     FROM domain_reputation r
+     WHERE r.domain = $1`,
+    [getReputationDomain(host)]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return {
+    domain: row.domain,
+    safe: row.safe_count,
+    suspicious: row.suspicious_count,
+    dangerous: row.dangerous_count,
+    total: row.safe_count + row.suspicious_count + row.dangerous_count,
+    worstRecent: row.worst_category && row.worst_score !== null && row.worst_url && row.worst_seen_at
+      ? { category: row.worst_category, trustScore: parseFloat(row.worst_score), url: row.worst_url, seenAt: row.worst_seen_at }
+      : null,
+    firstSeen: row.first_seen,
+    lastSeen: row.last_seen,
+    sourceDomainCount: parseInt(row.source_domain_count, 10),
+    topSourceDomains: row.top_source_domains || []
+  };
+}
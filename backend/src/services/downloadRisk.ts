@@ -0,0 +1,162 @@
+import type { LinkMeta } from '../../shared/types.js';
+
+/**
+ * Download-risk analysis: executables, script files, disk images, double extensions
+ * ("invoice.pdf.exe") and archives posing as documents. The file name comes from the
+ * download attribute, a content-disposition hint in the query string or the path.
+ */
+
+export type DownloadRiskCode =
+  | 'executable_download'
+  | 'disk_image_download'
+  | 'double_extension_download'
+  | 'archive_lure_download';
+
+export interface DownloadRisk {
+  code: DownloadRiskCode;
+  fileName: string;
+  extension: string;
+  evidence: string;
+}
+
+type FileNameSource = 'path' | 'download attribute' | 'content-disposition';
+
+// Extension -> what the file is, for the evidence text
+const EXECUTABLE_EXTENSIONS: Record<string, string> = {
+  exe: 'Windows program', scr: 'Windows screensaver program', pif: 'Windows program',
+  cpl: 'Control Panel program', msi: 'Windows installer', msix: 'Windows installer', appx: 'Windows installer',
+  bat: 'batch script', cmd: 'batch script', ps1: 'PowerShell script', vbs: 'VBScript', vbe: 'VBScript',
+  js: 'Windows Script Host script', jse: 'Windows Script Host script', wsf: 'Windows Script Host script',
+  hta: 'HTML application', jar: 'Java program', lnk: 'Windows shortcut', apk: 'Android app',
+  dmg: 'macOS disk image app', pkg: 'macOS installer'
+};
+// Browsers display these instead of downloading them unless the link forces a download
+const BROWSER_VIEWABLE_EXTENSIONS = new Set(['js']);
+// Disk images are mounted without "downloaded from the internet" warnings on older systems
+const DISK_IMAGE_EXTENSIONS = new Set(['iso', 'img', 'vhd', 'vhdx']);
+const ARCHIVE_EXTENSIONS = new Set(['zip', 'rar', '7z', 'tar', 'gz', 'tgz', 'cab', 'ace', 'arj']);
+const DOCUMENT_EXTENSIONS = new Set([
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'rtf', 'txt', 'csv',
+  'jpg', 'jpeg', 'png', 'gif', 'mp3', 'mp4', 'mov'
+]);
+
+// Link text claiming to be a document (English and Romanian)
+const DOCUMENT_CLAIM_PATTERN = new RegExp(
+  `\\.(${Array.from(DOCUMENT_EXTENSIONS).join('|')})\\b|` +
+  '\\b(invoice|receipt|statement|scan(ned)?|payslip|factur[aă]|chitan[tț][aă]|extras|document(e|ul)?|contract(ul)?)\\b',
+  'i'
+);
+
+const CONTENT_DISPOSITION_PARAMS = ['response-content-disposition', 'content-disposition', 'rscd'];
+const FILE_NAME_PARAMS = ['filename', 'file_name'];
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * File name from a Content-Disposition value ('attachment; filename="a.exe"' or filename*=UTF-8''a.exe)
+ */
+function parseContentDisposition(value: string): string | null {
+  const extended = value.match(/filename\*\s*=\s*[^']*'[^']*'([^;]+)/i);
+  if (extended) return safeDecode(extended[1].trim());
+  const plain = value.match(/filename\s*=\s*"?([^";]+)"?/i);
+  return plain ? plain[1].trim() : null;
+}
+
+/**
+ * Candidate file names of a link, most explicit first
+ */
+function getFileNames(url: URL, link: LinkMeta): Array<{ name: string; source: FileNameSource }> {
+  const names: Array<{ name: string; source: FileNameSource }> = [];
+
+  if (link.download && link.download.trim()) {
+    names.push({ name: link.download.trim(), source: 'download attribute' });
+  }
+
+  for (const [param, value] of url.searchParams) {
+    const key = param.toLowerCase();
+    const name = CONTENT_DISPOSITION_PARAMS.includes(key) ? parseContentDisposition(value)
+      : FILE_NAME_PARAMS.includes(key) ? value.trim()
+      : null;
+    if (name) {
+      names.push({ name, source: 'content-disposition' });
+    }
+  }
+
+  const lastSegment = safeDecode(url.pathname.split('/').pop() || '');
+  if (lastSegment.includes('.')) {
+    names.push({ name: lastSegment, source: 'path' });
+  }
+
+  return names;
+}
+
+function describeSource(source: FileNameSource): string {
+  return source === 'path' ? '' : ` (from the ${source})`;
+}
+
+/**
+ * Risky downloads behind a link, at most one per code
+ */
+export function detectDownloadRisks(url: URL, link: LinkMeta): DownloadRisk[] {
+  const risks: DownloadRisk[] = [];
+  const addRisk = (risk: DownloadRisk) => {
+    if (!risks.some(existing => existing.code === risk.code)) {
+      risks.push(risk);
+    }
+  };
+  const isForcedDownload = !!link.download || url.search.toLowerCase().includes('attachment');
+
+  for (const { name, source } of getFileNames(url, link)) {
+    // A right-to-left override (U+202E) makes "invoice<RLO>fdp.exe" display as "invoiceexe.pdf"
+    const hasBidiOverride = /[\u202A-\u202E\u2066-\u2069]/.test(name);
+    const cleanName = name.replace(/[\u202A-\u202E\u2066-\u2069]/g, '').toLowerCase();
+    const parts = cleanName.split('.').map(part => part.trim());
+    if (parts.length < 2) continue;
+
+    const extension = parts[parts.length - 1];
+    const innerExtension = parts.length > 2 ? parts[parts.length - 2] : null;
+    const sourceNote = describeSource(source);
+    const isExecutable = extension in EXECUTABLE_EXTENSIONS &&
+      (!BROWSER_VIEWABLE_EXTENSIONS.has(extension) || source !== 'path' || isForcedDownload);
+
+    if ((isExecutable || DISK_IMAGE_EXTENSIONS.has(extension)) &&
+        (hasBidiOverride || (innerExtension && DOCUMENT_EXTENSIONS.has(innerExtension)))) {
+      const disguise = hasBidiOverride ? 'a reversed-text trick' : `a .${innerExtension} extension`;
+      addRisk({
+        code: 'double_extension_download',
+        fileName: name,
+        extension,
+        evidence: `"${name}" hides a .${extension} file behind ${disguise}${sourceNote}`
+      });
+    } else if (isExecutable) {
+      addRisk({
+        code: 'executable_download',
+        fileName: name,
+        extension,
+        evidence: `"${name}" is a ${EXECUTABLE_EXTENSIONS[extension]} (.${extension})${sourceNote}`
+      });
+    } else if (DISK_IMAGE_EXTENSIONS.has(extension)) {
+      addRisk({
+        code: 'disk_image_download',
+        fileName: name,
+        extension,
+        evidence: `"${name}" is a disk image (.${extension}), a common way to deliver malware${sourceNote}`
+      });
+    } else if (ARCHIVE_EXTENSIONS.has(extension) && DOCUMENT_CLAIM_PATTERN.test(link.text || '')) {
+      addRisk({
+        code: 'archive_lure_download',
+        fileName: name,
+        extension,
+        evidence: `Link text "${(link.text || '').trim().slice(0, 60)}" suggests a document, but the link downloads the archive "${name}"${sourceNote}`
+      });
+    }
+  }
+
+  return risks;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { getRulesetHash, loadRulesFromDirectory, setActiveRules } from './ruleEngine.js';
+import { setScoringModel, trainScoringModel } from './scoringModel.js';
+import { formatEngineVersion, getCacheFreshness, getEngineVersion, parseEngineVersion } from './engineVersion.js';
+
+describe('Engine versioning', () => {
+  afterEach(() => {
+    setActiveRules(loadRulesFromDirectory());
+    setScoringModel(null);
+  });
+
+  it('should change with the rules and the scoring model', () => {
+    const version = getEngineVersion();
+    expect(version.model).toBe('weights');
+    expect(parseEngineVersion(formatEngineVersion(version))).toEqual(version);
+
+    setActiveRules(loadRulesFromDirectory().slice(1));
+    expect(getRulesetHash()).not.toBe(version.rules);
+
+    setActiveRules(loadRulesFromDirectory());
+    expect(getRulesetHash()).toBe(version.rules);
+
+    setScoringModel(trainScoringModel([
+      { features: { a: 1 }, benign: true },
+      { features: { a: 1 }, benign: false }
+    ], { minFeatureCount: 1 }, new Date('2026-01-02T03:04:05Z')));
+    expect(formatEngineVersion()).toBe(`rules:${version.rules}/scorer:${version.scorer}/model:lr-20260102030405`);
+  });
+
+  it('should re-score rows of another scorer or model and rescan rows of other rules', () => {
+    const current = getEngineVersion();
+    const otherModel = formatEngineVersion({ ...current, model: 'lr-20250101000000' });
+    const otherRules = formatEngineVersion({ ...current, rules: '000000000000' });
+
+    expect(getCacheFreshness(formatEngineVersion(current), false, current)).toBe('current');
+    expect(getCacheFreshness(otherModel, true, current)).toBe('rescore');
+    expect(getCacheFreshness(formatEngineVersion({ ...current, scorer: current.scorer + 1 }), true, current)).toBe('rescore');
+    expect(getCacheFreshness(otherModel, false, current)).toBe('stale');
+    expect(getCacheFreshness(otherRules, true, current)).toBe('stale');
+    expect(getCacheFreshness(null, true, current)).toBe('stale');
+  });
+});
@@ -0,0 +1,53 @@
+import { getRulesetHash } from './ruleEngine.js';
+import { SCORER_VERSION } from './scoring.js';
+import { getScoringModel } from './scoringModel.js';
+
+/**
+ * Version of the engine a verdict was produced with: the heuristic ruleset hash, the scorer
+ * version and the scoring model. It is stored with each scan (url_verdicts.engine_version),
+ * so cached verdicts of an older engine are not served as if nothing had changed.
+ */
+
+export type EngineVersion = {
+  rules: string; // Ruleset hash
+  scorer: number;
+  model: string; // Scoring model version, or 'weights' for the finding weights
+};
+
+// How a cached row relates to the running engine
+export type CacheFreshness =
+  | 'current' // Same engine
+  | 'rescore' // Same rules, other scorer or model: re-score the stored raw findings
+  | 'stale'; // Findings came from other rules (or are not stored): scan again
+
+export function getEngineVersion(): EngineVersion {
+  return {
+    rules: getRulesetHash(),
+    scorer: SCORER_VERSION,
+    model: getScoringModel()?.version ?? 'weights'
+  };
+}
+
+export function formatEngineVersion(version: EngineVersion = getEngineVersion()): string {
+  return `rules:${version.rules}/scorer:${version.scorer}/model:${version.model}`;
+}
+
+export function parseEngineVersion(value: string): EngineVersion | null {
+  const match = /^rules:([^/]*)\/scorer:(\d+)\/model:(.+)$/.exec(value);
+  return match ? { rules: match[1], scorer: Number(match[2]), model: match[3] } : null;
+}
+
+/**
+ * Decide whether a cached row can be served as stored, re-scored, or must be scanned again
+ */
+export function getCacheFreshness(
+  storedVersion: string | null,
+  hasRawFindings: boolean,
+  current: EngineVersion = getEngineVersion()
+): CacheFreshness {
+  if (storedVersion === formatEngineVersion(current)) {
+    return 'current';
+  }
+  const stored = storedVersion ? parseEngineVersion(storedVersion) : null;
+  return stored && stored.rules === current.rules && hasRawFindings ? 'rescore' : 'stale';
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffReports, evaluateCorpus, parseCorpus } from './evaluation.js';
+
+describe('Detection quality evaluation', () => {
+  const corpus = [
+    'url,label,text',
+    'https://github.com/nodejs/node,benign,Node.js',
+    'http://example-bakery.com/menu,legitimate,"Menu, prices"',
+    'https://paypa1.com/signin,phishing,PayPal',
+    'https://cdn-files.xyz/invoice.pdf.exe,malware,Invoice',
+    'https://example.com/x,spam,Spam',
+    'not a url,benign,Broken'
+  ].join('\n');
+
+  it('should parse labeled corpora and report invalid lines', () => {
+    const { entries, errors } = parseCorpus(corpus, 'csv');
+    expect(entries).toHaveLength(4);
+    expect(entries[1]).toEqual({ url: 'http://example-bakery.com/menu', label: 'benign', text: 'Menu, prices' });
+    expect(errors).toEqual(['line 6: unknown label "spam"', 'line 7: invalid url "not a url"']);
+
+    const jsonl = parseCorpus('{"url": "https://paypa1.com/", "label": "phish"}\n{oops', 'jsonl');
+    expect(jsonl.entries).toEqual([{ url: 'https://paypa1.com/', label: 'phishing' }]);
+    expect(jsonl.errors).toEqual(['line 2: invalid JSON']);
+  });
+
+  it('should measure verdicts against the labels', () => {
+    const report = evaluateCorpus(parseCorpus(corpus, 'csv').entries);
+    const suspiciousOrWorse = report.operatingPoints.find(point => point.flaggedAs === 'SUSPICIOUS+')!;
+
+    expect(report.total).toBe(4);
+    expect(report.confusionMatrix.phishing.SAFE + report.confusionMatrix.malware.SAFE).toBe(0);
+    expect(suspiciousOrWorse).toMatchObject({ truePositives: 2, falseNegatives: 0, recall: 1 });
+    expect(suspiciousOrWorse.recallByLabel).toEqual({ phishing: 1, malware: 1 });
+    expect(report.thresholdSweep[0]).toMatchObject({ threshold: 0, truePositiveRate: 0, falsePositiveRate: 0 });
+    expect(report.thresholdSweep[report.thresholdSweep.length - 1]).toMatchObject({ threshold: 1, truePositiveRate: 1 });
+    expect(report.auc).toBeGreaterThan(0.5);
+  });
+
+  it('should diff misclassifications against a baseline', () => {
+    const baseline = evaluateCorpus(parseCorpus(corpus, 'csv').entries);
+    const current = structuredClone(baseline);
+    const phishing = current.entries.find(entry => entry.label === 'phishing')!;
+    phishing.category = 'SAFE';
+
+    const diff = diffReports(baseline, current);
+    expect(diff.newMisclassifications.map(entry => entry.url)).toEqual(['https://paypa1.com/signin']);
+    expect(diff.fixedMisclassifications).toEqual([]);
+    expect(diff.changedCategories).toHaveLength(1);
+    expect(diffReports(current, baseline).fixedMisclassifications.map(entry => entry.url)).toEqual(['https://paypa1.com/signin']);
+  });
+});
@@ -0,0 +1,404 @@
+import type { LinkMeta } from '../../shared/types.js';
+import { calculateHeuristics } from './heuristics.js';
+import { calculateTrustScore, categorizeTrust, type TrustCategory } from './scoring.js';
+import { BALANCED_PROFILE, type ScoringProfile } from './scoringProfiles.js';
+
+/**
+ * Offline detection-quality evaluation: scores a labeled URL corpus with the heuristics
+ * alone (no external providers, no LLMs) and measures how well the verdicts separate
+ * benign links from phishing and malware. Run it with `npm run evaluate`.
+ */
+
+export type CorpusLabel = 'benign' | 'phishing' | 'malware';
+
+export type CorpusEntry = {
+  url: string;
+  label: CorpusLabel;
+  text?: string; // Link text, for the text/href checks
+};
+
+export type EvaluatedEntry = CorpusEntry & {
+  trustScore: number;
+  category: TrustCategory;
+  findings: string[]; // Finding codes
+};
+
+export type BinaryMetrics = {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+export type OperatingPoint = BinaryMetrics & {
+  flaggedAs: 'SUSPICIOUS+' | 'DANGEROUS'; // Verdicts counted as a detection
+  recallByLabel: Record<Exclude<CorpusLabel, 'benign'>, number>;
+};
+
+export type ThresholdPoint = {
+  threshold: number; // Links scoring below it are flagged
+  truePositiveRate: number;
+  falsePositiveRate: number;
+  precision: number;
+  f1: number;
+};
+
+export type EvaluationReport = {
+  profile: string;
+  total: number;
+  confusionMatrix: Record<CorpusLabel, Record<TrustCategory, number>>;
+  operatingPoints: OperatingPoint[];
+  thresholdSweep: ThresholdPoint[];
+  auc: number;
+  entries: EvaluatedEntry[];
+};
+
+export type ReportDiff = {
+  newMisclassifications: EvaluatedEntry[];
+  fixedMisclassifications: EvaluatedEntry[];
+  changedCategories: Array<{ url: string; label: CorpusLabel; from: TrustCategory; to: TrustCategory }>;
+  metricDeltas: Array<{ flaggedAs: OperatingPoint['flaggedAs']; precision: number; recall: number; f1: number }>;
+  aucDelta: number;
+};
+
+export const CORPUS_LABELS: readonly CorpusLabel[] = ['benign', 'phishing', 'malware'];
+const CATEGORIES: readonly TrustCategory[] = ['SAFE', 'SUSPICIOUS', 'DANGEROUS'];
+const SWEEP_STEP = 0.05;
+
+// Common names for the labels in public feeds ('legitimate', 'phish', 'malicious' ...)
+const LABEL_ALIASES: Record<string, CorpusLabel> = {
+  benign: 'benign',
+  legitimate: 'benign',
+  safe: 'benign',
+  good: 'benign',
+  phishing: 'phishing',
+  phish: 'phishing',
+  malware: 'malware',
+  malicious: 'malware'
+};
+
+/**
+ * Split a CSV line into fields, honouring double-quoted fields with escaped quotes ("")
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+function toCorpusEntry(url: unknown, label: unknown, text: unknown): CorpusEntry | string {
+  if (typeof url !== 'string' || url.length === 0) return 'missing url';
+  const normalizedLabel = typeof label === 'string' ? LABEL_ALIASES[label.trim().toLowerCase()] : undefined;
+  if (!normalizedLabel) return `unknown label "${String(label)}"`;
+  try {
+    new URL(url);
+  } catch {
+    return `invalid url "${url.slice(0, 80)}"`;
+  }
+  const entry: CorpusEntry = { url, label: normalizedLabel };
+  if (typeof text === 'string' && text.length > 0) {
+    entry.text = text;
+  }
+  return entry;
+}
+
+/**
+ * Parse a labeled corpus: JSONL ({"url", "label", "text"?} per line) or CSV with a header
+ * row naming `url` and `label` columns (and optionally `text`). Invalid lines are reported
+ * with their line number instead of failing the whole corpus.
+ */
+export function parseCorpus(content: string, format: 'csv' | 'jsonl'): { entries: CorpusEntry[]; errors: string[] } {
+  const entries: CorpusEntry[] = [];
+  const errors: string[] = [];
+  const lines = content.split(/\r?\n/);
+
+  let columns: Record<string, number> | null = null;
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.trim().length === 0 || line.trim().startsWith('#')) return;
+
+    let result: CorpusEntry | string;
+    if (format === 'jsonl') {
+      try {
+        const row = JSON.parse(line);
+        result = toCorpusEntry(row.url, row.label, row.text);
+      } catch {
+        result = 'invalid JSON';
+      }
+    } else if (!columns) {
+      const header = parseCsvLine(line).map(name => name.toLowerCase());
+      columns = Object.fromEntries(header.map((name, position) => [name, position]));
+      if (columns.url === undefined || columns.label === undefined) {
+        throw new Error('CSV header must name "url" and "label" columns');
+      }
+      return;
+    } else {
+      const fields = parseCsvLine(line);
+      result = toCorpusEntry(fields[columns.url], fields[columns.label], columns.text !== undefined ? fields[columns.text] : undefined);
+    }
+
+    if (typeof result === 'string') {
+      errors.push(`line ${lineNumber}: ${result}`);
+    } else {
+      entries.push(result);
+    }
+  });
+
+  return { entries, errors };
+}
+
+function toLink(entry: CorpusEntry): LinkMeta {
+  let targetDomain = '';
+  try {
+    targetDomain = new URL(entry.url).hostname;
+  } catch {
+    // calculateHeuristics reports invalid_url
+  }
+  return { href: entry.url, text: entry.text || '', targetDomain };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function toBinaryMetrics(entries: EvaluatedEntry[], isFlagged: (entry: EvaluatedEntry) => boolean): BinaryMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let trueNegatives = 0;
+  let falseNegatives = 0;
+
+  for (const entry of entries) {
+    const malicious = entry.label !== 'benign';
+    const flagged = isFlagged(entry);
+    if (malicious && flagged) truePositives++;
+    else if (malicious) falseNegatives++;
+    else if (flagged) falsePositives++;
+    else trueNegatives++;
+  }
+
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+  return {
+    truePositives,
+    falsePositives,
+    trueNegatives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall)
+  };
+}
+
+/**
+ * Check whether a verdict counts as a miss: a malicious link let through as SAFE,
+ * or a benign one flagged
+ */
+export function isMisclassified(entry: EvaluatedEntry): boolean {
+  return (entry.label === 'benign') !== (entry.category === 'SAFE');
+}
+
+/**
+ * Area under the ROC curve: the probability that a malicious link scores below a benign one
+ */
+function calculateAuc(entries: EvaluatedEntry[]): number {
+  const malicious = entries.filter(entry => entry.label !== 'benign').map(entry => entry.trustScore);
+  const benign = entries.filter(entry => entry.label === 'benign').map(entry => entry.trustScore);
+  if (malicious.length === 0 || benign.length === 0) return 0;
+
+  let wins = 0;
+  for (const maliciousScore of malicious) {
+    for (const benignScore of benign) {
+      if (maliciousScore < benignScore) wins += 1;
+      else if (maliciousScore === benignScore) wins += 0.5;
+    }
+  }
+  return wins / (malicious.length * benign.length);
+}
+
+/**
+ * Score every corpus entry offline and measure the results
+ */
+export function evaluateCorpus(corpus: CorpusEntry[], profile: ScoringProfile = BALANCED_PROFILE): EvaluationReport {
+  const entries: EvaluatedEntry[] = corpus.map(entry => {
+    const heuristics = calculateHeuristics(toLink(entry));
+    const { trustScore } = calculateTrustScore(heuristics.findings, heuristics.flags, undefined, profile);
+    return {
+      ...entry,
+      trustScore: Math.round(trustScore * 1000) / 1000,
+      category: categorizeTrust(trustScore, profile),
+      findings: heuristics.findings.map(finding => finding.code)
+    };
+  });
+
+  const confusionMatrix = Object.fromEntries(
+    CORPUS_LABELS.map(label => [label, Object.fromEntries(CATEGORIES.map(category => [category, 0]))])
+  ) as EvaluationReport['confusionMatrix'];
+  for (const entry of entries) {
+    confusionMatrix[entry.label][entry.category]++;
+  }
+
+  const operatingPoints: OperatingPoint[] = (['SUSPICIOUS+', 'DANGEROUS'] as const).map(flaggedAs => {
+    const isFlagged = (entry: EvaluatedEntry) => (flaggedAs === 'DANGEROUS' ? entry.category === 'DANGEROUS' : entry.category !== 'SAFE');
+    const recallOf = (label: CorpusLabel) => {
+      const ofLabel = entries.filter(entry => entry.label === label);
+      return ratio(ofLabel.filter(isFlagged).length, ofLabel.length);
+    };
+    return {
+      flaggedAs,
+      ...toBinaryMetrics(entries, isFlagged),
+      recallByLabel: { phishing: recallOf('phishing'), malware: recallOf('malware') }
+    };
+  });
+
+  const thresholdSweep: ThresholdPoint[] = [];
+  for (let step = 0; step <= Math.round(1 / SWEEP_STEP); step++) {
+    const threshold = Math.round(step * SWEEP_STEP * 100) / 100;
+    const metrics = toBinaryMetrics(entries, entry => entry.trustScore < threshold);
+    thresholdSweep.push({
+      threshold,
+      truePositiveRate: metrics.recall,
+      falsePositiveRate: ratio(metrics.falsePositives, metrics.falsePositives + metrics.trueNegatives),
+      precision: metrics.precision,
+      f1: metrics.f1
+    });
+  }
+
+  return {
+    profile: profile.name,
+    total: entries.length,
+    confusionMatrix,
+    operatingPoints,
+    thresholdSweep,
+    auc: calculateAuc(entries),
+    entries
+  };
+}
+
+/**
+ * Compare a report with a saved baseline: which links became (or stopped being)
+ * misclassified, which changed category and how the metrics moved
+ */
+export function diffReports(baseline: EvaluationReport, current: EvaluationReport): ReportDiff {
+  const baselineByUrl = new Map(baseline.entries.map(entry => [entry.url, entry]));
+  const diff: ReportDiff = {
+    newMisclassifications: [],
+    fixedMisclassifications: [],
+    changedCategories: [],
+    metricDeltas: current.operatingPoints.map(point => {
+      const before = baseline.operatingPoints.find(baselinePoint => baselinePoint.flaggedAs === point.flaggedAs);
+      return {
+        flaggedAs: point.flaggedAs,
+        precision: point.precision - (before?.precision ?? 0),
+        recall: point.recall - (before?.recall ?? 0),
+        f1: point.f1 - (before?.f1 ?? 0)
+      };
+    }),
+    aucDelta: current.auc - baseline.auc
+  };
+
+  for (const entry of current.entries) {
+    const before = baselineByUrl.get(entry.url);
+    if (!before) {
+      if (isMisclassified(entry)) diff.newMisclassifications.push(entry);
+      continue;
+    }
+    if (isMisclassified(entry) && !isMisclassified(before)) diff.newMisclassifications.push(entry);
+    if (!isMisclassified(entry) && isMisclassified(before)) diff.fixedMisclassifications.push(entry);
+    if (entry.category !== before.category) {
+      diff.changedCategories.push({ url: entry.url, label: entry.label, from: before.category, to: entry.category });
+    }
+  }
+
+  return diff;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number): string {
+  const points = value * 100;
+  return `${points >= 0 ? '+' : ''}${points.toFixed(1)} pts`;
+}
+
+function describeEntry(entry: EvaluatedEntry): string {
+  const findings = entry.findings.length > 0 ? entry.findings.join(', ') : 'no findings';
+  return `  [${entry.label} -> ${entry.category} ${entry.trustScore.toFixed(2)}] ${entry.url} (${findings})`;
+}
+
+/**
+ * Human-readable report for the terminal
+ */
+export function formatReport(report: EvaluationReport, diff?: ReportDiff): string {
+  const lines: string[] = [];
+  lines.push(`Evaluated ${report.total} URLs with the ${report.profile} profile (heuristics only)`, '');
+
+  lines.push('Confusion matrix (rows: label, columns: verdict)');
+  lines.push(`  ${'label'.padEnd(10)}${CATEGORIES.map(category => category.padStart(12)).join('')}`);
+  for (const label of CORPUS_LABELS) {
+    lines.push(`  ${label.padEnd(10)}${CATEGORIES.map(category => String(report.confusionMatrix[label][category]).padStart(12)).join('')}`);
+  }
+  lines.push('');
+
+  lines.push('Detection (phishing + malware vs benign)');
+  lines.push(`  ${'flagged as'.padEnd(13)}${['precision', 'recall', 'F1', 'phishing', 'malware'].map(name => name.padStart(11)).join('')}`);
+  for (const point of report.operatingPoints) {
+    const values = [point.precision, point.recall, point.f1, point.recallByLabel.phishing, point.recallByLabel.malware];
+    lines.push(`  ${point.flaggedAs.padEnd(13)}${values.map(value => formatPercent(value).padStart(11)).join('')}`);
+  }
+  lines.push('  (phishing/malware columns are the recall of each label)', '');
+
+  lines.push(`Threshold sweep (flagged when trust score < threshold), AUC ${report.auc.toFixed(3)}`);
+  lines.push(`  ${'threshold'.padEnd(11)}${['TPR', 'FPR', 'precision', 'F1'].map(name => name.padStart(11)).join('')}`);
+  for (const point of report.thresholdSweep) {
+    const values = [point.truePositiveRate, point.falsePositiveRate, point.precision, point.f1];
+    lines.push(`  ${point.threshold.toFixed(2).padEnd(11)}${values.map(value => formatPercent(value).padStart(11)).join('')}`);
+  }
+  lines.push('');
+
+  const misclassified = report.entries.filter(isMisclassified);
+  lines.push(`Misclassified: ${misclassified.length}`);
+  misclassified.forEach(entry => lines.push(describeEntry(entry)));
+
+  if (diff) {
+    lines.push('', 'Compared with the baseline');
+    for (const delta of diff.metricDeltas) {
+      lines.push(`  ${delta.flaggedAs}: precision ${formatDelta(delta.precision)}, recall ${formatDelta(delta.recall)}, F1 ${formatDelta(delta.f1)}`);
+    }
+    lines.push(`  AUC ${diff.aucDelta >= 0 ? '+' : ''}${diff.aucDelta.toFixed(3)}`);
+    lines.push(`  New misclassifications: ${diff.newMisclassifications.length}`);
+    diff.newMisclassifications.forEach(entry => lines.push(describeEntry(entry)));
+    lines.push(`  Fixed misclassifications: ${diff.fixedMisclassifications.length}`);
+    diff.fixedMisclassifications.forEach(entry => lines.push(describeEntry(entry)));
+    lines.push(`  Changed categories: ${diff.changedCategories.length}`);
+    diff.changedCategories.forEach(change => lines.push(`  [${change.label}] ${change.url}: ${change.from} -> ${change.to}`));
+  }
+
+  return lines.join('\n');
+}
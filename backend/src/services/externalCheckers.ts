@@ -1,5 +1,7 @@
-import type { LinkMeta } from '../../shared/types.js';
+import type { Finding, LinkMeta } from '../../shared/types.js';
 import { isTrustedDomain } from './heuristics.js';
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
+import { createFinding } from './findings.js';
 
 export interface ExternalCheckResult {
   source: string;
@@ -14,6 +16,7 @@ export interface AggregatedCheckResult {
   confidence: number;
   sources: ExternalCheckResult[];
   threatCount: number;
+  findings: Finding[];
 }
 
 /**
@@ -126,7 +129,9 @@ async function checkURLVoid(url: string): Promise<ExternalCheckResult> {
   }
 
   try {
-    const domain = new URL(url).hostname;
+    // URLVoid reputation is per site, so query the registrable domain rather than the full host
+    const hostname = new URL(url).hostname;
+    const domain = getRegistrableDomain(hostname) || hostname;
     const response = await fetch(
       `https://api.urlvoid.com/v1/pay-as-you-go/?key=${apiKey}&host=${domain}&stats=1`
     );
@@ -183,6 +188,23 @@ async function checkPhishTank(url: string): Promise<ExternalCheckResult> {
   }
 }
 
+/**
+ * Turn service results into findings: one for the overall threat count
+ * and one per service that flagged the URL
+ */
+function getExternalFindings(results: ExternalCheckResult[], threatCount: number): Finding[] {
+  const findings: Finding[] = [];
+  if (threatCount > 0) {
+    findings.push(createFinding('external_threats', 'external', `${threatCount} service(s) flagged this URL`));
+  }
+  for (const result of results) {
+    if (!result.safe && result.details) {
+      findings.push(createFinding('external_source_flagged', 'external', `${result.source.toLowerCase()}: ${result.details}`));
+    }
+  }
+  return findings;
+}
+
 /**
  * Check URL with multiple external services in parallel
  * Speed optimization: Skip external checks for trusted domains.
@@ -199,7 +221,8 @@ export async function checkExternalServices(link: LinkMeta): Promise<AggregatedC
         confidence: 1.0,
         details: 'Renowned, trusted website - no external checks needed'
       }],
-      threatCount: 0
+      threatCount: 0,
+      findings: []
     };
   }
   
@@ -230,7 +253,8 @@ export async function checkExternalServices(link: LinkMeta): Promise<AggregatedC
     safe,
     confidence: Math.min(0.95, confidence),
     sources: results,
-    threatCount
+    threatCount,
+    findings: getExternalFindings(results, threatCount)
   };
 }
 
@@ -0,0 +1,136 @@
+import type { Finding, FindingSeverity, FindingSource } from '../../shared/types.js';
+
+/**
+ * Finding catalogue: default severity and trust score weight for every finding code,
+ * plus the legacy `issues` string projection used by older extension builds.
+ * Declarative rules (rules/*.yaml) may override the defaults for the codes they emit.
+ */
+
+type FindingDefinition = {
+  severity: FindingSeverity;
+  weight: number;
+  // Prefix of the legacy issue string ('PHISHING_RISK: ...'), defaults to the code.
+  // null means the evidence is used on its own.
+  legacyPrefix?: string | null;
+};
+
+const FINDING_DEFINITIONS: Record<string, FindingDefinition> = {
+  // Impersonation - older extension builds look for 'PHISHING_RISK' in the issue text
+  typosquatting: { severity: 'critical', weight: 0.50, legacyPrefix: 'PHISHING_RISK' },
+  idn_homograph: { severity: 'critical', weight: 0.50, legacyPrefix: 'PHISHING_RISK' },
+  brand_in_subdomain: { severity: 'critical', weight: 0.50, legacyPrefix: 'PHISHING_RISK' },
+  brand_in_path: { severity: 'high', weight: 0.20 },
+  text_href_mismatch: { severity: 'high', weight: 0.35 },
+  brand_in_query: { severity: 'medium', weight: 0.12 },
+  mixed_script_domain: { severity: 'high', weight: 0.25 },
+  punycode: { severity: 'medium', weight: 0.18 },
+
+  // URL structure
+  no_https: { severity: 'medium', weight: 0.20 },
+  short_url: { severity: 'low', weight: 0.12 },
+  suspicious_tld: { severity: 'medium', weight: 0.15 },
+  generated_domain: { severity: 'high', weight: 0.25 },
+  ip_address: { severity: 'medium', weight: 0.15 },
+  suspicious_params: { severity: 'low', weight: 0.10 },
+  encoded_url: { severity: 'low', weight: 0.08 },
+  invalid_url: { severity: 'high', weight: 0.25 },
+  deep_path: { severity: 'info', weight: 0 },
+  non_standard_port: { severity: 'low', weight: 0 },
+  very_short_domain: { severity: 'info', weight: 0 },
+  dangerous_protocol: { severity: 'high', weight: 0 },
+  redirect_chain: { severity: 'info', weight: 0 },
+  embedded_url: { severity: 'low', weight: 0.05 },
+  obfuscated_embedded_url: { severity: 'medium', weight: 0.12 },
+  redirect_chain_too_long: { severity: 'medium', weight: 0.10 },
+
+  // URL obfuscation (urlObfuscation.ts)
+  userinfo_in_url: { severity: 'high', weight: 0.35 },
+  host_confusion: { severity: 'high', weight: 0.35 },
+  numeric_ip_host: { severity: 'high', weight: 0.30 },
+  percent_encoded_host: { severity: 'high', weight: 0.30 },
+  ipv6_host: { severity: 'medium', weight: 0.15 },
+  excessive_subdomains: { severity: 'medium', weight: 0.12 },
+
+  // Private-network targets linked from public pages (privateNetwork.ts)
+  private_network_target: { severity: 'high', weight: 0.30 },
+  private_dns_resolution: { severity: 'high', weight: 0.30 },
+
+  // Non-web schemes (schemeRisk.ts, shared/schemeRegistry.ts)
+  dangerous_scheme_handler: { severity: 'critical', weight: 0.50 },
+  file_share_link: { severity: 'high', weight: 0.35 },
+  premium_rate_number: { severity: 'high', weight: 0.35 },
+  blob_url: { severity: 'medium', weight: 0.20 },
+  intent_fallback_url: { severity: 'medium', weight: 0.15 },
+  android_intent: { severity: 'low', weight: 0.05 },
+  unknown_scheme: { severity: 'low', weight: 0.05 },
+
+  // Downloads (downloadRisk.ts)
+  double_extension_download: { severity: 'critical', weight: 0.50 },
+  executable_download: { severity: 'high', weight: 0.30 },
+  archive_lure_download: { severity: 'high', weight: 0.25 },
+  disk_image_download: { severity: 'medium', weight: 0.20 },
+
+  // Link markup and text
+  target_blank_without_noopener: { severity: 'info', weight: 0 },
+  download_attribute: { severity: 'low', weight: 0 },
+  example_placeholder_domain: { severity: 'info', weight: 0 },
+  suspicious_link_text: { severity: 'low', weight: 0 },
+
+  // Database allow/deny lists
+  denylisted_domain: { severity: 'critical', weight: 1.0 },
+  allowlisted_domain: { severity: 'info', weight: 0 },
+
+  // External reputation services
+  external_threats: { severity: 'critical', weight: 0.30 },
+  external_source_flagged: { severity: 'high', weight: 0, legacyPrefix: null },
+
+  // AI stages (the AI verdict adjusts the score itself, so these carry no weight)
+  ai_click_behavior: { severity: 'info', weight: 0, legacyPrefix: 'AI' },
+  ai_risk_tag: { severity: 'info', weight: 0 }
+};
+
+const UNKNOWN_FINDING: FindingDefinition = { severity: 'low', weight: 0 };
+
+/**
+ * Check whether a finding code is in the catalogue
+ */
+export function isKnownFindingCode(code: string): boolean {
+  return code in FINDING_DEFINITIONS;
+}
+
+/**
+ * Build a finding with the catalogue's default severity and weight for its code
+ */
+export function createFinding(code: string, source: FindingSource, evidence?: string): Finding {
+  const definition = FINDING_DEFINITIONS[code] || UNKNOWN_FINDING;
+  const finding: Finding = { code, severity: definition.severity, weight: definition.weight, source };
+  if (evidence) {
+    finding.evidence = evidence;
+  }
+  return finding;
+}
+
+/**
+ * Legacy issue string for a finding ('no_https', 'PHISHING_RISK: Possible typosquatting of ...')
+ */
+export function findingToIssue(finding: Finding): string {
+  const definition = FINDING_DEFINITIONS[finding.code];
+  const prefix = definition?.legacyPrefix === undefined ? finding.code : definition.legacyPrefix;
+
+  if (!finding.evidence) return prefix || finding.code;
+  return prefix ? `${prefix}: ${finding.evidence}` : finding.evidence;
+}
+
+/**
+ * Backward-compatible `issues` projection of a list of findings
+ */
+export function findingsToIssues(findings: Finding[]): string[] {
+  return findings.map(findingToIssue);
+}
+
+/**
+ * Check whether a finding with the given code is present
+ */
+export function hasFinding(findings: Finding[], code: string): boolean {
+  return findings.some(finding => finding.code === code);
+}
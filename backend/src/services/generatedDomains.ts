@@ -0,0 +1,118 @@
+import { BIGRAM_ALPHABET, BIGRAM_LOG_PROBS } from './bigramModel.js';
+
+/**
+ * Detection of algorithmically generated domain labels (DGA, throwaway phishing
+ * domains like "xkq7zp2vt9.top"). Works offline from the bundled bigram model.
+ */
+
+export interface LabelRandomness {
+  score: number; // 0 (reads like words) .. 1 (looks random)
+  entropy: number; // Shannon entropy in bits per character
+  longestConsonantRun: number;
+  digitRatio: number;
+  bigramLogLikelihood: number; // Average log10 P(next | previous) of the letters
+  length: number;
+}
+
+// Labels shorter than this are mostly abbreviations ("bbc", "anaf", "olx")
+const MIN_LABEL_LENGTH = 7;
+export const GENERATED_LABEL_THRESHOLD = 0.6;
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u', 'y']);
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function longestConsonantRun(label: string): number {
+  let longest = 0;
+  let current = 0;
+  for (const char of label) {
+    current = /[a-z]/.test(char) && !VOWELS.has(char) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+/**
+ * Average bigram log-likelihood of the letters in a label. Digits are dropped
+ * ("digi24" -> "digi") and hyphens separate words.
+ */
+function bigramLogLikelihood(label: string): number {
+  let total = 0;
+  let transitions = 0;
+
+  for (const word of label.replace(/[^a-z-]/g, '').split('-').filter(Boolean)) {
+    const chars = `^${word}$`;
+    for (let i = 0; i < chars.length - 1; i++) {
+      total += BIGRAM_LOG_PROBS[BIGRAM_ALPHABET.indexOf(chars[i])][BIGRAM_ALPHABET.indexOf(chars[i + 1])];
+      transitions++;
+    }
+  }
+
+  return transitions > 0 ? total / transitions : 0;
+}
+
+/**
+ * Measure how random a single domain label (no dots) looks
+ */
+export function measureLabelRandomness(label: string): LabelRandomness {
+  const normalized = label.toLowerCase();
+  const length = normalized.length;
+  const entropy = shannonEntropy(normalized);
+  const consonantRun = longestConsonantRun(normalized);
+  const digitRatio = length > 0 ? (normalized.match(/\d/g) || []).length / length : 0;
+  const likelihood = bigramLogLikelihood(normalized);
+
+  // Each feature maps to 0..1 between "typical word" and "typical random string"
+  const likelihoodScore = clamp((-likelihood - 1.3) / 0.6);
+  const entropyScore = clamp((entropy - 2.6) / 0.8);
+  const consonantScore = clamp((consonantRun - 3) / 3);
+  // A trailing number ("digi24", "shop2") is common; digits scattered through the label are not
+  const digitScore = /^[a-z-]+\d{1,4}$/.test(normalized) ? 0 : clamp(digitRatio / 0.25);
+  const lengthScore = clamp((length - 8) / 12);
+
+  const score = clamp(
+    likelihoodScore * 0.4 +
+    entropyScore * 0.15 +
+    consonantScore * 0.2 +
+    digitScore * 0.2 +
+    lengthScore * 0.05
+  );
+
+  return {
+    score: Math.round(score * 100) / 100,
+    entropy: Math.round(entropy * 100) / 100,
+    longestConsonantRun: consonantRun,
+    digitRatio: Math.round(digitRatio * 100) / 100,
+    bigramLogLikelihood: Math.round(likelihood * 100) / 100,
+    length
+  };
+}
+
+/**
+ * Randomness of a label that looks machine-generated, or null if it reads like
+ * words (or is too short to tell)
+ */
+export function detectGeneratedLabel(label: string): LabelRandomness | null {
+  if (label.length < MIN_LABEL_LENGTH || label.startsWith('xn--')) {
+    return null;
+  }
+
+  const randomness = measureLabelRandomness(label);
+  return randomness.score >= GENERATED_LABEL_THRESHOLD ? randomness : null;
+}
@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import { sanitizeForGpt } from '../utils/sanitize.js';
-import type { LinkMeta } from '../../shared/types.js';
+import type { Finding, LinkMeta } from '../../shared/types.js';
+import { createFinding } from './findings.js';
 
 // Lazy initialization - only create client when needed and key is valid
 function getOpenAIClient(): OpenAI | null {
@@ -27,7 +28,7 @@ interface HeuristicsResult {
   flags: Record<string, boolean>;
 }
 
-interface GptAnalysisResult {
+export interface GptAnalysisResult {
   summary: string;
   recommendation: string;
   concise_risk_tags: string[];
@@ -140,3 +141,10 @@ export async function getGptAnalysis(
   }
 }
 
+
+/**
+ * Findings reported by a GPT analysis (one per risk tag)
+ */
+export function getGptFindings(result: GptAnalysisResult): Finding[] {
+  return (result.concise_risk_tags || []).map(tag => createFinding('ai_risk_tag', 'ai', tag));
+}
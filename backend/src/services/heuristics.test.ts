@@ -1,5 +1,6 @@
 import { describe, it, expect } from '@jest/globals';
-import { calculateHeuristics } from './heuristics.js';
+import { calculateHeuristics, isTrustedDomain } from './heuristics.js';
+import { calculateTrustScore, categorizeTrust } from './scoring.js';
 import type { LinkMeta } from '../../shared/types.js';
 
 describe('Heuristics calculation', () => {
@@ -27,15 +28,253 @@ describe('Heuristics calculation', () => {
   
   it('should detect punycode', () => {
     const link: LinkMeta = {
-      href: 'https://xn--example.com',
+      href: 'https://xn--mnchen-3ya.de',
       text: 'Punycode',
-      targetDomain: 'xn--example.com'
+      targetDomain: 'xn--mnchen-3ya.de'
     };
     
     const result = calculateHeuristics(link);
     expect(result.issues).toContain('punycode');
+    expect(result.issues).not.toContain('mixed_script_domain');
   });
   
+  it('should name the brand spoofed by an IDN homograph', () => {
+    const link: LinkMeta = {
+      href: 'https://аррӏе.com/login',
+      text: 'Apple ID',
+      targetDomain: 'xn--80ak6aa92e.com'
+    };
+    
+    const result = calculateHeuristics(link);
+    const phishingIssue = result.issues.find(issue => issue.startsWith('PHISHING_RISK'));
+    expect(phishingIssue).toContain('IDN homograph of "apple.com"');
+  });
+  
+  it('should detect mixed-script labels', () => {
+    const link: LinkMeta = {
+      href: 'https://gооgle.com',
+      text: 'Google',
+      targetDomain: 'xn--ggle-55da.com'
+    };
+    
+    const result = calculateHeuristics(link);
+    expect(result.issues).toContain('mixed_script_domain');
+    expect(result.issues.some(issue => issue.includes('"google.com"'))).toBe(true);
+  });
+  
+  it('should detect a brand domain used as a subdomain', () => {
+    const link: LinkMeta = {
+      href: 'https://paypal.com.account-verify.xyz/signin',
+      text: 'PayPal',
+      targetDomain: 'paypal.com.account-verify.xyz'
+    };
+    
+    const result = calculateHeuristics(link);
+    expect(result.issues).toContain('PHISHING_RISK: "paypal.com" appears in the subdomain "paypal.com" of account-verify.xyz');
+  });
+
+  it('should emit typed, weighted findings', () => {
+    const link: LinkMeta = {
+      href: 'http://rnicrosoft.com/login',
+      text: 'Microsoft',
+      targetDomain: 'rnicrosoft.com'
+    };
+
+    const result = calculateHeuristics(link);
+    const typosquat = result.findings.find(finding => finding.code === 'typosquatting');
+    expect(typosquat).toMatchObject({ severity: 'critical', weight: 0.5, source: 'heuristics' });
+    expect(typosquat?.evidence).toContain('"microsoft"');
+    expect(result.findings.find(finding => finding.code === 'no_https')?.weight).toBeGreaterThan(0);
+    // Legacy projection keeps the strings older extension builds look for
+    expect(result.issues).toContain('no_https');
+    expect(result.issues.some(issue => issue.startsWith('PHISHING_RISK: Possible typosquatting of "microsoft"'))).toBe(true);
+  });
+
+  it('should detect brands in path segments', () => {
+    const link: LinkMeta = {
+      href: 'https://login-secure.net/microsoft/office365/',
+      text: 'Sign in',
+      targetDomain: 'login-secure.net'
+    };
+    
+    const result = calculateHeuristics(link);
+    expect(result.issues.some(issue => issue.startsWith('brand_in_path: "microsoft"'))).toBe(true);
+  });
+  
+  it('should not flag a brand on its own site', () => {
+    const link: LinkMeta = {
+      href: 'https://support.apple.com/apple-pay?ref=apple',
+      text: 'Apple Pay',
+      targetDomain: 'support.apple.com'
+    };
+    
+    const result = calculateHeuristics(link);
+    expect(result.issues.some(issue => issue.includes('apple'))).toBe(false);
+  });
+
+  it('should not flag brands with similar names as typosquatting each other', () => {
+    for (const href of ['https://en.wikipedia.org/wiki/Phishing', 'https://www.wikimedia.org/']) {
+      const link: LinkMeta = { href, text: 'Wiki', targetDomain: new URL(href).hostname };
+
+      const result = calculateHeuristics(link);
+      expect(result.findings.some(finding => finding.code === 'typosquatting')).toBe(false);
+      expect(categorizeTrust(calculateTrustScore(result.findings, result.flags).trustScore)).toBe('SAFE');
+    }
+  });
+
+  it('should detect link text showing a different domain than the href', () => {
+    const link: LinkMeta = {
+      href: 'https://secure-login.xyz/mybank',
+      text: 'https://www.mybank.com/login',
+      targetDomain: 'secure-login.xyz'
+    };
+
+    const result = calculateHeuristics(link);
+    const mismatch = result.findings.find(finding => finding.code === 'text_href_mismatch');
+    expect(mismatch?.severity).toBe('high');
+    expect(mismatch?.evidence).toBe('Link text shows mybank.com but the link goes to secure-login.xyz');
+  });
+
+  it('should detect URLs embedded in open-redirect parameters', () => {
+    const plain = calculateHeuristics({
+      href: 'https://www.google.com/url?q=https://evil-login.xyz/signin',
+      text: 'Google',
+      targetDomain: 'www.google.com'
+    });
+    const doubleEncoded = calculateHeuristics({
+      href: 'https://example-mail.com/out?next=https%253A%252F%252Fevil-login.xyz%252F',
+      text: 'Continue',
+      targetDomain: 'example-mail.com'
+    });
+    const base64 = calculateHeuristics({
+      href: `https://example-mail.com/out?u=${Buffer.from('https://evil-login.xyz/signin').toString('base64')}`,
+      text: 'Continue',
+      targetDomain: 'example-mail.com'
+    });
+
+    expect(plain.issues).toContain('embedded_url: "q" parameter points to evil-login.xyz');
+    expect(doubleEncoded.issues).toContain('obfuscated_embedded_url: "next" parameter points to evil-login.xyz (percent-encoded)');
+    expect(base64.issues).toContain('obfuscated_embedded_url: "u" parameter points to evil-login.xyz (base64)');
+  });
+
+  it('should not treat matching domains or file names in link text as a mismatch', () => {
+    const sameSite = calculateHeuristics({
+      href: 'https://blog.example-shop.com/post',
+      text: 'Read it on www.example-shop.com.',
+      targetDomain: 'blog.example-shop.com'
+    });
+    const fileName = calculateHeuristics({
+      href: 'https://example-docs.net/readme',
+      text: 'See README.md',
+      targetDomain: 'example-docs.net'
+    });
+
+    expect(sameSite.findings.some(finding => finding.code === 'text_href_mismatch')).toBe(false);
+    expect(fileName.findings.some(finding => finding.code === 'text_href_mismatch')).toBe(false);
+  });
+
+  it('should detect algorithmically generated domains', () => {
+    const generated = calculateHeuristics({
+      href: 'https://xkq7zp2vt9.shop/login',
+      text: 'Login',
+      targetDomain: 'xkq7zp2vt9.shop'
+    });
+    const finding = generated.findings.find(f => f.code === 'generated_domain');
+    expect(finding?.severity).toBe('high');
+    expect(finding?.evidence).toContain('"xkq7zp2vt9" looks randomly generated');
+
+    // Real words in English or Romanian, with or without a trailing number
+    for (const domain of ['stackoverflow.com', 'bancatransilvania.ro', 'libertatea.ro', 'secure-update2024.com']) {
+      const result = calculateHeuristics({ href: `https://${domain}/`, text: 'Link', targetDomain: domain });
+      expect(result.findings.some(f => f.code === 'generated_domain')).toBe(false);
+    }
+  });
+
+  it('should detect dangerous downloads', () => {
+    const codesOf = (link: LinkMeta) => calculateHeuristics(link).findings.map(f => f.code);
+
+    expect(codesOf({ href: 'https://files-host.net/setup.exe', text: 'Download', targetDomain: 'files-host.net' }))
+      .toContain('executable_download');
+    expect(codesOf({ href: 'https://files-host.net/d/123', text: 'Download', targetDomain: 'files-host.net', download: 'update.iso' }))
+      .toContain('disk_image_download');
+    expect(codesOf({
+      href: 'https://files-host.net/get?response-content-disposition=attachment%3B%20filename%3D%22invoice.pdf.exe%22',
+      text: 'Invoice',
+      targetDomain: 'files-host.net'
+    })).toContain('double_extension_download');
+    expect(codesOf({ href: 'https://files-host.net/f/8812.zip', text: 'Factura_2024.pdf', targetDomain: 'files-host.net' }))
+      .toContain('archive_lure_download');
+
+    const doubleExtension = calculateHeuristics({ href: 'https://files-host.net/invoice.pdf.exe', text: 'Invoice', targetDomain: 'files-host.net' });
+    expect(doubleExtension.findings.find(f => f.code === 'double_extension_download')?.evidence)
+      .toBe('"invoice.pdf.exe" hides a .exe file behind a .pdf extension');
+    expect(doubleExtension.findings.some(f => f.code === 'executable_download')).toBe(false);
+
+    // Scripts a browser only displays, archives without a document claim, installers on trusted sites
+    expect(codesOf({ href: 'https://cdn.files-host.net/app.min.js', text: 'app.min.js', targetDomain: 'cdn.files-host.net' }))
+      .not.toContain('executable_download');
+    expect(codesOf({ href: 'https://files-host.net/src-1.2.zip', text: 'Source code', targetDomain: 'files-host.net' }))
+      .not.toContain('archive_lure_download');
+    expect(codesOf({ href: 'https://github.com/org/app/releases/download/v1/setup.exe', text: 'Installer', targetDomain: 'github.com' }))
+      .not.toContain('executable_download');
+  });
+
+  it('should detect obfuscated hosts and show the real host', () => {
+    const evidenceOf = (link: LinkMeta, code: string) =>
+      calculateHeuristics(link).findings.find(f => f.code === code)?.evidence;
+
+    expect(evidenceOf({ href: 'https://paypal.com@evil.tld/login', text: 'PayPal', targetDomain: 'evil.tld' }, 'userinfo_in_url'))
+      .toBe('"paypal.com@" before the host is ignored - the link goes to evil.tld');
+    expect(evidenceOf({ href: 'http://192.168.1.1/', rawHref: 'http://3232235777/', text: 'Router', targetDomain: '192.168.1.1' }, 'numeric_ip_host'))
+      .toBe('"3232235777" is the IP address 192.168.1.1 in disguise');
+    expect(evidenceOf({ href: 'http://192.168.1.1/', rawHref: 'http://0xC0.0xA8.1.1/', text: 'Router', targetDomain: '192.168.1.1' }, 'numeric_ip_host'))
+      .toContain('192.168.1.1');
+    expect(evidenceOf({ href: 'http://[::ffff:c0a8:101]/', text: 'Router', targetDomain: '[::ffff:c0a8:101]' }, 'ipv6_host'))
+      .toBe('Link goes to the IPv6 address [::ffff:c0a8:101] (IPv4 192.168.1.1)');
+    expect(evidenceOf({
+      href: 'https://paypal.com.account.verify.secure.login.evil.tld/',
+      text: 'PayPal',
+      targetDomain: 'paypal.com.account.verify.secure.login.evil.tld'
+    }, 'excessive_subdomains')).toContain('the site is really evil.tld');
+    expect(evidenceOf({ href: 'https://evil.tld/paypal.com', rawHref: 'https://evil.tld\\paypal.com', text: 'PayPal', targetDomain: 'evil.tld' }, 'host_confusion'))
+      .toContain('browsers open evil.tld');
+    expect(evidenceOf({ href: 'https://evil.com/', rawHref: 'https://evil%2ecom/', text: 'Link', targetDomain: 'evil.com' }, 'percent_encoded_host'))
+      .toBe('Host "evil%2ecom" is percent-encoded and decodes to evil.com');
+
+    // A plain dotted-quad IP is an ip_address finding, not an obfuscated one
+    const plainIp = calculateHeuristics({ href: 'http://192.168.1.1/', rawHref: 'http://192.168.1.1', text: 'Router', targetDomain: '192.168.1.1' });
+    expect(plainIp.findings.map(f => f.code)).toContain('ip_address');
+    expect(plainIp.findings.some(f => f.code === 'numeric_ip_host')).toBe(false);
+  });
+
+  it('should score links that leave the web by their scheme', () => {
+    const findingsOf = (href: string, extra: Partial<LinkMeta> = {}) =>
+      calculateHeuristics({ href, text: 'Open', targetDomain: '', ...extra }).findings;
+    const evidenceOf = (href: string, code: string, extra: Partial<LinkMeta> = {}) =>
+      findingsOf(href, extra).find(f => f.code === code)?.evidence;
+
+    expect(findingsOf('ms-msdt:/id PCWDiagnostic /skip force').find(f => f.code === 'dangerous_scheme_handler'))
+      .toMatchObject({ severity: 'critical' });
+    expect(evidenceOf('search-ms:query=invoice&crumb=location:\\\\attacker-share.net\\docs', 'dangerous_scheme_handler'))
+      .toContain('"search-ms:" opens Windows Search');
+    expect(evidenceOf('smb://attacker-share.net/docs/invoice.pdf', 'file_share_link'))
+      .toContain('can send your Windows credentials there');
+    expect(evidenceOf('tel:+40 900 123 456', 'premium_rate_number')).toBe('Calls +40900123456, a Romanian 090x premium-rate number');
+    expect(evidenceOf('sms:7777?body=JOIN', 'premium_rate_number')).toContain('short code 7777');
+    expect(evidenceOf('blob:https://evil-page.net/9f1c2d', 'blob_url', { download: 'invoice.zip' }))
+      .toContain('by https://evil-page.net as a download');
+
+    const intent = findingsOf('intent://scan/#Intent;scheme=zxing;package=com.example.scanner;S.browser_fallback_url=https%3A%2F%2Fevil-login.xyz%2Fapp;end');
+    expect(intent.find(f => f.code === 'intent_fallback_url')?.evidence)
+      .toBe('Opens the Android app "com.example.scanner", or evil-login.xyz where it is not installed');
+    expect(intent.some(f => f.code === 'embedded_url')).toBe(true);
+    expect(intent.some(f => f.code === 'private_network_target')).toBe(false);
+
+    // Ordinary phone numbers and emails are not penalized, not even as "no HTTPS"
+    expect(findingsOf('tel:+40212345678')).toEqual([]);
+    expect(findingsOf('mailto:office@example-shop.com')).toEqual([]);
+  });
+
   it('should flag known safe domains', () => {
     const link: LinkMeta = {
       href: 'https://github.com',
@@ -46,5 +285,33 @@ describe('Heuristics calculation', () => {
     const result = calculateHeuristics(link);
     expect(result.flags.isKnownSafe).toBe(true);
   });
+  
+  it('should not trust a subdomain of a public suffix', () => {
+    const link: LinkMeta = {
+      href: 'https://evil.co.uk/login',
+      text: 'Login',
+      targetDomain: 'evil.co.uk'
+    };
+    
+    const result = calculateHeuristics(link);
+    expect(result.flags.isKnownSafe).toBe(false);
+  });
 });
 
+describe('Trusted domain matching', () => {
+  it('should match subdomains by registrable domain', () => {
+    expect(isTrustedDomain('news.bbc.co.uk')).toBe(true);
+    expect(isTrustedDomain('mail.google.com')).toBe(true);
+    expect(isTrustedDomain('bbc.co.uk.evil.com')).toBe(false);
+  });
+  
+  it('should treat private-section suffixes as separate sites', () => {
+    expect(isTrustedDomain('github.io')).toBe(true);
+    expect(isTrustedDomain('attacker.github.io')).toBe(false);
+  });
+  
+  it('should keep suffix-level entries like gov.uk', () => {
+    expect(isTrustedDomain('www.tax.service.gov.uk')).toBe(true);
+    expect(isTrustedDomain('cs.harvard.edu')).toBe(true);
+  });
+});
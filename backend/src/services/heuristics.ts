@@ -1,178 +1,190 @@
-import type { LinkMeta } from '../../shared/types.js';
-
-// Known safe/trusted domains - skip AI analysis for these renowned sites
-const KNOWN_SAFE_DOMAINS = new Set([
-  // Google services
-  'google.com', 'google.ro', 'google.co.uk', 'google.de', 'google.fr', 'google.it', 'google.es',
-  'gmail.com', 'googlemail.com', 'googledrive.com', 'googleusercontent.com', 'googleapis.com',
-  'youtube.com', 'youtu.be', 'gstatic.com', 'google-analytics.com', 'doubleclick.net',
-  'googletagmanager.com', 'googleadservices.com', 'googleadsserving.cn',
-  
-  // Microsoft
-  'microsoft.com', 'microsoftstore.com', 'office.com', 'office365.com', 'outlook.com',
-  'live.com', 'hotmail.com', 'msn.com', 'bing.com', 'azure.com', 'github.com', 'github.io',
-  'githubusercontent.com', 'npmjs.com', 'nuget.org',
-  
-  // Apple
-  'apple.com', 'icloud.com', 'appleid.apple.com', 'appstore.com', 'itunes.com',
-  
-  // Social Media
-  'facebook.com', 'fb.com', 'instagram.com', 'whatsapp.com', 'messenger.com',
-  'twitter.com', 'x.com', 't.co', 'linkedin.com', 'pinterest.com', 'tumblr.com',
-  'reddit.com', 'redd.it', 'discord.com', 'discord.gg', 'telegram.org', 't.me',
-  'snapchat.com', 'tiktok.com',
-  
-  // E-commerce & Services
-  'amazon.com', 'amazon.co.uk', 'amazon.de', 'amazon.fr', 'amazon.it', 'amazon.es',
-  'ebay.com', 'paypal.com', 'stripe.com', 'shopify.com', 'etsy.com',
-  
-  // Streaming & Entertainment
-  'netflix.com', 'spotify.com', 'youtube.com', 'twitch.tv', 'vimeo.com', 'dailymotion.com',
-  'soundcloud.com', 'bandcamp.com',
-  
-  // News & Information
-  'wikipedia.org', 'wikimedia.org', 'wikidata.org', 'bbc.com', 'bbc.co.uk',
-  'cnn.com', 'reuters.com', 'theguardian.com', 'nytimes.com', 'washingtonpost.com',
-  'wsj.com', 'bloomberg.com', 'forbes.com', 'techcrunch.com', 'theverge.com',
-  
-  // Developer & Tech
-  'stackoverflow.com', 'stackexchange.com', 'github.com', 'gitlab.com', 'bitbucket.org',
-  'npmjs.com', 'pypi.org', 'docker.com', 'kubernetes.io', 'nodejs.org', 'python.org',
-  'mozilla.org', 'firefox.com', 'chromium.org', 'webkit.org',
-  
-  // Cloud Services
-  'aws.amazon.com', 'cloud.google.com', 'azure.microsoft.com', 'digitalocean.com',
-  'heroku.com', 'vercel.com', 'netlify.com', 'cloudflare.com',
-  
-  // Education
-  'edu', 'harvard.edu', 'mit.edu', 'stanford.edu', 'coursera.org', 'edx.org',
-  'khanacademy.org', 'udemy.com', 'udacity.com',
-  
-  // Government & Organizations
-  'gov', 'gov.uk', 'europa.eu', 'un.org', 'who.int', 'w3.org', 'ietf.org',
-  
-  // Banking & Finance (major banks - be careful, but these are well-known)
-  'chase.com', 'bankofamerica.com', 'wellsfargo.com', 'citi.com', 'usbank.com',
-  'visa.com', 'mastercard.com', 'americanexpress.com',
-  
-  // Other trusted services
-  'dropbox.com', 'box.com', 'onedrive.com', 'icloud.com',
-  'adobe.com', 'adobe.io', 'autodesk.com',
-  'oracle.com', 'ibm.com', 'intel.com', 'nvidia.com', 'amd.com',
-  'salesforce.com', 'servicenow.com', 'sap.com',
-  'zoom.us', 'webex.com', 'gotomeeting.com',
-  'slack.com', 'microsoft.com', 'teams.microsoft.com',
-  'atlassian.com', 'jira.com', 'confluence.com', 'trello.com',
-  'notion.so', 'evernote.com', 'onenote.com'
-]);
+import type { Finding, LinkMeta } from '../../shared/types.js';
+import { getPublicSuffix, getRegistrableDomain } from '../../shared/publicSuffix.js';
+import { KNOWN_SAFE_DOMAINS, isBuiltInTrustedDomain } from '../../shared/trustedDomains.js';
+import { extractEmbeddedUrls } from '../../shared/embeddedUrls.js';
+import { decodeIdnHostname, decodeIdnLabel, findHomographBrand, isMixedScriptLabel } from './homographs.js';
+import { detectBrandImpersonation } from './brandImpersonation.js';
+import { createFinding, findingsToIssues, hasFinding } from './findings.js';
+import { extractTextDomains } from './linkText.js';
+import { detectGeneratedLabel } from './generatedDomains.js';
+import { createRuleContext, evaluateRules, hostMatchesRule, isTextRuleCode } from './ruleEngine.js';
+import { findDomainListEntry } from './domainLists.js';
+import { detectDownloadRisks } from './downloadRisk.js';
+import { detectUrlObfuscation } from './urlObfuscation.js';
+import { classifyPrivateHost } from './privateNetwork.js';
+import { detectSchemeRisks } from './schemeRisk.js';
 
 /**
- * Check if a domain is in the trusted list (including subdomains)
+ * Check if a domain is trusted: database allow/deny entries (the user's own first)
+ * take precedence over the built-in list of renowned sites
  */
-export function isTrustedDomain(domain: string): boolean {
-  const domainLower = domain.toLowerCase();
-  const domainParts = domainLower.split('.');
-  
-  // Check exact match
-  if (KNOWN_SAFE_DOMAINS.has(domainLower)) {
-    return true;
+export function isTrustedDomain(domain: string, userId?: string): boolean {
+  const entry = findDomainListEntry(domain, userId);
+  if (entry) {
+    return entry.listType === 'allow';
   }
-  
-  // Check base domain (e.g., 'mail.google.com' -> 'google.com')
-  if (domainParts.length >= 2) {
-    const baseDomain = domainParts.slice(-2).join('.');
-    if (KNOWN_SAFE_DOMAINS.has(baseDomain)) {
-      return true;
-    }
-  }
-  
-  // Check TLD-only entries (e.g., 'edu', 'gov')
-  const tld = domainParts[domainParts.length - 1];
-  if (KNOWN_SAFE_DOMAINS.has(tld)) {
-    return true;
-  }
-  
-  return false;
+  return isBuiltInTrustedDomain(domain);
 }
 
-// Suspicious TLDs (free domains often used for phishing)
-const SUSPICIOUS_TLDS = new Set([
-  '.tk', '.ml', '.ga', '.cf', '.gq', '.xyz', '.top', '.click', '.download', '.stream'
+// Click-tracking and link-protection wrappers that redirect to the real destination
+const TRACKING_WRAPPERS = new Set([
+  'l.facebook.com', 'lm.facebook.com', 'l.instagram.com', 'lnkd.in', 'out.reddit.com',
+  't.umblr.com', 'href.li', 'safelinks.protection.outlook.com', 'urldefense.com',
+  'urldefense.proofpoint.com', 'click.linksynergy.com', 'go.redirectingat.com'
 ]);
 
-// URL shorteners
-const URL_SHORTENERS = new Set([
-  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly',
-  'short.link', 'cutt.ly', 'rebrand.ly', 'short.link', 'tiny.cc'
-]);
+/**
+ * Check if a domain is a URL shortener or tracking wrapper whose real destination
+ * is only known after following its redirects
+ */
+export function isRedirectWrapper(domain: string): boolean {
+  const domainLower = domain.toLowerCase().replace(/\.$/, '');
+  return TRACKING_WRAPPERS.has(domainLower) || hostMatchesRule('short_url', domainLower);
+}
 
-// Suspicious keywords in domain
-const SUSPICIOUS_KEYWORDS = [
-  'secure-', 'verify-', 'update-', 'account-', 'login-', 'confirm-',
-  'paypal-', 'bank-', 'amazon-', 'microsoft-', 'google-', 'apple-'
-];
+/**
+ * Check if a finding comes from the text a link is shown with rather than from its URL
+ * (text_href_mismatch and the link text rules)
+ */
+export function isLinkTextFinding(finding: Finding): boolean {
+  return finding.code === 'text_href_mismatch' || isTextRuleCode(finding.code);
+}
 
-export function calculateHeuristics(link: LinkMeta): {
-  issues: string[];
+export type HeuristicsResult = {
+  findings: Finding[];
+  issues: string[]; // Legacy string projection of `findings`
   flags: Record<string, boolean>;
-} {
-  const issues: string[] = [];
+};
+
+/**
+ * Run every heuristic check on a link. Pass `userId` to apply that user's allow/deny lists,
+ * and `sourceDomain` (the page the link is on) so intranet pages may link to intranet hosts.
+ */
+export function calculateHeuristics(link: LinkMeta, userId?: string, sourceDomain?: string): HeuristicsResult {
+  const findings: Finding[] = [];
   const flags: Record<string, boolean> = {};
+  const addFinding = (code: string, evidence?: string) => {
+    findings.push(createFinding(code, 'heuristics', evidence));
+  };
   
   try {
     const url = new URL(link.href);
     const domain = url.hostname.toLowerCase();
-    const fullDomain = domain;
     const domainParts = domain.split('.');
-    const baseDomain = domainParts.length >= 2 
-      ? domainParts.slice(-2).join('.') 
-      : domain;
-    
-    // Check HTTPS
-    if (url.protocol !== 'https:') {
-      issues.push('no_https');
-    } else {
+    const baseDomain = getRegistrableDomain(domain) || domain;
+    // Label the owner actually registered ('bbc' for 'news.bbc.co.uk')
+    const registrableLabel = baseDomain.split('.')[0];
+    const isTrusted = isTrustedDomain(domain, userId);
+    
+    const isHttpLink = url.protocol === 'http:' || url.protocol === 'https:';
+    
+    // Check HTTPS (links that leave the web are scored by the scheme checks below)
+    if (url.protocol === 'http:') {
+      addFinding('no_https');
+    } else if (url.protocol === 'https:') {
       flags.hasValidSSL = true;
     }
     
-    // Check for URL shorteners
-    if (URL_SHORTENERS.has(domain) || URL_SHORTENERS.has(baseDomain)) {
-      issues.push('short_url');
+    // Declarative rules (rules/*.yaml): suspicious TLDs, URL shorteners, placeholder domains,
+    // pressure phrases in the link text, script/data schemes
+    findings.push(...evaluateRules(createRuleContext(url, link.text || '', isTrusted)));
+    
+    // Check the database denylists (a user's own allow entry overrides a global deny)
+    const listEntry = findDomainListEntry(domain, userId);
+    if (listEntry?.listType === 'deny') {
+      const scope = listEntry.userId ? 'your' : 'the global';
+      addFinding('denylisted_domain', `${listEntry.domain} is on ${scope} denylist${listEntry.reason ? `: ${listEntry.reason}` : ''}`);
     }
     
-    // Check for punycode (homograph attacks)
-    if (domain.includes('xn--')) {
-      issues.push('punycode');
+    // Check links that leave the web: OS protocol handlers, file shares, Android intents,
+    // premium-rate numbers and page-generated blob: content
+    for (const risk of detectSchemeRisks(url, link)) {
+      addFinding(risk.code, risk.evidence);
     }
     
-    // Check for suspicious TLDs
-    const tld = domain.split('.').pop() || '';
-    if (SUSPICIOUS_TLDS.has(`.${tld}`)) {
-      issues.push('suspicious_tld');
+    // Check for punycode (homograph attacks)
+    let homographBrand: string | null = null;
+    if (domain.includes('xn--')) {
+      addFinding('punycode');
+      
+      const unicodeDomain = decodeIdnHostname(domain);
+      if (unicodeDomain.split('.').some(isMixedScriptLabel)) {
+        addFinding('mixed_script_domain');
+      }
+      
+      // Compare the confusable skeleton of the registrable label against known brands
+      const unicodeLabel = decodeIdnLabel(registrableLabel);
+      homographBrand = unicodeLabel ? findHomographBrand(unicodeLabel, KNOWN_BRANDS) : null;
+      if (homographBrand) {
+        const brandDomain = getBrandDomain(homographBrand, decodeIdnHostname(getPublicSuffix(domain) || 'com'));
+        addFinding('idn_homograph', `IDN homograph of "${brandDomain}" ("${unicodeDomain}" looks like "${brandDomain}")`);
+      }
     }
     
     // Check for IP address instead of domain
     const ipRegex = /^(\d{1,3}\.){3}\d{1,3}$/;
     if (ipRegex.test(domain)) {
-      issues.push('ip_address');
+      addFinding('ip_address');
+    }
+    
+    // Check for links from a public page into private address space (router CSRF, DNS rebinding)
+    const privateTarget = classifyPrivateHost(domain);
+    if (isHttpLink && privateTarget && !(sourceDomain && classifyPrivateHost(sourceDomain))) {
+      const sourceNote = sourceDomain ? ` from the public site ${sourceDomain}` : '';
+      addFinding('private_network_target', `Links to ${privateTarget.description} (${domain})${sourceNote}`);
     }
     
-    // Check for suspicious keywords in subdomain
-    const subdomain = domainParts.length > 2 ? domainParts[0] : '';
-    if (subdomain && SUSPICIOUS_KEYWORDS.some(kw => subdomain.includes(kw))) {
-      issues.push('suspicious_subdomain');
+    // Check for obfuscated hosts: 'paypal.com@evil.tld', decimal/octal/hex IPs, IPv6 literals,
+    // deep subdomain chains, backslash/whitespace tricks and percent-encoded dots
+    for (const obfuscation of detectUrlObfuscation(url, link.rawHref)) {
+      addFinding(obfuscation.code, obfuscation.evidence);
+    }
+    
+    // Check for known brands outside the registrable domain (subdomain labels, path segments, query values)
+    if (!isTrusted) {
+      for (const match of detectBrandImpersonation(url, baseDomain, IMPERSONATED_BRANDS, KNOWN_SAFE_DOMAINS)) {
+        const brandName = match.brandDomain || match.brand;
+        const token = match.token.slice(0, 80);
+        if (match.location === 'subdomain') {
+          addFinding('brand_in_subdomain', `"${brandName}" appears in the subdomain "${token}" of ${baseDomain}`);
+        } else if (match.location === 'path') {
+          addFinding('brand_in_path', `"${brandName}" appears in path segment "${token}" on ${baseDomain}`);
+        } else {
+          addFinding('brand_in_query', `"${brandName}" appears in query value "${token}" on ${baseDomain}`);
+        }
+      }
+    }
+    
+    // Check for URLs embedded in parameters (open redirects, link wrappers) pointing to another site.
+    // The embedded targets themselves are analyzed as separate links by the analyzer.
+    for (const embedded of extractEmbeddedUrls(url)) {
+      const embeddedHost = new URL(embedded.url).hostname;
+      if ((getRegistrableDomain(embeddedHost) || embeddedHost) === baseDomain) continue;
+      
+      const code = embedded.encoding === 'plain' ? 'embedded_url' : 'obfuscated_embedded_url';
+      const encodingNote = embedded.encoding === 'plain' ? '' : ` (${embedded.encoding})`;
+      addFinding(code, `"${embedded.param}" parameter points to ${embeddedHost}${encodingNote}`);
+    }
+    
+    // Check link text that spells out a different site than the href ("https://www.mybank.com" -> evil.xyz).
+    // Shorteners are left to the redirect checks, and landing on a trusted site is harmless.
+    if (isHttpLink && !hasFinding(findings, 'short_url') && !isTrusted) {
+      const textDomains = extractTextDomains(link.text || '');
+      if (textDomains.length > 0 && !textDomains.includes(baseDomain)) {
+        addFinding('text_href_mismatch', `Link text shows ${textDomains[0]} but the link goes to ${baseDomain}`);
+      }
     }
     
     // Check for suspicious query parameters
     if (url.search.length > 200) {
-      issues.push('suspicious_params');
+      addFinding('suspicious_params');
     }
     
     // Check for encoded/obfuscated URLs
     try {
       const decoded = decodeURIComponent(url.href);
       if (url.href !== decoded && url.href.includes('%')) {
-        issues.push('encoded_url');
+        addFinding('encoded_url');
       }
     } catch {
       // URL encoding is fine
@@ -181,25 +193,38 @@ export function calculateHeuristics(link: LinkMeta): {
     // Check for excessive path depth (potential obfuscation)
     const pathDepth = url.pathname.split('/').filter(p => p.length > 0).length;
     if (pathDepth > 5) {
-      issues.push('deep_path');
+      addFinding('deep_path');
     }
     
     // Check for suspicious port numbers
     if (url.port && url.port !== '80' && url.port !== '443' && parseInt(url.port) < 1024) {
-      issues.push('non_standard_port');
+      addFinding('non_standard_port');
     }
     
     // Check domain age indicators (new domains are riskier)
     // This would require WHOIS lookup, but we can check for common new domain patterns
-    if (domainParts.length === 2 && domainParts[0].length < 3) {
-      issues.push('very_short_domain');
+    if (domain && domain === baseDomain && !ipRegex.test(domain) && registrableLabel.length < 3) {
+      addFinding('very_short_domain');
+    }
+    
+    // Check for algorithmically generated domains (DGA, throwaway phishing hosts)
+    const generatedLabel = ipRegex.test(domain) || isTrusted ? null : detectGeneratedLabel(registrableLabel);
+    if (generatedLabel) {
+      addFinding(
+        'generated_domain',
+        `"${registrableLabel}" looks randomly generated (entropy ${generatedLabel.entropy} bits/char, ` +
+        `bigram log-likelihood ${generatedLabel.bigramLogLikelihood}, longest consonant run ${generatedLabel.longestConsonantRun}, ` +
+        `${Math.round(generatedLabel.digitRatio * 100)}% digits)`
+      );
     }
     
-    // Check for domain name similarity to known brands (typosquatting/phishing)
-    const suspiciousSimilarity = checkDomainSimilarity(domain);
+    // Check for domain name similarity to known brands (typosquatting/phishing); trusted sites
+    // and brands' own domains are skipped, as similar brands (wikipedia/wikimedia) match each other
+    const isBrandDomain = KNOWN_BRANDS.includes(registrableLabel.toLowerCase());
+    const suspiciousSimilarity = homographBrand || isTrusted || isBrandDomain ? null : checkDomainSimilarity(registrableLabel);
     if (suspiciousSimilarity) {
       // High severity issue - typosquatting is a major phishing indicator
-      issues.push(`PHISHING_RISK: Possible typosquatting of "${suspiciousSimilarity}" (e.g., "${domain}" looks like "${suspiciousSimilarity}")`);
+      addFinding('typosquatting', `Possible typosquatting of "${suspiciousSimilarity}" (e.g., "${domain}" looks like "${suspiciousSimilarity}")`);
     }
     
     // Enhanced link analysis: Check <a> tag attributes and markers
@@ -207,67 +232,27 @@ export function calculateHeuristics(link: LinkMeta): {
     const hasTargetBlank = link.target === '_blank' || link.target === 'blank';
     const hasNoopener = link.rel?.includes('noopener') || false;
     if (hasTargetBlank && !hasNoopener) {
-      issues.push('target_blank_without_noopener');
+      addFinding('target_blank_without_noopener');
+    }
+    
+    // Check for dangerous downloads (executables, disk images, "invoice.pdf.exe", archives posing as documents).
+    // Trusted sites legitimately host installers, but never disguised files.
+    for (const risk of detectDownloadRisks(url, link)) {
+      const isPlainDownload = risk.code === 'executable_download' || risk.code === 'disk_image_download';
+      if (isTrusted && isPlainDownload) continue;
+      flags.hasDownload = true;
+      addFinding(risk.code, risk.evidence);
     }
     
     // Check for download attribute (could be used for malicious downloads)
     if (link.download) {
       flags.hasDownload = true;
       // Only flag if combined with other suspicious indicators
-      if (issues.length > 0) {
-        issues.push('download_attribute');
+      if (findings.length > 0) {
+        addFinding('download_attribute');
       }
     }
     
-    // Check for www.example.com patterns in link text or href
-    const examplePatterns = [
-      /www\.example\.com/i,
-      /example\.com/i,
-      /example\.org/i,
-      /example\.net/i,
-      /test\.com/i,
-      /placeholder\.com/i,
-      /lorem\.com/i,
-      /demo\.com/i,
-      /sample\.com/i
-    ];
-    
-    const linkText = (link.text || '').toLowerCase();
-    const linkHref = link.href.toLowerCase();
-    
-    for (const pattern of examplePatterns) {
-      if (pattern.test(linkText) || pattern.test(linkHref)) {
-        issues.push('example_placeholder_domain');
-        break;
-      }
-    }
-    
-    // Check for suspicious markers in link text
-    const suspiciousTextMarkers = [
-      /click\s+here/i,
-      /download\s+now/i,
-      /free\s+download/i,
-      /urgent/i,
-      /verify\s+account/i,
-      /update\s+now/i,
-      /confirm\s+identity/i,
-      /suspended\s+account/i,
-      /limited\s+time/i,
-      /act\s+now/i
-    ];
-    
-    // Only flag if text markers are present AND domain is suspicious
-    if (suspiciousTextMarkers.some(pattern => pattern.test(linkText))) {
-      if (issues.length > 0 || !flags.isKnownSafe) {
-        issues.push('suspicious_link_text');
-      }
-    }
-    
-    // Check for data: or javascript: protocols (already filtered in extractLinks, but double-check)
-    if (link.href.startsWith('data:') || link.href.startsWith('javascript:')) {
-      issues.push('dangerous_protocol');
-    }
-    
     // Check for mailto: links with suspicious patterns
     if (link.href.startsWith('mailto:')) {
       const emailPattern = /mailto:([^?]+)/i;
@@ -286,19 +271,19 @@ export function calculateHeuristics(link: LinkMeta): {
     // Positive flags
     flags.hasNoopener = link.rel?.includes('noopener') || false;
     flags.hasNoreferrer = link.rel?.includes('noreferrer') || false;
-    flags.isKnownSafe = KNOWN_SAFE_DOMAINS.has(domain) || KNOWN_SAFE_DOMAINS.has(baseDomain) || false;
+    flags.isKnownSafe = isTrusted;
     flags.hasValidDomain = domainParts.length >= 2 && domainParts.every(part => part.length > 0);
     
     // Check for valid domain structure
-    if (flags.hasValidDomain && !issues.includes('ip_address') && !issues.includes('punycode')) {
+    if (flags.hasValidDomain && !hasFinding(findings, 'ip_address') && !hasFinding(findings, 'punycode')) {
       flags.hasValidDomain = true;
     }
     
   } catch (err) {
-    issues.push('invalid_url');
+    addFinding('invalid_url');
   }
   
-  return { issues, flags };
+  return { findings, issues: findingsToIssues(findings), flags };
 }
 
 /**
@@ -414,11 +399,28 @@ const KNOWN_BRANDS = [
 ];
 
 /**
- * Check if domain might be typosquatting a known brand
+ * Best guess at the real domain of a brand, for naming it in issues
+ * ('apple' on a '.com' spoof -> 'apple.com')
+ */
+function getBrandDomain(brand: string, publicSuffix: string): string {
+  const candidates = [`${brand}.${publicSuffix}`, `${brand}.com`];
+  return candidates.find(candidate => KNOWN_SAFE_DOMAINS.has(candidate)) || candidates[0];
+}
+
+// Dictionary words in KNOWN_BRANDS that would drown brand-impersonation results in noise
+const GENERIC_BRAND_WORDS = new Set([
+  'bank', 'secure', 'verify', 'update', 'account', 'login', 'confirm',
+  'office', 'teams', 'zoom', 'chase', 'visa', 'meta', 'x'
+]);
+
+const IMPERSONATED_BRANDS = KNOWN_BRANDS.filter(brand => !GENERIC_BRAND_WORDS.has(brand));
+
+/**
+ * Check if the registrable label might be typosquatting a known brand
  * Enhanced detection for phishing domains like "rnicrosoft", "cithub", "toutube"
  */
-function checkDomainSimilarity(domain: string): string | null {
-  const domainBase = domain.split('.')[0].toLowerCase();
+function checkDomainSimilarity(registrableLabel: string): string | null {
+  const domainBase = registrableLabel.toLowerCase();
   
   for (const brand of KNOWN_BRANDS) {
     const brandLower = brand.toLowerCase();
@@ -456,11 +458,6 @@ function checkDomainSimilarity(domain: string): string | null {
         return brand;
       }
     }
-    
-    // Check for homoglyph attacks (visually similar characters)
-    if (checkHomoglyphs(domainBase, brandLower)) {
-      return brand;
-    }
   }
   
   return null;
@@ -492,43 +489,6 @@ function checkCharacterConfusions(str1: string, str2: string): boolean {
   return confusionCount > str1.length * 0.3;
 }
 
-/**
- * Check for homoglyph attacks (visually similar but different Unicode characters)
- */
-function checkHomoglyphs(str1: string, str2: string): boolean {
-  // Common homoglyph pairs
-  const homoglyphs: Record<string, string[]> = {
-    'a': ['а', 'а'], // Cyrillic 'a'
-    'e': ['е', 'е'], // Cyrillic 'e'
-    'o': ['о', 'о'], // Cyrillic 'o'
-    'p': ['р', 'р'], // Cyrillic 'p'
-    'c': ['с', 'с'], // Cyrillic 'c'
-    'x': ['х', 'х'], // Cyrillic 'x'
-    'y': ['у', 'у'], // Cyrillic 'y'
-    'm': ['м', 'м'], // Cyrillic 'm'
-    'h': ['н', 'н']  // Cyrillic 'h'
-  };
-  
-  if (str1.length !== str2.length) return false;
-  
-  for (let i = 0; i < str1.length; i++) {
-    const char1 = str1[i];
-    const char2 = str2[i];
-    
-    if (char1 === char2) continue;
-    
-    // Check if one is a homoglyph of the other
-    const homos1 = homoglyphs[char1.toLowerCase()] || [];
-    const homos2 = homoglyphs[char2.toLowerCase()] || [];
-    
-    if (homos1.includes(char2) || homos2.includes(char1)) {
-      return true; // Found a homoglyph
-    }
-  }
-  
-  return false;
-}
-
 /**
  * Simple Levenshtein-based similarity
  */
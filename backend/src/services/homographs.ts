@@ -0,0 +1,103 @@
+import { domainToUnicode } from 'url';
+import { CONFUSABLE_PROTOTYPES } from './confusablesData.js';
+
+/**
+ * IDN homograph helpers: punycode decoding, script mixing and UTS #39 confusable skeletons
+ */
+
+// The UTS #39 table maps the lowercase palochka to 'i', but it has no dot and
+// renders as 'l' in most address-bar fonts ("аррӏе" is the textbook apple.com spoof)
+const PROTOTYPE_OVERRIDES: Record<string, string> = {
+  'ӏ': 'l'
+};
+
+// Scripts whose letters are routinely swapped for each other in spoofed domains
+const CONFUSABLE_SCRIPTS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Latin', pattern: /\p{Script=Latin}/u },
+  { name: 'Cyrillic', pattern: /\p{Script=Cyrillic}/u },
+  { name: 'Greek', pattern: /\p{Script=Greek}/u }
+];
+
+/**
+ * Decode a single punycode label ("xn--80ak6aa92e" -> "аррӏе").
+ * Returns the label unchanged if it is not punycode, or null if the punycode is invalid.
+ */
+export function decodeIdnLabel(label: string): string | null {
+  if (!label.startsWith('xn--')) {
+    return label;
+  }
+  const decoded = domainToUnicode(label);
+  return decoded || null;
+}
+
+/**
+ * Decode every punycode label of a hostname, leaving invalid labels as they are
+ */
+export function decodeIdnHostname(hostname: string): string {
+  return hostname
+    .split('.')
+    .map(label => decodeIdnLabel(label) ?? label)
+    .join('.');
+}
+
+/**
+ * Scripts (Latin, Cyrillic, Greek) used by the letters of a label
+ */
+export function getLabelScripts(label: string): string[] {
+  const scripts = new Set<string>();
+  for (const char of label) {
+    for (const script of CONFUSABLE_SCRIPTS) {
+      if (script.pattern.test(char)) {
+        scripts.add(script.name);
+      }
+    }
+  }
+  return Array.from(scripts);
+}
+
+/**
+ * A label mixing Latin, Cyrillic and/or Greek letters is almost never legitimate
+ */
+export function isMixedScriptLabel(label: string): boolean {
+  return getLabelScripts(label).length > 1;
+}
+
+/**
+ * UTS #39 skeleton: NFD, map every character to its prototype, NFD again.
+ * Lowercased at the end because hostnames are case-insensitive ('0' -> 'O' -> 'o').
+ */
+export function getConfusableSkeleton(text: string): string {
+  let mapped = '';
+  for (const char of text.normalize('NFD')) {
+    mapped += PROTOTYPE_OVERRIDES[char] ?? CONFUSABLE_PROTOTYPES[char] ?? char;
+  }
+  return mapped.normalize('NFD').toLowerCase();
+}
+
+const brandSkeletons = new Map<string, string>();
+
+/**
+ * Find the brand a non-ASCII label is visually impersonating, if any.
+ * Plain ASCII labels are left to the typosquatting checks.
+ */
+export function findHomographBrand(label: string, brands: readonly string[]): string | null {
+  if (!/[^\x20-\x7e]/.test(label)) {
+    return null;
+  }
+
+  const labelSkeleton = getConfusableSkeleton(label);
+
+  for (const brand of brands) {
+    let brandSkeleton = brandSkeletons.get(brand);
+    if (brandSkeleton === undefined) {
+      brandSkeleton = getConfusableSkeleton(brand);
+      brandSkeletons.set(brand, brandSkeleton);
+    }
+
+    if (labelSkeleton === brandSkeleton && label !== brand) {
+      return brand;
+    }
+  }
+
+  return null;
+}
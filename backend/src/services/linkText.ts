@@ -0,0 +1,66 @@
+import { getRegistrableDomain, hasKnownTld, isIpAddress } from '../../shared/publicSuffix.js';
+
+/**
+ * Domains spelled out in link text ("https://www.mybank.com/login", "Visit mybank.com")
+ */
+
+// Real ccTLDs that are far more often file extensions in link text ("README.md", "setup.py")
+const FILE_EXTENSION_TLDS = new Set(['md', 'py', 'sh', 'rs', 'pl', 'ps', 'zip', 'mov', 'ai', 'so']);
+
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//;
+const DOMAIN_TOKEN_PATTERN = /^[^\s/?#@:]+\.[^\s/?#@:.]+(?::\d+)?(?:[/?#]\S*)?$/u;
+// Punctuation commonly wrapped around a URL in prose
+const WRAPPING_PUNCTUATION = /^[("'<[«“‘]+|[)"'>\]»”’.,;:!?]+$/gu;
+
+function parseTokenHostname(token: string): string | null {
+  const hasScheme = SCHEME_PATTERN.test(token);
+  if (!hasScheme && !DOMAIN_TOKEN_PATTERN.test(token)) {
+    return null;
+  }
+
+  let hostname: string;
+  try {
+    const url = new URL(hasScheme ? token : `http://${token}`);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    hostname = url.hostname.replace(/\.$/, '');
+  } catch {
+    return null;
+  }
+
+  if (isIpAddress(hostname)) {
+    return hasScheme ? hostname : null;
+  }
+  if (!hostname.includes('.') || !hasKnownTld(hostname)) {
+    return null;
+  }
+
+  // Without a scheme, "www." or a path, "notes.md" is a file name rather than a site
+  const tld = hostname.slice(hostname.lastIndexOf('.') + 1);
+  const looksLikeSite = hasScheme || hostname.startsWith('www.') || /[/?#]/.test(token);
+  if (FILE_EXTENSION_TLDS.has(tld) && !looksLikeSite) {
+    return null;
+  }
+
+  return hostname;
+}
+
+/**
+ * Registrable domains of every URL or domain-like token in a piece of link text,
+ * in order of appearance and without duplicates. Email addresses are ignored.
+ */
+export function extractTextDomains(text: string): string[] {
+  const domains: string[] = [];
+
+  for (const rawToken of text.toLowerCase().split(/\s+/)) {
+    const token = rawToken.replace(WRAPPING_PUNCTUATION, '');
+    if (!token || token.includes('@')) continue;
+
+    const hostname = parseTokenHostname(token);
+    const domain = hostname ? getRegistrableDomain(hostname) : null;
+    if (domain && !domains.includes(domain)) {
+      domains.push(domain);
+    }
+  }
+
+  return domains;
+}
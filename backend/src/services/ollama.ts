@@ -1,5 +1,7 @@
-import type { LinkMeta } from '../../shared/types.js';
+import type { Finding, LinkMeta } from '../../shared/types.js';
 import { sanitizeForGpt } from '../utils/sanitize.js';
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
+import { createFinding } from './findings.js';
 
 // URL normalization helper (duplicated from analyzer to avoid circular dependency)
 function normalizeUrl(url: string): string {
@@ -36,6 +38,16 @@ export interface OllamaAnalysisResult {
   reasoning: string;
 }
 
+/**
+ * Findings reported by an Ollama analysis (the observed click behavior, when known)
+ */
+export function getOllamaFindings(result: OllamaAnalysisResult): Finding[] {
+  if (!result.clickBehavior || result.clickBehavior.includes('Unknown')) {
+    return [];
+  }
+  return [createFinding('ai_click_behavior', 'ai', result.clickBehavior)];
+}
+
 // Cache for Ollama responses
 const ollamaCache = new Map<string, { result: OllamaAnalysisResult; timestamp: number }>();
 const CACHE_TTL = 12 * 60 * 60 * 1000; // 12 hours
@@ -494,10 +506,11 @@ export async function analyzeSuspiciousLink(
       }
     }
     const linkDomain = new URL(link.href).hostname;
+    // Same site = same registrable domain ('alice.github.io' and 'bob.github.io' are different sites)
     const isSameDomain = extractedSourceDomain !== 'Unknown' && 
                          (extractedSourceDomain === linkDomain || 
-                          linkDomain.endsWith('.' + extractedSourceDomain) ||
-                          extractedSourceDomain.endsWith('.' + linkDomain));
+                          (getRegistrableDomain(extractedSourceDomain) || extractedSourceDomain) ===
+                            (getRegistrableDomain(linkDomain) || linkDomain));
     
     // Improved prompt emphasizing source page context and relevance
     const prompt = `You are a cybersecurity analyst. Analyze this link in the context of the SOURCE PAGE where the user is currently browsing. Return ONLY valid JSON, no other text.
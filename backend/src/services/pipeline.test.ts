@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import { defineStage, runPipeline, type PipelineConfig } from './pipeline.js';
+
+describe('Analysis pipeline', () => {
+  type State = { id: string; score?: number; label?: string; finished?: boolean };
+  type Context = { priority: string; order: string[] };
+  const stage = defineStage<State, Context>();
+
+  const scoreStage = stage({
+    name: 'score',
+    reads: [],
+    skip: state => (state.id === 'cached' ? 'cached' : false),
+    async run(state) {
+      if (state.id === 'broken') throw new Error('boom');
+      return { score: state.id.length };
+    }
+  });
+  const labelStage = stage({
+    name: 'label',
+    reads: ['score'],
+    sequential: true,
+    async run(state, context) {
+      context.order.push(state.id);
+      return { label: `${state.id}:${state.score}` };
+    }
+  });
+
+  it('should run stages in order with skips, missing inputs and failures reported per stage', async () => {
+    const states: State[] = [{ id: 'a' }, { id: 'bb' }, { id: 'cached' }, { id: 'broken' }, { id: 'done', finished: true }];
+    const context: Context = { priority: 'bb', order: [] };
+    const config: PipelineConfig<State, Context> = {
+      name: 'test',
+      stages: [scoreStage, labelStage],
+      isDone: state => state.finished === true,
+      isPriority: (state, ctx) => state.id === ctx.priority
+    };
+
+    const reports = await runPipeline(config, states, context);
+
+    expect(states.map(state => state.label)).toEqual(['a:1', 'bb:2', undefined, undefined, undefined]);
+    expect(context.order).toEqual(['bb', 'a']);
+    expect(reports).toMatchObject([
+      { stage: 'score', ran: 3, updated: 2, skipped: 2, failed: 1 },
+      { stage: 'label', ran: 2, updated: 2, skipped: 3, failed: 0 }
+    ]);
+  });
+
+  it('should run background stages after returning and report each updated link', async () => {
+    const states: State[] = [{ id: 'a' }, { id: 'bb' }];
+    const context: Context = { priority: 'bb', order: [] };
+    const updated: string[] = [];
+    const finished = new Promise<void>(resolve => {
+      const config: PipelineConfig<State, Context> = {
+        name: 'test',
+        stages: [scoreStage, { ...labelStage, background: true }],
+        isPriority: (state, ctx) => state.id === ctx.priority
+      };
+      runPipeline(config, states, context, {
+        onUpdate: state => updated.push(state.label!),
+        onDone: resolve
+      }).then(reports => {
+        expect(reports.map(report => report.stage)).toEqual(['score']);
+        expect(states.every(state => state.label === undefined)).toBe(true);
+      });
+    });
+
+    await finished;
+    expect(updated).toEqual(['bb:2', 'a:1']);
+  });
+
+  it('should run background stages of different links at once unless one is sequential', async () => {
+    const states: State[] = [{ id: 'a' }, { id: 'bb' }];
+    const context: Context = { priority: '', order: [] };
+    let release: () => void = () => {};
+    const gate = new Promise<void>(resolve => (release = resolve));
+    const waitStage = stage({
+      name: 'wait',
+      reads: ['score'],
+      async run(state, ctx) {
+        ctx.order.push(state.id);
+        await gate;
+        return { label: state.id };
+      }
+    });
+
+    const finished = new Promise<void>(resolve => {
+      runPipeline({ name: 'test', stages: [scoreStage, { ...waitStage, background: true }] }, states, context, { onDone: resolve });
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(context.order).toEqual(['a', 'bb']);
+
+    release();
+    await finished;
+    expect(states.map(state => state.label)).toEqual(['a', 'bb']);
+  });
+});
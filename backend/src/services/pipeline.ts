@@ -0,0 +1,196 @@
+/**
+ * Staged analysis pipeline. A pipeline runs a list of stages in order over the links
+ * of a request. Each stage declares the state fields it reads (links missing one are
+ * skipped), writes a subset of the state, may skip links with a reason, and runs links
+ * in parallel or one at a time. Background stages run after the foreground stages have
+ * returned their results - one link at a time if any of them is sequential - reporting
+ * each finished link.
+ */
+
+// The link state as a stage sees it: the fields it reads are always present
+export type StageInput<S, In extends keyof S> = S & Required<Pick<S, In>>;
+
+// What a stage writes: any of its output fields
+export type StageOutput<S, Out extends keyof S> = Partial<Pick<S, Out>>;
+
+export interface PipelineStage<S, C, In extends keyof S = keyof S, Out extends keyof S = keyof S> {
+  name: string;
+  reads: readonly In[];
+  // Reason to leave a link out of this stage, or false to run it
+  skip?: (state: StageInput<S, In>, context: C) => string | false | Promise<string | false>;
+  // Analyze one link...
+  run?: (state: StageInput<S, In>, context: C) => Promise<StageOutput<S, Out> | void>;
+  // ...or every link at once (e.g. one database query), returning an output per link
+  runBatch?: (states: Array<StageInput<S, In>>, context: C) => Promise<Array<StageOutput<S, Out> | void>>;
+  sequential?: boolean; // One link at a time (in priority order) instead of in parallel
+  background?: boolean; // Runs after the pipeline has returned
+}
+
+export type PipelineConfig<S, C> = {
+  name: string;
+  stages: PipelineStage<S, C>[];
+  // Links with a final verdict (cached, trusted) skip the remaining stages
+  isDone?: (state: S) => boolean;
+  // Links handled first by sequential and background stages (e.g. the clicked link)
+  isPriority?: (state: S, context: C) => boolean;
+};
+
+export type PipelineCallbacks<S> = {
+  onUpdate?: (state: S) => void; // A background stage wrote output for this link
+  onDone?: () => void; // Every stage, background ones included, has finished
+};
+
+export type StageReport = {
+  stage: string;
+  ran: number;
+  updated: number; // Links the stage wrote output for
+  skipped: number;
+  failed: number;
+  error?: string; // Message of the first failure
+  ms: number;
+};
+
+/**
+ * Declare a stage with typed inputs and outputs
+ */
+export function defineStage<S, C>() {
+  return <In extends keyof S, Out extends keyof S>(stage: PipelineStage<S, C, In, Out>) =>
+    stage as unknown as PipelineStage<S, C>;
+}
+
+type StageRun<S> = { state: S; output?: Partial<S> | void; skipped?: string; error?: unknown };
+
+async function runStage<S, C>(stage: PipelineStage<S, C>, states: S[], context: C, config: PipelineConfig<S, C>): Promise<StageReport> {
+  const started = Date.now();
+  const runs: StageRun<S>[] = [];
+
+  for (const state of states) {
+    const missing = stage.reads.find(field => state[field] === undefined);
+    if (config.isDone?.(state)) {
+      runs.push({ state, skipped: 'done' });
+    } else if (missing) {
+      runs.push({ state, skipped: `no ${String(missing)}` });
+    } else {
+      const skipped = stage.skip ? await stage.skip(state as StageInput<S, keyof S>, context) : false;
+      runs.push(skipped ? { state, skipped } : { state });
+    }
+  }
+
+  const pending = runs.filter(run => !run.skipped);
+  if (stage.runBatch && pending.length > 0) {
+    try {
+      const outputs = await stage.runBatch(pending.map(run => run.state as StageInput<S, keyof S>), context);
+      pending.forEach((run, index) => (run.output = outputs[index]));
+    } catch (err) {
+      pending.forEach(run => (run.error = err));
+    }
+  } else if (stage.run) {
+    const runOne = async (run: StageRun<S>) => {
+      try {
+        run.output = await stage.run!(run.state as StageInput<S, keyof S>, context);
+      } catch (err) {
+        run.error = err;
+      }
+    };
+    if (stage.sequential) {
+      for (const run of prioritize(pending, run => config.isPriority?.(run.state, context) ?? false)) {
+        await runOne(run);
+      }
+    } else {
+      await Promise.all(pending.map(runOne));
+    }
+  }
+
+  for (const run of runs) {
+    if (run.output) Object.assign(run.state as object, run.output);
+    if (run.error) console.error(`[Pipeline] ${stage.name} failed:`, run.error);
+  }
+
+  const error = runs.find(run => run.error)?.error;
+  return {
+    stage: stage.name,
+    ran: pending.length,
+    updated: runs.filter(run => run.output && Object.keys(run.output).length > 0).length,
+    skipped: runs.length - pending.length,
+    failed: runs.filter(run => run.error).length,
+    ...(error ? { error: error instanceof Error ? error.message : String(error) } : {}),
+    ms: Date.now() - started
+  };
+}
+
+function prioritize<T>(items: T[], isPriority: (item: T) => boolean): T[] {
+  return [...items.filter(isPriority), ...items.filter(item => !isPriority(item))];
+}
+
+function formatReports(name: string, reports: StageReport[]): string {
+  const parts = reports.map(report =>
+    `${report.stage} ${report.ms}ms (${report.ran} ran${report.skipped ? `, ${report.skipped} skipped` : ''}${report.failed ? `, ${report.failed} failed` : ''})`
+  );
+  return `[Pipeline] ${name}: ${parts.join(', ')}`;
+}
+
+/**
+ * Run the foreground stages over every link, then start the background stages
+ * and return the foreground stage reports
+ */
+export async function runPipeline<S, C>(
+  config: PipelineConfig<S, C>,
+  states: S[],
+  context: C,
+  callbacks: PipelineCallbacks<S> = {}
+): Promise<StageReport[]> {
+  const reports: StageReport[] = [];
+  for (const stage of config.stages.filter(stage => !stage.background)) {
+    reports.push(await runStage(stage, states, context, config));
+  }
+  console.log(formatReports(config.name, reports));
+
+  const background = config.stages.filter(stage => stage.background);
+  if (background.length > 0) {
+    runBackground(config, background, states, context, callbacks.onUpdate)
+      .catch(err => console.error(`[Pipeline] ${config.name} background stages failed:`, err))
+      .finally(() => callbacks.onDone?.());
+  } else {
+    callbacks.onDone?.();
+  }
+  return reports;
+}
+
+async function runBackground<S, C>(
+  config: PipelineConfig<S, C>,
+  stages: PipelineStage<S, C>[],
+  states: S[],
+  context: C,
+  onUpdate?: (state: S) => void
+): Promise<void> {
+  const totals = new Map<string, StageReport>();
+  const runLink = async (state: S) => {
+    let updated = false;
+    for (const stage of stages) {
+      const report = await runStage(stage, [state], context, config);
+      updated = updated || report.updated > 0;
+      const total = totals.get(stage.name) || { stage: stage.name, ran: 0, updated: 0, skipped: 0, failed: 0, ms: 0 };
+      totals.set(stage.name, {
+        stage: stage.name,
+        ran: total.ran + report.ran,
+        updated: total.updated + report.updated,
+        skipped: total.skipped + report.skipped,
+        failed: total.failed + report.failed,
+        ms: total.ms + report.ms
+      });
+    }
+    if (updated && onUpdate) {
+      onUpdate(state);
+    }
+  };
+
+  const ordered = prioritize(states, state => config.isPriority?.(state, context) ?? false);
+  if (stages.some(stage => stage.sequential)) {
+    for (const state of ordered) {
+      await runLink(state);
+    }
+  } else {
+    await Promise.all(ordered.map(runLink));
+  }
+  console.log(formatReports(`${config.name} (background)`, [...totals.values()]));
+}
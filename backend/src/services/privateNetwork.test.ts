@@ -0,0 +1,42 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { calculateHeuristics } from './heuristics.js';
+import { resolvePrivateAddress, setHostResolver } from './privateNetwork.js';
+
+describe('Private network targets', () => {
+  const privateFindingOf = (href: string, sourceDomain: string) => {
+    const targetDomain = new URL(href).hostname;
+    return calculateHeuristics({ href, text: 'Settings', targetDomain }, undefined, sourceDomain)
+      .findings.find(f => f.code === 'private_network_target');
+  };
+
+  afterEach(() => setHostResolver());
+
+  it('should flag public pages linking into private address space', () => {
+    expect(privateFindingOf('http://192.168.1.1/cgi-bin/luci', 'news-site.com')?.evidence)
+      .toBe('Links to a private network address (192.168.1.1) from the public site news-site.com');
+    expect(privateFindingOf('http://localhost:8080/admin', 'news-site.com')?.evidence).toContain('loopback');
+    expect(privateFindingOf('http://100.64.0.1/', 'news-site.com')?.evidence).toContain('carrier-grade NAT');
+    expect(privateFindingOf('http://169.254.169.254/latest/meta-data/', 'news-site.com')?.evidence).toContain('link-local');
+    expect(privateFindingOf('http://nas.internal/', 'news-site.com')?.evidence).toContain('local network name');
+    expect(privateFindingOf('http://routerlogin.net/', 'news-site.com')?.evidence).toContain('router admin page');
+    expect(privateFindingOf('https://example-shop.com/', 'news-site.com')).toBeUndefined();
+  });
+
+  it('should not flag intranet pages linking to intranet hosts', () => {
+    expect(privateFindingOf('http://192.168.1.1/', '10.0.0.5')).toBeUndefined();
+    expect(privateFindingOf('http://wiki.corp/', 'portal.internal')).toBeUndefined();
+  });
+
+  it('should catch public names resolving to private addresses through the injected resolver', async () => {
+    setHostResolver(async hostname => (hostname === 'rebind.attacker-site.net' ? ['203.0.113.7', '10.0.0.7'] : ['203.0.113.8']));
+
+    expect(await resolvePrivateAddress('rebind.attacker-site.net'))
+      .toEqual({ address: '10.0.0.7', target: { kind: 'private', description: 'a private network address' } });
+    expect(await resolvePrivateAddress('shop.example-store.com')).toBeNull();
+
+    setHostResolver(async () => {
+      throw new Error('ENOTFOUND');
+    });
+    expect(await resolvePrivateAddress('missing.example-store.com')).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import dns from 'dns';
+
+/**
+ * Private-network targets: loopback, RFC 1918, CGNAT and link-local addresses, local names
+ * and router admin hosts. A public page linking there can attack the visitor's own network
+ * (CSRF against the router, DNS rebinding).
+ */
+
+export type PrivateTargetKind = 'loopback' | 'private' | 'cgnat' | 'link_local' | 'local_name' | 'router_admin';
+
+export interface PrivateTarget {
+  kind: PrivateTargetKind;
+  description: string; // 'a private network address', for evidence text
+}
+
+// Resolves a hostname to its IP addresses; injectable so tests and other environments need no DNS
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const DESCRIPTIONS: Record<PrivateTargetKind, string> = {
+  loopback: 'this computer (loopback)',
+  private: 'a private network address',
+  cgnat: 'a carrier-grade NAT address',
+  link_local: 'a link-local address',
+  local_name: 'a local network name',
+  router_admin: 'a router admin page'
+};
+
+// Suffixes that only resolve inside a local network
+const LOCAL_SUFFIXES = ['.local', '.internal', '.lan', '.localdomain', '.home.arpa', '.intranet', '.corp'];
+// Public names that home routers answer for their admin page
+const ROUTER_ADMIN_HOSTS = new Set([
+  'routerlogin.net', 'routerlogin.com', 'tplinkwifi.net', 'tplinklogin.net', 'tplinkmodem.net',
+  'tplinkrepeater.net', 'router.asus.com', 'asusrouter.com', 'fritz.box', 'speedport.ip',
+  'myrouter.local', 'mywifiext.net', 'miwifi.com', 'orbilogin.com', 'dlinkrouter.local'
+]);
+
+const RESOLVE_TIMEOUT_MS = 1500;
+const RESOLVE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const defaultResolver: HostResolver = async (hostname) => {
+  const addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  return addresses.map(entry => entry.address);
+};
+
+let activeResolver: HostResolver = defaultResolver;
+const resolveCache = new Map<string, { address: string | null; expiresAt: number }>();
+
+/**
+ * IPv4 address embedded in an IPv4-mapped IPv6 address ('::ffff:c0a8:101' -> '192.168.1.1')
+ */
+export function getMappedIpv4(address: string): string | null {
+  const host = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const dotted = host.match(/^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (dotted) return dotted[1];
+  const hex = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return null;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+function classifyIpv4(address: string): PrivateTargetKind | null {
+  const octets = address.match(/^(\d{1,3})\.(\d{1,3})\.\d{1,3}\.\d{1,3}$/);
+  if (!octets) return null;
+  const [a, b] = [Number(octets[1]), Number(octets[2])];
+  if (a === 127 || a === 0) return 'loopback';
+  if (a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)) return 'private';
+  if (a === 100 && b >= 64 && b <= 127) return 'cgnat';
+  if (a === 169 && b === 254) return 'link_local';
+  return null;
+}
+
+function classifyIpv6(address: string): PrivateTargetKind | null {
+  if (address === '::1' || address === '::') return 'loopback';
+  if (/^f[cd][0-9a-f]{2}:/.test(address)) return 'private';
+  if (/^fe[89ab][0-9a-f]:/.test(address)) return 'link_local';
+  const mapped = getMappedIpv4(address);
+  return mapped ? classifyIpv4(mapped) : null;
+}
+
+/**
+ * Classify an IP address (v4 or v6, with or without brackets); null for public addresses
+ */
+export function classifyPrivateAddress(address: string): PrivateTargetKind | null {
+  const host = address.toLowerCase().replace(/^\[|\]$/g, '');
+  return host.includes(':') ? classifyIpv6(host) : classifyIpv4(host);
+}
+
+/**
+ * What private-network target a hostname names, or null for public hosts.
+ * Only looks at the name itself - see resolvePrivateAddress for names that resolve privately.
+ */
+export function classifyPrivateHost(hostname: string): PrivateTarget | null {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!host) return null;
+
+  let kind = classifyPrivateAddress(host);
+  if (!kind) {
+    if (host === 'localhost' || host.endsWith('.localhost')) {
+      kind = 'loopback';
+    } else if (ROUTER_ADMIN_HOSTS.has(host)) {
+      kind = 'router_admin';
+    } else if (!host.includes('.') && !host.startsWith('[')) {
+      // Single-label names ('http://intranet/') only resolve through a local search domain
+      kind = 'local_name';
+    } else if (LOCAL_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+      kind = 'local_name';
+    }
+  }
+
+  return kind ? { kind, description: DESCRIPTIONS[kind] } : null;
+}
+
+/**
+ * Check if a host is on a private network (the redirect resolver never requests these)
+ */
+export function isPrivateHost(hostname: string): boolean {
+  return classifyPrivateHost(hostname) !== null;
+}
+
+/**
+ * Replace the DNS resolver (pass nothing to restore the system resolver). Clears cached lookups.
+ */
+export function setHostResolver(resolver?: HostResolver): void {
+  activeResolver = resolver || defaultResolver;
+  resolveCache.clear();
+}
+
+/**
+ * First private address a public hostname resolves to, or null.
+ * Lookups that fail or time out count as public; results are cached for a few minutes.
+ */
+export async function resolvePrivateAddress(hostname: string): Promise<{ address: string; target: PrivateTarget } | null> {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!host || host.startsWith('[') || classifyPrivateHost(host)) return null;
+
+  const cached = resolveCache.get(host);
+  let address: string | null;
+  if (cached && cached.expiresAt > Date.now()) {
+    address = cached.address;
+  } else {
+    let timeoutId: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<string[]>((_resolve, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('DNS lookup timed out')), RESOLVE_TIMEOUT_MS);
+      });
+      const addresses = await Promise.race([activeResolver(host), timeout]);
+      address = addresses.find(candidate => classifyPrivateAddress(candidate) !== null) || null;
+    } catch {
+      address = null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+    resolveCache.set(host, { address, expiresAt: Date.now() + RESOLVE_CACHE_TTL_MS });
+  }
+
+  if (!address) return null;
+  const kind = classifyPrivateAddress(address) as PrivateTargetKind;
+  return { address, target: { kind, description: DESCRIPTIONS[kind] } };
+}
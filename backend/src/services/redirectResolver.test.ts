@@ -0,0 +1,59 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { setHostResolver } from './privateNetwork.js';
+import { resolveRedirectChain } from './redirectResolver.js';
+
+describe('Redirect chains', () => {
+  // Every URL redirects to the next one in `redirects`; the rest answer with a plain page
+  const mockRedirects = (redirects: Record<string, string>) =>
+    jest.spyOn(global, 'fetch').mockImplementation(async input => {
+      const location = redirects[String(input)];
+      return location
+        ? new Response(null, { status: 302, headers: { location } })
+        : new Response('ok', { status: 200, headers: { 'content-type': 'text/plain' } });
+    });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    setHostResolver();
+  });
+
+  it('should follow redirects between public hosts', async () => {
+    setHostResolver(async () => ['203.0.113.8']);
+    mockRedirects({ 'https://sho.rt/abc': 'https://landing.example-store.com/offer' });
+
+    const chain = await resolveRedirectChain('https://sho.rt/abc');
+
+    expect(chain.hops.map(hop => hop.url)).toEqual(['https://sho.rt/abc', 'https://landing.example-store.com/offer']);
+    expect(chain.finalUrl).toBe('https://landing.example-store.com/offer');
+    expect(chain.error).toBeUndefined();
+  });
+
+  it('should not request a hop whose name resolves to a private address', async () => {
+    setHostResolver(async hostname => (hostname === 'rebind.attacker-site.net' ? ['10.0.0.7'] : ['203.0.113.8']));
+    const fetchMock = mockRedirects({ 'https://sho.rt/abc': 'https://rebind.attacker-site.net/admin' });
+
+    const chain = await resolveRedirectChain('https://sho.rt/abc');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(chain.hops.map(hop => hop.url)).toEqual(['https://sho.rt/abc', 'https://rebind.attacker-site.net/admin']);
+    expect(chain.error).toBe('Redirect into a private network was not followed');
+  });
+
+  it('should not request a private URL at all', async () => {
+    const fetchMock = mockRedirects({});
+
+    const chain = await resolveRedirectChain('http://192.168.1.1/login');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(chain.error).toBe('URL points into a private network and was not requested');
+  });
+
+  it('should answer a malformed URL with an empty chain', async () => {
+    const fetchMock = mockRedirects({});
+
+    const chain = await resolveRedirectChain('https://');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(chain).toEqual({ hops: [], finalUrl: 'https://', truncated: false, error: 'Invalid URL: https://' });
+  });
+});
@@ -0,0 +1,178 @@
+import type { RedirectHop } from '../../shared/types.js';
+import { isPrivateHost, resolvePrivateAddress } from './privateNetwork.js';
+
+/**
+ * Redirect-chain resolver for URL shorteners and tracking wrappers.
+ * Redirects are followed by hand (HTTP 3xx, meta refresh, simple JS `location=`)
+ * so every hop can be recorded and analyzed on its own.
+ */
+
+export interface RedirectChain {
+  hops: RedirectHop[]; // First hop is the original URL
+  finalUrl: string;
+  truncated: boolean; // Hop limit or time budget reached before the chain ended
+  error?: string;
+}
+
+export interface ResolveOptions {
+  maxHops?: number;
+  hopTimeoutMs?: number;
+  totalTimeoutMs?: number;
+}
+
+const DEFAULT_MAX_HOPS = 8;
+const DEFAULT_HOP_TIMEOUT_MS = 4000;
+const DEFAULT_TOTAL_TIMEOUT_MS = 10000;
+// Client-side redirects live in the <head> or an early <script>; no need for the whole page
+const MAX_HTML_BYTES = 64 * 1024;
+
+const META_REFRESH_PATTERN = /<meta[^>]+http-equiv\s*=\s*["']?refresh["']?[^>]*>/i;
+const META_CONTENT_PATTERN = /content\s*=\s*["']\s*\d*\s*;?\s*url\s*=\s*['"]?([^"'>\s]+)/i;
+const JS_LOCATION_PATTERNS = [
+  /\blocation(?:\.href)?\s*=\s*["']([^"']+)["']/i,
+  /\blocation\.(?:replace|assign)\(\s*["']([^"']+)["']\s*\)/i
+];
+
+/**
+ * Read at most `limit` bytes of a response body as text
+ */
+async function readHead(response: Response, limit: number): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+
+  try {
+    while (received < limit) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.length;
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  return text.slice(0, limit);
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value.replace(/&amp;/g, '&').replace(/&#x2f;/gi, '/').replace(/&#47;/g, '/');
+}
+
+/**
+ * Find a client-side redirect target in an HTML document
+ */
+export function findClientRedirect(html: string): { target: string; via: RedirectHop['via'] } | null {
+  const metaTag = html.match(META_REFRESH_PATTERN);
+  const metaTarget = metaTag?.[0].match(META_CONTENT_PATTERN)?.[1];
+  if (metaTarget) {
+    return { target: decodeHtmlEntities(metaTarget), via: 'meta-refresh' };
+  }
+
+  for (const pattern of JS_LOCATION_PATTERNS) {
+    const jsTarget = html.match(pattern)?.[1];
+    if (jsTarget) {
+      return { target: decodeHtmlEntities(jsTarget), via: 'javascript' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Follow a URL's redirects and return every hop.
+ * Never throws - a malformed URL gives an empty chain, network errors end the chain;
+ * both are reported in `error`.
+ */
+export async function resolveRedirectChain(url: string, options: ResolveOptions = {}): Promise<RedirectChain> {
+  const maxHops = options.maxHops ?? DEFAULT_MAX_HOPS;
+  const hopTimeoutMs = options.hopTimeoutMs ?? DEFAULT_HOP_TIMEOUT_MS;
+  const deadline = Date.now() + (options.totalTimeoutMs ?? DEFAULT_TOTAL_TIMEOUT_MS);
+
+  try {
+    new URL(url);
+  } catch {
+    return { hops: [], finalUrl: url, truncated: false, error: `Invalid URL: ${url}` };
+  }
+
+  const hops: RedirectHop[] = [{ url, via: 'initial' }];
+  const visited = new Set<string>([url]);
+  let current = hops[0];
+
+  while (hops.length <= maxHops) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return { hops, finalUrl: current.url, truncated: true, error: 'Redirect resolution timed out' };
+    }
+
+    // Checked right before each request: a public name can resolve to a private address
+    const { hostname } = new URL(current.url);
+    if (isPrivateHost(hostname) || (await resolvePrivateAddress(hostname))) {
+      const error = current === hops[0] ? 'URL points into a private network and was not requested' : 'Redirect into a private network was not followed';
+      return { hops, finalUrl: current.url, truncated: false, error };
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), Math.min(hopTimeoutMs, remaining));
+    let next: { target: string; via: RedirectHop['via'] } | null = null;
+
+    try {
+      const response = await fetch(current.url, {
+        method: 'GET',
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; SmartTrust/1.0; +https://smarttrust.example.com)',
+          'Accept': 'text/html,application/xhtml+xml,*/*;q=0.8'
+        }
+      });
+      current.status = response.status;
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        next = { target: location, via: 'http' };
+        response.body?.cancel().catch(() => undefined);
+      } else if ((response.headers.get('content-type') || '').includes('text/html')) {
+        next = findClientRedirect(await readHead(response, MAX_HTML_BYTES));
+      } else {
+        response.body?.cancel().catch(() => undefined);
+      }
+    } catch (err) {
+      const aborted = err instanceof Error && err.name === 'AbortError';
+      const error = aborted ? 'Redirect hop timed out' : (err instanceof Error && err.message) || 'Request failed';
+      return { hops, finalUrl: current.url, truncated: false, error };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!next) break;
+
+    let nextUrl: string;
+    try {
+      nextUrl = new URL(next.target, current.url).href;
+    } catch {
+      return { hops, finalUrl: current.url, truncated: false, error: `Invalid redirect target: ${next.target}` };
+    }
+
+    const { protocol } = new URL(nextUrl);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      // Record the hop but never request it (javascript:, data:, custom schemes)
+      hops.push({ url: nextUrl, via: next.via });
+      return { hops, finalUrl: nextUrl, truncated: false };
+    }
+
+    if (visited.has(nextUrl)) {
+      return { hops, finalUrl: current.url, truncated: false, error: 'Redirect loop detected' };
+    }
+    visited.add(nextUrl);
+
+    current = { url: nextUrl, via: next.via };
+    hops.push(current);
+  }
+
+  const truncated = hops.length > maxHops;
+  return { hops, finalUrl: current.url, truncated };
+}
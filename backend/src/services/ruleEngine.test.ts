@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import path from 'path';
+import { calculateHeuristics } from './heuristics.js';
+import { loadRulesFromDirectory, parseRuleFile, resolveRulesDir, setActiveRules } from './ruleEngine.js';
+
+describe('Heuristic rules', () => {
+  it('should apply the bundled rule files', () => {
+    const result = calculateHeuristics({
+      href: 'https://account-check.top/',
+      text: 'Urgent: verify account',
+      targetDomain: 'account-check.top'
+    });
+
+    expect(result.issues).toContain('suspicious_tld');
+    expect(result.issues).toContain('suspicious_link_text: Link text says "Urgent"');
+  });
+
+  it('should reject invalid rules with the file name and reason', () => {
+    const missingValues = 'rules:\n  - { id: a, code: suspicious_tld, target: host, matcher: suffix }';
+    const badPattern = '{"rules": [{"id": "b", "code": "suspicious_tld", "target": "text", "matcher": "regex", "pattern": "(["}]}';
+    const unknownCode = 'rules:\n  - { id: c, code: brand_new_check, target: host, matcher: exact, value: x.com }';
+
+    expect(() => parseRuleFile(missingValues, 'tlds.yaml')).toThrow('tlds.yaml: rules.0: "suffix" matcher needs "values"');
+    expect(() => parseRuleFile(badPattern, 'text.json')).toThrow(/text\.json: rules\.0: invalid pattern/);
+    expect(() => parseRuleFile(unknownCode, 'new.yml')).toThrow('needs a severity and a weight');
+  });
+
+  it('should evaluate newly loaded rules', () => {
+    setActiveRules(parseRuleFile([
+      'rules:',
+      '  - id: login-path',
+      '    code: login_path',
+      '    target: path',
+      '    matcher: regex',
+      '    pattern: /wp-admin/.*login',
+      '    severity: medium',
+      '    weight: 0.1',
+      '    evidence: Path contains "{match}"'
+    ].join('\n'), 'paths.yaml'));
+
+    try {
+      const result = calculateHeuristics({
+        href: 'https://blog-host.net/wp-admin/user/login.php',
+        text: 'Log in',
+        targetDomain: 'blog-host.net'
+      });
+      expect(result.findings.find(f => f.code === 'login_path')).toMatchObject({
+        severity: 'medium',
+        weight: 0.1,
+        evidence: 'Path contains "/wp-admin/user/login"'
+      });
+      expect(result.issues).not.toContain('suspicious_tld');
+    } finally {
+      setActiveRules(loadRulesFromDirectory());
+    }
+  });
+
+  it('should find the rules directory of the backend from anywhere, unless configured', () => {
+    const configured = process.env.HEURISTIC_RULES_DIR;
+    delete process.env.HEURISTIC_RULES_DIR;
+
+    try {
+      expect(resolveRulesDir('/srv/backend')).toBe(path.join('/srv/backend', 'rules'));
+      process.env.HEURISTIC_RULES_DIR = '/etc/smarttrust/rules';
+      expect(resolveRulesDir('/srv/backend')).toBe('/etc/smarttrust/rules');
+    } finally {
+      if (configured === undefined) delete process.env.HEURISTIC_RULES_DIR;
+      else process.env.HEURISTIC_RULES_DIR = configured;
+    }
+  });
+});
@@ -0,0 +1,267 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { Finding } from '../../shared/types.js';
+import { createFinding, isKnownFindingCode } from './findings.js';
+
+/**
+ * Declarative heuristic rules loaded from the rules directory (*.yaml, *.yml, *.json).
+ * Rules are validated when loaded and reloaded when the files change, so lists like
+ * suspicious TLDs or URL shorteners can be edited without a redeploy.
+ */
+
+export type RuleTarget = 'host' | 'path' | 'query' | 'text' | 'scheme';
+
+export interface HeuristicRule {
+  id: string;
+  description?: string;
+  code: string; // Finding code emitted on a match
+  target: RuleTarget;
+  matcher: 'exact' | 'suffix' | 'regex' | 'set';
+  value?: string; // exact
+  values?: string[]; // suffix, set
+  pattern?: string; // regex
+  flags?: string; // regex
+  severity?: Finding['severity']; // Defaults to the finding catalogue
+  weight?: number;
+  evidence?: string; // '{match}' is replaced with the matched text
+  skipTrustedDomains?: boolean;
+}
+
+// Values of a link that rules can match against
+export interface RuleContext {
+  host: string;
+  path: string;
+  query: string; // Without the leading '?'
+  text: string;
+  scheme: string; // Without the trailing ':'
+  isTrusted: boolean;
+}
+
+type CompiledRule = HeuristicRule & { test: (value: string) => string | null };
+
+const RULE_FILE_PATTERN = /\.(ya?ml|json)$/i;
+const RELOAD_DEBOUNCE_MS = 200;
+
+const ruleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'must be lowercase letters, digits, "-" or "_"'),
+  description: z.string().optional(),
+  code: z.string().regex(/^[a-z][a-z0-9_]*$/, 'must be a snake_case finding code'),
+  target: z.enum(['host', 'path', 'query', 'text', 'scheme']),
+  matcher: z.enum(['exact', 'suffix', 'regex', 'set']),
+  value: z.string().min(1).optional(),
+  values: z.array(z.string().min(1)).min(1).optional(),
+  pattern: z.string().min(1).optional(),
+  flags: z.string().regex(/^[imsu]*$/, 'only i, m, s and u flags are supported').optional(),
+  severity: z.enum(['info', 'low', 'medium', 'high', 'critical']).optional(),
+  weight: z.number().min(0).max(1).optional(),
+  evidence: z.string().optional(),
+  skipTrustedDomains: z.boolean().optional()
+}).strict().superRefine((rule, ctx) => {
+  const required = { exact: 'value', suffix: 'values', set: 'values', regex: 'pattern' } as const;
+  const field = required[rule.matcher];
+  if (rule[field] === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${rule.matcher}" matcher needs "${field}"` });
+  }
+  if (rule.pattern !== undefined) {
+    try {
+      new RegExp(rule.pattern, rule.flags);
+    } catch (err) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid pattern: ${err instanceof Error ? err.message : err}` });
+    }
+  }
+  if (!isKnownFindingCode(rule.code) && (rule.severity === undefined || rule.weight === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `new finding code "${rule.code}" needs a severity and a weight` });
+  }
+});
+
+const ruleFileSchema = z.object({ rules: z.array(ruleSchema) }).strict();
+
+let activeRules: CompiledRule[] | null = null;
+let activeRulesetHash = '';
+let watcher: fs.FSWatcher | null = null;
+
+function compileRule(rule: HeuristicRule): CompiledRule {
+  let test: CompiledRule['test'];
+
+  if (rule.matcher === 'regex') {
+    const regex = new RegExp(rule.pattern as string, rule.flags);
+    test = value => value.match(regex)?.[0] ?? null;
+  } else if (rule.matcher === 'exact') {
+    const expected = (rule.value as string).toLowerCase();
+    test = value => (value === expected ? value : null);
+  } else if (rule.matcher === 'set') {
+    const members = new Set((rule.values as string[]).map(v => v.toLowerCase()));
+    test = value => (members.has(value) ? value : null);
+  } else {
+    const suffixes = (rule.values as string[]).map(v => v.toLowerCase());
+    // Host suffixes match whole labels: 'bit.ly' matches 'x.bit.ly' but not 'rabbit.ly'
+    test = rule.target === 'host'
+      ? value => suffixes.find(s => value === s.replace(/^\./, '') || value.endsWith(s.startsWith('.') ? s : `.${s}`)) ?? null
+      : value => suffixes.find(s => value.endsWith(s)) ?? null;
+  }
+
+  return { ...rule, test };
+}
+
+/**
+ * Parse and validate one rule file. Throws with the file name and every problem found.
+ */
+export function parseRuleFile(source: string, fileName: string): HeuristicRule[] {
+  let data: unknown;
+  try {
+    data = fileName.toLowerCase().endsWith('.json') ? JSON.parse(source) : parseYaml(source);
+  } catch (err) {
+    throw new Error(`${fileName}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const result = ruleFileSchema.safeParse(data);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`${fileName}: ${problems.join('; ')}`);
+  }
+  return result.data.rules;
+}
+
+/**
+ * The rules directory: HEURISTIC_RULES_DIR, or `rules` in the backend directory. Scripts and
+ * tests run from the backend directory; the server passes its own location (index.ts).
+ */
+export function resolveRulesDir(backendDir: string = process.cwd()): string {
+  return process.env.HEURISTIC_RULES_DIR || path.join(backendDir, 'rules');
+}
+
+/**
+ * Load and validate every rule file in a directory (in file name order)
+ */
+export function loadRulesFromDirectory(dir: string = resolveRulesDir()): HeuristicRule[] {
+  const files = fs.readdirSync(dir).filter(file => RULE_FILE_PATTERN.test(file)).sort();
+  const rules: HeuristicRule[] = [];
+  const ids = new Set<string>();
+
+  for (const file of files) {
+    for (const rule of parseRuleFile(fs.readFileSync(path.join(dir, file), 'utf8'), file)) {
+      if (ids.has(rule.id)) {
+        throw new Error(`${file}: duplicate rule id "${rule.id}"`);
+      }
+      ids.add(rule.id);
+      rules.push(rule);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Replace the active rule set
+ */
+export function setActiveRules(rules: HeuristicRule[]): void {
+  activeRules = rules.map(compileRule);
+  activeRulesetHash = createHash('sha256').update(JSON.stringify(rules)).digest('hex').slice(0, 12);
+}
+
+/**
+ * Load the rules and reload them whenever a rule file changes.
+ * Throws if the initial rules are invalid; a failed reload keeps the previous rules.
+ */
+export function initRules(dir: string = resolveRulesDir()): number {
+  setActiveRules(loadRulesFromDirectory(dir));
+
+  if (!watcher) {
+    let reloadTimer: NodeJS.Timeout | null = null;
+    watcher = fs.watch(dir, (_event, file) => {
+      if (file && !RULE_FILE_PATTERN.test(file.toString())) return;
+      // Editors write files in several steps - reload once they are done
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        try {
+          setActiveRules(loadRulesFromDirectory(dir));
+          console.log(`[Rules] Reloaded ${activeRules?.length ?? 0} heuristic rules`);
+        } catch (err) {
+          console.error('[Rules] Reload failed, keeping the previous rules:', err instanceof Error ? err.message : err);
+        }
+      }, RELOAD_DEBOUNCE_MS);
+    });
+    watcher.unref();
+  }
+
+  return activeRules?.length ?? 0;
+}
+
+function getActiveRules(): CompiledRule[] {
+  if (!activeRules) {
+    // Scripts and tests use the rules without starting the server
+    try {
+      setActiveRules(loadRulesFromDirectory());
+    } catch (err) {
+      console.error('[Rules] Could not load heuristic rules:', err instanceof Error ? err.message : err);
+      setActiveRules([]);
+    }
+  }
+  return activeRules as CompiledRule[];
+}
+
+/**
+ * Short hash of the active rule set - changes whenever a rule file is edited
+ */
+export function getRulesetHash(): string {
+  getActiveRules();
+  return activeRulesetHash;
+}
+
+/**
+ * Build the rule context of a parsed link
+ */
+export function createRuleContext(url: URL, text: string, isTrusted: boolean): RuleContext {
+  return {
+    host: url.hostname.toLowerCase(),
+    path: url.pathname,
+    query: url.search.replace(/^\?/, ''),
+    text,
+    scheme: url.protocol.replace(/:$/, '').toLowerCase(),
+    isTrusted
+  };
+}
+
+/**
+ * Findings of every matching rule, at most one per finding code
+ */
+export function evaluateRules(context: RuleContext): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const rule of getActiveRules()) {
+    if (rule.skipTrustedDomains && context.isTrusted) continue;
+    if (findings.some(finding => finding.code === rule.code)) continue;
+
+    // Exact and set matchers compare case-insensitively
+    const value = rule.matcher === 'regex' ? context[rule.target] : context[rule.target].toLowerCase();
+    const match = rule.test(value);
+    if (match === null) continue;
+
+    const evidence = rule.evidence?.replace(/\{match\}/g, match.slice(0, 80));
+    const finding = createFinding(rule.code, 'heuristics', evidence);
+    finding.severity = rule.severity ?? finding.severity;
+    finding.weight = rule.weight ?? finding.weight;
+    findings.push(finding);
+  }
+
+  return findings;
+}
+
+/**
+ * Check whether a host matches any host rule emitting the given code
+ * ('short_url' rules tell the analyzer which links to resolve)
+ */
+export function hostMatchesRule(code: string, host: string): boolean {
+  const hostLower = host.toLowerCase().replace(/\.$/, '');
+  return getActiveRules().some(rule => rule.code === code && rule.target === 'host' && rule.test(hostLower) !== null);
+}
+
+/**
+ * Check whether a finding code comes from a rule on the link text
+ */
+export function isTextRuleCode(code: string): boolean {
+  return getActiveRules().some(rule => rule.code === code && rule.target === 'text');
+}
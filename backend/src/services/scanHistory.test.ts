@@ -0,0 +1,21 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseHistoryQuery } from './scanHistory.js';
+
+describe('Scan history', () => {
+  it('should page the history 50 events at a time by default, at most 200', () => {
+    expect(parseHistoryQuery({})).toEqual({ query: { limit: 50 } });
+    expect(parseHistoryQuery({ limit: '1000', before: '42' })).toEqual({ query: { limit: 200, before: '42' } });
+    expect(parseHistoryQuery({ limit: '0' })).toHaveProperty('error');
+    expect(parseHistoryQuery({ before: '42 OR 1=1' })).toEqual({ error: 'Invalid cursor' });
+  });
+
+  it('should accept filters by category, action, page domain and time', () => {
+    const parsed = parseHistoryQuery({ category: 'dangerous', action: 'click', domain: ' News.Example ', since: '2026-01-01' });
+    expect(parsed).toEqual({
+      query: { limit: 50, category: 'DANGEROUS', action: 'click', domain: 'news.example', since: new Date('2026-01-01') }
+    });
+    expect(parseHistoryQuery({ category: 'UNKNOWN' })).toHaveProperty('error');
+    expect(parseHistoryQuery({ action: 'download' })).toHaveProperty('error');
+    expect(parseHistoryQuery({ until: 'yesterday' })).toEqual({ error: 'until must be a date' });
+  });
+});
@@ -0,0 +1,156 @@
+import { pool } from '../db/index.js';
+import type { TrustCategory } from './scoring.js';
+
+/**
+ * Per-user scan history in the user_scan_events table. The verdicts themselves live in
+ * the global url_verdicts cache, shared by every user; an event records that one user
+ * was shown a URL's verdict: on which page, and whether the link was scanned with the
+ * page, hovered or clicked.
+ */
+
+export type ScanAction = 'scan' | 'hover' | 'click';
+
+export const SCAN_ACTIONS: ScanAction[] = ['scan', 'hover', 'click'];
+
+const TRUST_CATEGORIES: TrustCategory[] = ['SAFE', 'SUSPICIOUS', 'DANGEROUS'];
+
+export type ScanEvent = {
+  url: string; // Normalized URL of the url_verdicts row
+  action: ScanAction;
+};
+
+export type HistoryQuery = {
+  limit: number;
+  before?: string; // Cursor: the nextCursor of the previous page
+  category?: TrustCategory;
+  action?: ScanAction;
+  domain?: string; // Source page domain
+  since?: Date;
+  until?: Date;
+};
+
+export type HistoryEntry = {
+  id: string;
+  url: string;
+  link_text: string | null;
+  domain: string | null; // Source page domain
+  source_url: string | null;
+  action: ScanAction;
+  trust_score: number;
+  category: TrustCategory | null;
+  created_at: Date;
+};
+
+type HistoryRow = Omit<HistoryEntry, 'trust_score'> & { trust_score: string };
+
+export type HistoryPage = {
+  scans: HistoryEntry[];
+  nextCursor: string | null; // Pass as `before` for the next page; null on the last page
+};
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+function parseDate(input: unknown): Date | null {
+  const date = new Date(input as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate history query parameters (?limit, ?before, ?category, ?action, ?domain, ?since, ?until)
+ */
+export function parseHistoryQuery(input: Record<string, unknown>): { query: HistoryQuery } | { error: string } {
+  const query: HistoryQuery = { limit: DEFAULT_HISTORY_LIMIT };
+
+  if (input.limit !== undefined) {
+    const limit = parseInt(input.limit as string, 10);
+    if (!Number.isFinite(limit) || limit < 1) return { error: 'limit must be a positive number' };
+    query.limit = Math.min(limit, MAX_HISTORY_LIMIT);
+  }
+  if (input.before !== undefined) {
+    if (typeof input.before !== 'string' || !/^\d+$/.test(input.before)) return { error: 'Invalid cursor' };
+    query.before = input.before;
+  }
+  if (input.category !== undefined) {
+    const category = String(input.category).toUpperCase() as TrustCategory;
+    if (!TRUST_CATEGORIES.includes(category)) {
+      return { error: `Invalid category. Must be: ${TRUST_CATEGORIES.join(', ')}` };
+    }
+    query.category = category;
+  }
+  if (input.action !== undefined) {
+    if (!SCAN_ACTIONS.includes(input.action as ScanAction)) {
+      return { error: `Invalid action. Must be: ${SCAN_ACTIONS.join(', ')}` };
+    }
+    query.action = input.action as ScanAction;
+  }
+  if (input.domain !== undefined) {
+    if (typeof input.domain !== 'string' || input.domain.trim().length === 0) return { error: 'Invalid domain' };
+    query.domain = input.domain.trim().toLowerCase();
+  }
+  for (const field of ['since', 'until'] as const) {
+    if (input[field] === undefined) continue;
+    const date = parseDate(input[field]);
+    if (!date) return { error: `${field} must be a date` };
+    query[field] = date;
+  }
+  return { query };
+}
+
+/**
+ * Record that a user was shown these URLs' verdicts on a page. Events refer to the stored
+ * verdicts, so the URLs must have one (see recordHistory); any that do not are skipped.
+ */
+export async function recordScanEvents(
+  userId: string,
+  source: { domain: string; url?: string },
+  events: ScanEvent[]
+): Promise<void> {
+  if (events.length === 0) return;
+  await pool.query(
+    `INSERT INTO user_scan_events (user_id, url_verdict_id, source_domain, source_url, action)
+     SELECT $1, v.id, $2, $3, e.action
+     FROM unnest($4::text[], $5::text[]) WITH ORDINALITY AS e(url, action, position)
+     JOIN url_verdicts v ON v.url = e.url
+     ORDER BY e.position`,
+    [userId, source.domain || null, source.url || null, events.map(event => event.url), events.map(event => event.action)]
+  );
+}
+
+/**
+ * One page of a user's history, newest first, with each URL's current verdict
+ */
+export async function getScanHistory(userId: string, query: HistoryQuery): Promise<HistoryPage> {
+  const conditions = ['e.user_id = $1'];
+  const params: unknown[] = [userId];
+  const addCondition = (sql: (param: string) => string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql(`$${params.length}`));
+  };
+
+  if (query.before) addCondition(param => `e.id < ${param}::bigint`, query.before);
+  if (query.category) addCondition(param => `v.category = ${param}`, query.category);
+  if (query.action) addCondition(param => `e.action = ${param}`, query.action);
+  if (query.domain) addCondition(param => `e.source_domain = ${param}`, query.domain);
+  if (query.since) addCondition(param => `e.created_at >= ${param}`, query.since);
+  if (query.until) addCondition(param => `e.created_at < ${param}`, query.until);
+
+  // One row more than asked for tells whether there is another page
+  params.push(query.limit + 1);
+  const result = await pool.query<HistoryRow>(
+    `SELECT e.id::text AS id, v.url, v.link_text, e.source_domain AS domain, e.source_url, e.action,
+       v.trust_score, v.category, e.created_at
+     FROM user_scan_events e
+     JOIN url_verdicts v ON v.id = e.url_verdict_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY e.id DESC
+     LIMIT $${params.length}`,
+    params
+  );
+
+  const rows = result.rows.slice(0, query.limit);
+  return {
+    scans: rows.map(row => ({ ...row, trust_score: parseFloat(row.trust_score) })),
+    nextCursor: result.rows.length > query.limit ? rows[rows.length - 1].id : null
+  };
+}
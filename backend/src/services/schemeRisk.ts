@@ -0,0 +1,134 @@
+import type { LinkMeta } from '../../shared/types.js';
+import { getSchemeEntry } from '../../shared/schemeRegistry.js';
+
+/**
+ * Risks of links that leave the web: Windows protocol handlers, file shares,
+ * Android intents, premium-rate phone numbers and page-generated blob: content.
+ * javascript: and data: links are covered by the scheme rules (rules/schemes.yaml).
+ */
+
+export interface SchemeRisk {
+  code: string;
+  evidence: string;
+}
+
+// Premium-rate numbers in international ('+40900...') or national ('0900...') form
+const PREMIUM_NUMBER_PATTERNS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /^(\+40|0)90[036]\d{6}$/, label: 'Romanian 090x premium-rate' },
+  { pattern: /^(\+44|0)9\d{9}$/, label: 'UK 09 premium-rate' },
+  { pattern: /^(\+1|1)?(900|976)\d{7}$/, label: 'US/Canada 1-900 premium-rate' },
+  { pattern: /^(\+49|0)900\d{4,8}$/, label: 'German 0900 premium-rate' },
+  { pattern: /^(\+33|0)89\d{7}$/, label: 'French 089 premium-rate' },
+  { pattern: /^\+3989[29]\d{3,7}$/, label: 'Italian 89x premium-rate' },
+  { pattern: /^\+34(80[367]|905)\d{6}$/, label: 'Spanish premium-rate' },
+  { pattern: /^\+88[23]\d{6,}$/, label: 'international satellite/premium network (+882/+883)' }
+];
+// Premium SMS subscriptions are sold through short codes with a prefilled keyword
+const SMS_SHORT_CODE_PATTERN = /^\d{4,6}$/;
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Phone number of a tel:/sms: link without separators ('tel:+40 (900) 123-456' -> '+40900123456')
+ */
+function getPhoneNumber(url: URL): string {
+  return safeDecode(url.pathname).split(/[;,]/)[0].replace(/[\s().-]/g, '').replace(/^00/, '+');
+}
+
+function detectPremiumNumber(url: URL, scheme: string): SchemeRisk | null {
+  const number = getPhoneNumber(url);
+  const premium = PREMIUM_NUMBER_PATTERNS.find(({ pattern }) => pattern.test(number));
+  if (premium) {
+    const action = scheme === 'tel' ? 'Calls' : 'Texts';
+    return { code: 'premium_rate_number', evidence: `${action} ${number}, a ${premium.label} number` };
+  }
+
+  const body = url.searchParams.get('body');
+  if (scheme !== 'tel' && SMS_SHORT_CODE_PATTERN.test(number) && body) {
+    return {
+      code: 'premium_rate_number',
+      evidence: `Texts "${body.slice(0, 40)}" to the short code ${number} - a common premium SMS subscription trap`
+    };
+  }
+  return null;
+}
+
+/**
+ * Parse an Android intent fragment ('#Intent;scheme=https;package=com.app;S.browser_fallback_url=...;end')
+ */
+function parseIntent(url: URL): { packageName: string | null; fallbackUrl: string | null } {
+  const fields = new Map<string, string>();
+  for (const part of url.hash.replace(/^#Intent;/i, '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0) {
+      fields.set(part.slice(0, separator), safeDecode(part.slice(separator + 1)));
+    }
+  }
+  return { packageName: fields.get('package') || null, fallbackUrl: fields.get('S.browser_fallback_url') || null };
+}
+
+/**
+ * Risks of a link's scheme; empty for web links
+ */
+export function detectSchemeRisks(url: URL, link: LinkMeta): SchemeRisk[] {
+  const scheme = url.protocol.replace(/:$/, '').toLowerCase();
+  const entry = getSchemeEntry(scheme);
+
+  if (!entry) {
+    return [{ code: 'unknown_scheme', evidence: `"${scheme}:" hands the link to an app installed on your device` }];
+  }
+
+  switch (entry.category) {
+    case 'os_handler':
+      return [{ code: 'dangerous_scheme_handler', evidence: `"${scheme}:" ${entry.description}` }];
+
+    case 'file_share': {
+      const host = url.hostname;
+      return [{
+        code: 'file_share_link',
+        evidence: host
+          ? `"${scheme}:" ${entry.description} on ${host} - opening it can send your Windows credentials there`
+          : `"${scheme}:" ${entry.description} on your computer`
+      }];
+    }
+
+    case 'app_intent': {
+      const { packageName, fallbackUrl } = parseIntent(url);
+      const app = packageName ? `the Android app "${packageName}"` : 'an Android app';
+      const risks: SchemeRisk[] = [{ code: 'android_intent', evidence: `Opens ${app}` }];
+      if (fallbackUrl) {
+        let fallbackHost = fallbackUrl;
+        try {
+          fallbackHost = new URL(fallbackUrl).hostname || fallbackUrl;
+        } catch {
+          // Shown as written
+        }
+        risks.push({ code: 'intent_fallback_url', evidence: `Opens ${app}, or ${fallbackHost.slice(0, 80)} where it is not installed` });
+      }
+      return risks;
+    }
+
+    case 'contact': {
+      if (scheme === 'mailto') return [];
+      const premium = detectPremiumNumber(url, scheme);
+      return premium ? [premium] : [];
+    }
+
+    case 'blob': {
+      const download = link.download ? ' as a download' : '';
+      return [{
+        code: 'blob_url',
+        evidence: `Opens content generated inside the page by ${url.origin}${download}, a way to smuggle files past download scanners`
+      }];
+    }
+
+    default:
+      return [];
+  }
+}
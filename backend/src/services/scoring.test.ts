@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateHeuristics } from './heuristics.js';
+import { calculateTrustScore, getReputationPrior, scoreLink } from './scoring.js';
+
+describe('Trust score breakdown', () => {
+  it('should record how each finding and signal moved the score', () => {
+    const heuristics = calculateHeuristics({
+      href: 'http://bit.ly/abc123',
+      text: 'Click here',
+      targetDomain: 'bit.ly'
+    });
+    const { trustScore, breakdown } = calculateTrustScore(heuristics.findings, heuristics.flags);
+
+    expect(breakdown[0]).toEqual({ kind: 'baseline', label: 'Neutral starting point', delta: 0, score: 0.5 });
+    const findingSteps = breakdown.filter(step => step.kind === 'finding');
+    expect(findingSteps.map(step => step.code)).toEqual(
+      heuristics.findings.filter(finding => finding.weight !== 0).map(finding => finding.code)
+    );
+    expect(findingSteps.every(step => step.delta < 0)).toBe(true);
+    expect(breakdown[breakdown.length - 1].score).toBeCloseTo(trustScore, 3);
+  });
+
+  it('should show positive signals and external results as their own steps', () => {
+    const { trustScore, breakdown } = calculateTrustScore(
+      [],
+      { isKnownSafe: true, hasValidSSL: true, hasValidDomain: true, hasNoopener: true },
+      { safe: true, confidence: 0.9 }
+    );
+
+    expect(breakdown.filter(step => step.kind === 'flag').map(step => step.delta)).toEqual([0.05, 0.2, 0.1, 0.05]);
+    expect(breakdown.filter(step => step.kind === 'external')).toHaveLength(2);
+    expect(breakdown[breakdown.length - 1]).toMatchObject({ kind: 'external', score: trustScore });
+    expect(trustScore).toBeCloseTo(0.96, 3);
+  });
+});
+
+describe('Reputation prior', () => {
+  const site = (safe: number, suspicious: number, dangerous: number) => ({ domain: 'example.tk', safe, suspicious, dangerous });
+
+  it('should start sites without scans from the neutral score', () => {
+    expect(getReputationPrior(site(0, 0, 0))).toBe(0.5);
+    expect(getReputationPrior(site(0, 4, 0))).toBe(0.5);
+  });
+
+  it('should move the prior with the scans, more with more of them, within bounds', () => {
+    expect(getReputationPrior(site(0, 0, 2))).toBeLessThan(0.5);
+    expect(getReputationPrior(site(0, 0, 20))).toBeLessThan(getReputationPrior(site(0, 0, 2)));
+    expect(getReputationPrior(site(0, 0, 20))).toBeLessThan(0.4);
+    expect(getReputationPrior(site(0, 0, 100000))).toBeGreaterThanOrEqual(0.25);
+    expect(getReputationPrior(site(100000, 0, 0))).toBeLessThanOrEqual(0.75);
+  });
+
+  it('should score links from their site\'s reputation', () => {
+    const neutral = calculateTrustScore([], {});
+    const reputed = calculateTrustScore([], {}, undefined, undefined, site(0, 0, 30));
+    expect(reputed.trustScore).toBeLessThan(neutral.trustScore);
+    expect(reputed.breakdown.map(step => step.kind)).toContain('reputation');
+    expect(neutral.breakdown.map(step => step.kind)).not.toContain('reputation');
+  });
+
+  it('should score redirect and embedded targets from the reputation of their own site', () => {
+    const target = { url: 'https://evil.example.tk/login', relation: 'redirect' as const, findings: [], flags: {} };
+    const link = { findings: [], flags: {}, reputation: { ...site(40, 0, 0), domain: 'sho.rt' } };
+
+    const unknownTarget = scoreLink({ ...link, targets: [target] });
+    const badTarget = scoreLink({ ...link, targets: [{ ...target, reputation: site(0, 0, 30) }] });
+
+    expect(unknownTarget.worstTarget?.url).toBe(target.url);
+    expect(unknownTarget.trustScore).toBe(0.5);
+    expect(badTarget.trustScore).toBe(calculateTrustScore([], {}, undefined, undefined, site(0, 0, 30)).trustScore);
+    expect(badTarget.trustScore).toBeLessThan(0.5);
+  });
+});
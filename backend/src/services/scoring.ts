@@ -0,0 +1,306 @@
+import type { Finding, ScoreStep, TrustVerdict } from '../../shared/types.js';
+import type { AggregatedCheckResult } from './externalCheckers.js';
+import { BALANCED_PROFILE, getFindingWeight, type ScoringProfile } from './scoringProfiles.js';
+import { extractFeatures, getScoringModel, sigmoid, type ScoringModel } from './scoringModel.js';
+
+/**
+ * Trust score calculation. Every change to the score is recorded as a step,
+ * so a verdict can explain how it got from the neutral 0.5 to its final score.
+ * When a trained model is loaded (scoringModel.ts) it replaces the additive weights;
+ * profiles then only decide the category thresholds. A link on a site with stored scans
+ * starts from the site's reputation instead of the neutral 0.5.
+ */
+
+export type TrustCategory = 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
+
+// Part of the engine version stored with each scan - bump it when a change here
+// gives stored raw findings a different score
+export const SCORER_VERSION = 1;
+
+export type TrustScoreResult = {
+  trustScore: number;
+  breakdown: ScoreStep[];
+};
+
+// The part of the external check results the score depends on
+export type ExternalScoreInput = Pick<AggregatedCheckResult, 'safe' | 'confidence'>;
+
+// A URL the link leads to besides its own href: a redirect hop or a URL embedded in its parameters
+export type ScoringTarget = {
+  url: string;
+  relation: 'redirect' | 'embedded';
+  findings: Finding[];
+  flags: Record<string, boolean>;
+  external?: ExternalScoreInput;
+  reputation?: ReputationCounts; // The target's site when it was scored
+};
+
+// Scan counts per category of one site (domainReputation.ts)
+export type ReputationCounts = {
+  domain: string;
+  safe: number;
+  suspicious: number;
+  dangerous: number;
+};
+
+/**
+ * Everything a link's score is calculated from. It is stored with the scan
+ * (url_verdicts.raw_findings), so cached verdicts can be re-scored with another profile.
+ */
+export type ScoringInput = {
+  findings: Finding[];
+  flags: Record<string, boolean>;
+  external?: ExternalScoreInput;
+  targets: ScoringTarget[];
+  reputation?: ReputationCounts; // The link's site when it was scored
+};
+
+const BASELINE_SCORE = 0.5;
+
+// Pseudo-scans of the neutral prior: a site's own scans outweigh it once it has more than this many
+const REPUTATION_PRIOR_STRENGTH = 10;
+
+// How far reputation alone moves the neutral 0.5 (at most to 0.25 or 0.75)
+const REPUTATION_WEIGHT = 0.5;
+
+// Positive signals from the heuristics flags
+const FLAG_BONUSES: Array<{ flag: string; bonus: number; label: string }> = [
+  { flag: 'hasNoopener', bonus: 0.05, label: 'Opens with rel="noopener"' },
+  { flag: 'isKnownSafe', bonus: 0.20, label: 'Known trusted site' },
+  { flag: 'hasValidSSL', bonus: 0.10, label: 'Uses HTTPS' },
+  { flag: 'hasValidDomain', bonus: 0.05, label: 'Well-formed domain name' }
+];
+
+// Breakdown labels of the model's external check features
+const EXTERNAL_FEATURE_LABELS: Record<string, string> = {
+  'external:flagged': 'Flagged by external security services',
+  'external:confirmed_safe': 'Confirmed safe by external security services',
+  'external:provider_score': 'External services provider score'
+};
+
+function roundScore(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Starting score of a link on a site with these scans: the mean of a Beta posterior
+ * (SAFE scans count as trustworthy, DANGEROUS as not, SUSPICIOUS as half of each) over
+ * a neutral prior, moved toward 0.5 so reputation alone never makes a link DANGEROUS
+ */
+export function getReputationPrior(counts: ReputationCounts): number {
+  const trusted = REPUTATION_PRIOR_STRENGTH / 2 + counts.safe + counts.suspicious / 2;
+  const distrusted = REPUTATION_PRIOR_STRENGTH / 2 + counts.dangerous + counts.suspicious / 2;
+  const mean = trusted / (trusted + distrusted);
+  return roundScore(BASELINE_SCORE + (mean - BASELINE_SCORE) * REPUTATION_WEIGHT);
+}
+
+function describeReputation(counts: ReputationCounts): string {
+  return `Reputation of ${counts.domain} (${counts.safe} safe, ${counts.suspicious} suspicious, ${counts.dangerous} dangerous scans)`;
+}
+
+/**
+ * One breakdown step moving the score from `previous` to `next`
+ */
+export function createScoreStep(kind: ScoreStep['kind'], label: string, previous: number, next: number, code?: string): ScoreStep {
+  const step: ScoreStep = { kind, label, delta: roundScore(next - previous), score: roundScore(next) };
+  if (code) {
+    step.code = code;
+  }
+  return step;
+}
+
+/**
+ * Score a link with a trained model. Each feature's term is added to the logit in turn,
+ * so the steps show how far it moved the predicted probability.
+ */
+function calculateModelTrustScore(
+  model: ScoringModel,
+  findings: Finding[],
+  flags: Record<string, boolean>,
+  externalResult?: ExternalScoreInput,
+  reputation?: ReputationCounts
+): TrustScoreResult {
+  let logit = model.bias;
+  let score = sigmoid(logit);
+  const breakdown: ScoreStep[] = [createScoreStep('baseline', `Scoring model ${model.version} baseline`, score, score)];
+
+  // Reputation shifts the logit as far as it shifts 0.5 with the finding weights
+  if (reputation) {
+    const prior = getReputationPrior(reputation);
+    logit += Math.log(prior / (1 - prior));
+    const next = sigmoid(logit);
+    breakdown.push(createScoreStep('reputation', describeReputation(reputation), score, next));
+    score = next;
+  }
+
+  for (const [feature, value] of Object.entries(extractFeatures(findings, flags, externalResult))) {
+    const weight = model.weights[feature];
+    if (!weight) continue;
+
+    const [kind, name] = feature.split(':') as ['finding' | 'flag' | 'external', string];
+    const label = kind === 'finding'
+      ? findings.find(finding => finding.code === name)?.evidence || name
+      : kind === 'flag'
+        ? FLAG_BONUSES.find(bonus => bonus.flag === name)?.label || name
+        : EXTERNAL_FEATURE_LABELS[feature] || feature;
+    logit += weight * value;
+    const next = sigmoid(logit);
+    breakdown.push(createScoreStep(kind, label, score, next, kind === 'external' ? undefined : name));
+    score = next;
+  }
+
+  return { trustScore: score, breakdown };
+}
+
+/**
+ * Score a link from its findings, heuristics flags and external check results,
+ * with the ordered steps that produced the score
+ */
+export function calculateTrustScore(
+  findings: Finding[],
+  flags: Record<string, boolean>,
+  externalResult?: ExternalScoreInput,
+  profile: ScoringProfile = BALANCED_PROFILE,
+  reputation?: ReputationCounts
+): TrustScoreResult {
+  const model = getScoringModel();
+  if (model) {
+    return calculateModelTrustScore(model, findings, flags, externalResult, reputation);
+  }
+
+  let score = BASELINE_SCORE;
+  const breakdown: ScoreStep[] = [createScoreStep('baseline', 'Neutral starting point', score, score)];
+  const apply = (kind: ScoreStep['kind'], label: string, next: number, code?: string) => {
+    breakdown.push(createScoreStep(kind, label, score, next, code));
+    score = next;
+  };
+
+  if (reputation) {
+    apply('reputation', describeReputation(reputation), getReputationPrior(reputation));
+  }
+
+  // Deduct each finding's weight (see findings.ts for the catalogue), as the profile weighs it
+  for (const finding of findings) {
+    const weight = getFindingWeight(profile, finding);
+    if (weight !== 0) {
+      apply('finding', finding.evidence || finding.code, score - weight, finding.code);
+    }
+  }
+
+  // Positive signals
+  for (const { flag, bonus, label } of FLAG_BONUSES) {
+    if (flags[flag]) {
+      apply('flag', label, score + bonus, flag);
+    }
+  }
+
+  // Apply external check results (weighted heavily)
+  if (externalResult) {
+    if (!externalResult.safe && externalResult.confidence > 0.7) {
+      // External services flagged it - reduce score significantly
+      if (score > 0.3) {
+        apply('external', 'Flagged by external security services (capped at 0.3)', 0.3);
+      }
+    } else if (externalResult.safe && externalResult.confidence > 0.7) {
+      // External services confirm it's safe - boost score
+      apply('external', 'Confirmed safe by external security services', Math.min(1.0, score + 0.15));
+    }
+    // Use external confidence to adjust final score
+    const providerScore = externalResult.safe ? externalResult.confidence : 1 - externalResult.confidence;
+    const blend = profile.providerBlend;
+    apply(
+      'external',
+      `Blended with external services (${Math.round((1 - blend) * 100)}% score, ${Math.round(blend * 100)}% provider score ${providerScore.toFixed(2)})`,
+      score * (1 - blend) + providerScore * blend
+    );
+  }
+
+  const clamped = Math.max(0, Math.min(1, score));
+  if (clamped !== score) {
+    apply('clamp', 'Limited to the 0-1 range', clamped);
+  }
+
+  return { trustScore: clamped, breakdown };
+}
+
+/**
+ * Where a target sits relative to the link ('after redirect to evil.tld', 'embedded target evil.tld')
+ */
+export function describeTarget(target: ScoringTarget): string {
+  let host = target.url;
+  try {
+    host = new URL(target.url).hostname || target.url;
+  } catch {
+    // Shown as written
+  }
+  return target.relation === 'redirect' ? `after redirect to ${host}` : `embedded target ${host}`;
+}
+
+/**
+ * Score a link on its own findings, or on the worst of its redirect hops and embedded
+ * targets - a dangerous target outweighs a trusted outer domain. Each starts from the
+ * reputation of its own site.
+ */
+export function scoreLink(
+  input: ScoringInput,
+  profile: ScoringProfile = BALANCED_PROFILE
+): TrustScoreResult & { worstTarget: ScoringTarget | null } {
+  const own = calculateTrustScore(input.findings, input.flags, input.external, profile, input.reputation);
+  let trustScore = own.trustScore;
+  let worstTarget: ScoringTarget | null = null;
+
+  for (const target of input.targets) {
+    const { trustScore: targetScore } = calculateTrustScore(target.findings, target.flags, target.external, profile, target.reputation);
+    if (targetScore < trustScore) {
+      trustScore = targetScore;
+      worstTarget = target;
+    }
+  }
+
+  const breakdown = own.breakdown;
+  if (worstTarget) {
+    breakdown.push(createScoreStep('target', `Scored as its ${describeTarget(worstTarget)}`, own.trustScore, trustScore));
+  }
+  return { trustScore, breakdown, worstTarget };
+}
+
+export function categorizeTrust(score: number, profile: ScoringProfile = BALANCED_PROFILE): TrustCategory {
+  if (score >= profile.thresholds.safe) return 'SAFE';
+  if (score >= profile.thresholds.suspicious) return 'SUSPICIOUS';
+  return 'DANGEROUS';
+}
+
+/**
+ * Score and category after an AI verdict: a clear recommendation moves the score into
+ * the matching category, anything else blends the AI safety rating (0-100) into the score
+ */
+export function scoreAiRecommendation(
+  recommendation: string | undefined,
+  safetyRating: number,
+  trustScore: number,
+  profile: ScoringProfile = BALANCED_PROFILE
+): { trustScore: number; category: TrustCategory } {
+  const aiTrustScore = safetyRating / 100;
+  const { safe, suspicious } = profile.thresholds;
+
+  if (recommendation === 'SAFE_TO_FOLLOW') {
+    return { trustScore: Math.max(safe, Math.min(1.0, aiTrustScore)), category: 'SAFE' };
+  }
+  if (recommendation === 'AVOID') {
+    return { trustScore: Math.min(Math.max(0, roundScore(suspicious - 0.1)), Math.max(0, aiTrustScore)), category: 'DANGEROUS' };
+  }
+  if (recommendation === 'CAUTION_ADVISED') {
+    return { trustScore: Math.max(suspicious, Math.min(roundScore(safe - 0.01), aiTrustScore)), category: 'SUSPICIOUS' };
+  }
+  const blended = aiTrustScore * 0.6 + trustScore * 0.4;
+  return { trustScore: blended, category: categorizeTrust(blended, profile) };
+}
+
+/**
+ * Set a verdict's score after the calculation (AI verdicts, allow/deny lists, redirect targets)
+ * and record the change in its breakdown
+ */
+export function adjustVerdictScore(verdict: TrustVerdict, trustScore: number, kind: ScoreStep['kind'], label: string): void {
+  verdict.scoreBreakdown = [...(verdict.scoreBreakdown || []), createScoreStep(kind, label, verdict.trustScore, trustScore)];
+  verdict.trustScore = trustScore;
+}
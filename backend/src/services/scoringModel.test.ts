@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { calculateHeuristics } from './heuristics.js';
+import { calculateTrustScore } from './scoring.js';
+import { extractFeatures, parseScoringModel, predictTrust, setScoringModel, trainScoringModel } from './scoringModel.js';
+
+describe('Scoring model', () => {
+  const examples = [
+    ...Array.from({ length: 6 }, () => ({ features: { 'flag:hasValidSSL': 1 }, benign: true })),
+    ...Array.from({ length: 3 }, () => ({ features: { 'flag:hasValidSSL': 1, 'finding:suspicious_tld': 1 }, benign: false })),
+    ...Array.from({ length: 3 }, () => ({ features: { 'finding:no_https': 1, 'finding:suspicious_tld': 1 }, benign: false })),
+    { features: { 'finding:rare': 1 }, benign: false }
+  ];
+  const model = trainScoringModel(examples, {}, new Date('2026-01-02T03:04:05Z'));
+
+  afterEach(() => {
+    setScoringModel(null);
+  });
+
+  it('should learn weights from labeled examples', () => {
+    expect(model.version).toBe('lr-20260102030405');
+    expect(model.weights['finding:suspicious_tld']).toBeLessThan(0);
+    expect(model.weights['flag:hasValidSSL']).toBeGreaterThan(0);
+    expect(model.weights).not.toHaveProperty('finding:rare');
+    expect(model.training).toMatchObject({ examples: 13, benign: 6, malicious: 7 });
+    expect(predictTrust(model, { 'flag:hasValidSSL': 1 })).toBeGreaterThan(0.5);
+    expect(predictTrust(model, { 'flag:hasValidSSL': 1, 'finding:suspicious_tld': 1 })).toBeLessThan(0.5);
+    expect(() => trainScoringModel(examples.filter(example => example.benign))).toThrow('both benign and malicious');
+  });
+
+  it('should extract findings, flags and external outcomes as features', () => {
+    const heuristics = calculateHeuristics({ href: 'http://example.tk/', text: 'Example', targetDomain: 'example.tk' });
+    const features = extractFeatures(heuristics.findings, heuristics.flags, { safe: false, confidence: 0.9 });
+
+    expect(features['finding:no_https']).toBe(1);
+    expect(features['external:flagged']).toBe(1);
+    expect(features['external:provider_score']).toBeCloseTo(-0.4);
+    expect(Object.values(features)).not.toContain(0);
+  });
+
+  it('should score with the loaded model and fall back to the finding weights', () => {
+    const heuristics = calculateHeuristics({ href: 'http://example.tk/', text: 'Example', targetDomain: 'example.tk' });
+    const fallback = calculateTrustScore(heuristics.findings, heuristics.flags);
+
+    setScoringModel(model);
+    const modelScore = calculateTrustScore(heuristics.findings, heuristics.flags);
+    expect(modelScore.trustScore).toBeCloseTo(predictTrust(model, extractFeatures(heuristics.findings, heuristics.flags)), 5);
+    expect(modelScore.breakdown[0].label).toContain(model.version);
+
+    setScoringModel(null);
+    expect(calculateTrustScore(heuristics.findings, heuristics.flags)).toEqual(fallback);
+  });
+
+  it('should reject invalid model files', () => {
+    expect(parseScoringModel(JSON.stringify(model), 'model.json')).toEqual(model);
+    expect(() => parseScoringModel('{', 'model.json')).toThrow('model.json: invalid JSON');
+    expect(() => parseScoringModel(JSON.stringify({ ...model, type: 'neural_net' }), 'model.json')).toThrow('model.json: type');
+  });
+});
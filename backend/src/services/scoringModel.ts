@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { Finding } from '../../shared/types.js';
+import type { ExternalScoreInput } from './scoring.js';
+
+/**
+ * Trainable trust score model: logistic regression over the heuristics findings and flags
+ * and the external check outcome. It predicts the probability that a link is benign,
+ * which is used as its trust score. Models are trained with `npm run train-model` and
+ * loaded from a JSON file at startup; without one the catalogue weights are used.
+ */
+
+// Feature name -> value. Findings and flags are 1 when present; absent features are 0.
+export type FeatureVector = Record<string, number>;
+
+export type TrainingExample = {
+  features: FeatureVector;
+  benign: boolean;
+};
+
+export type TrainingOptions = {
+  epochs?: number;
+  learningRate?: number;
+  l2?: number; // Regularization strength
+  minFeatureCount?: number; // Features seen in fewer examples are left out of the model
+};
+
+const MODEL_FORMAT_VERSION = 1;
+
+const modelSchema = z.object({
+  formatVersion: z.literal(MODEL_FORMAT_VERSION),
+  version: z.string().min(1),
+  type: z.literal('logistic_regression'),
+  createdAt: z.string(),
+  bias: z.number(),
+  weights: z.record(z.number()),
+  training: z.object({
+    examples: z.number(),
+    benign: z.number(),
+    malicious: z.number(),
+    epochs: z.number(),
+    learningRate: z.number(),
+    l2: z.number(),
+    logLoss: z.number(),
+    accuracy: z.number()
+  })
+});
+
+export type ScoringModel = z.infer<typeof modelSchema>;
+
+export const DEFAULT_MODEL_PATH = process.env.SCORING_MODEL_PATH || path.resolve('models/scoring-model.json');
+
+let activeModel: ScoringModel | null = null;
+
+/**
+ * Feature vector of a link: its finding codes, the flags that are set and,
+ * when external services were asked, what they concluded
+ */
+export function extractFeatures(findings: Finding[], flags: Record<string, boolean>, external?: ExternalScoreInput): FeatureVector {
+  const features: FeatureVector = {};
+  for (const finding of findings) {
+    features[`finding:${finding.code}`] = 1;
+  }
+  for (const [flag, value] of Object.entries(flags)) {
+    if (value) {
+      features[`flag:${flag}`] = 1;
+    }
+  }
+  if (external) {
+    if (external.confidence > 0.7) {
+      features[external.safe ? 'external:confirmed_safe' : 'external:flagged'] = 1;
+    }
+    // Provider score centered on 0: positive when providers lean safe
+    features['external:provider_score'] = (external.safe ? external.confidence : 1 - external.confidence) - 0.5;
+  }
+  return features;
+}
+
+export function sigmoid(logit: number): number {
+  return 1 / (1 + Math.exp(-logit));
+}
+
+/**
+ * Probability that a link with these features is benign
+ */
+export function predictTrust(model: ScoringModel, features: FeatureVector): number {
+  let logit = model.bias;
+  for (const [feature, value] of Object.entries(features)) {
+    logit += (model.weights[feature] || 0) * value;
+  }
+  return sigmoid(logit);
+}
+
+/**
+ * Fit a logistic regression with batch gradient descent. Benign and malicious examples
+ * are weighted to count equally, so an unbalanced corpus does not shift the baseline.
+ */
+export function trainScoringModel(examples: TrainingExample[], options: TrainingOptions = {}, now: Date = new Date()): ScoringModel {
+  const { epochs = 500, learningRate = 0.5, l2 = 0.01, minFeatureCount = 2 } = options;
+  const benign = examples.filter(example => example.benign).length;
+  const malicious = examples.length - benign;
+  if (benign === 0 || malicious === 0) {
+    throw new Error('Training needs both benign and malicious examples');
+  }
+
+  const featureCounts = new Map<string, number>();
+  for (const example of examples) {
+    for (const feature of Object.keys(example.features)) {
+      featureCounts.set(feature, (featureCounts.get(feature) || 0) + 1);
+    }
+  }
+  const vocabulary = [...featureCounts.entries()]
+    .filter(([, count]) => count >= minFeatureCount)
+    .map(([feature]) => feature)
+    .sort();
+  const index = new Map(vocabulary.map((feature, position) => [feature, position]));
+
+  // Sparse rows: [feature index, value] pairs
+  const rows = examples.map(example => ({
+    terms: Object.entries(example.features)
+      .filter(([feature]) => index.has(feature))
+      .map(([feature, value]) => [index.get(feature)!, value] as const),
+    target: example.benign ? 1 : 0,
+    sampleWeight: examples.length / (2 * (example.benign ? benign : malicious))
+  }));
+
+  const weights = new Array<number>(vocabulary.length).fill(0);
+  let bias = 0;
+  const predict = (row: typeof rows[number]) => sigmoid(row.terms.reduce((logit, [feature, value]) => logit + weights[feature] * value, bias));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = new Array<number>(vocabulary.length).fill(0);
+    let biasGradient = 0;
+    for (const row of rows) {
+      const error = (predict(row) - row.target) * row.sampleWeight;
+      for (const [feature, value] of row.terms) {
+        gradient[feature] += error * value;
+      }
+      biasGradient += error;
+    }
+    for (let feature = 0; feature < weights.length; feature++) {
+      weights[feature] -= learningRate * (gradient[feature] / rows.length + l2 * weights[feature]);
+    }
+    bias -= learningRate * (biasGradient / rows.length);
+  }
+
+  let logLoss = 0;
+  let correct = 0;
+  for (const row of rows) {
+    const probability = Math.min(1 - 1e-12, Math.max(1e-12, predict(row)));
+    logLoss -= row.target * Math.log(probability) + (1 - row.target) * Math.log(1 - probability);
+    if ((probability >= 0.5 ? 1 : 0) === row.target) correct++;
+  }
+
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  return {
+    formatVersion: MODEL_FORMAT_VERSION,
+    version: `lr-${now.toISOString().replace(/[-:T]/g, '').slice(0, 14)}`,
+    type: 'logistic_regression',
+    createdAt: now.toISOString(),
+    bias: round(bias),
+    weights: Object.fromEntries(vocabulary.map((feature, position) => [feature, round(weights[position])])),
+    training: {
+      examples: examples.length,
+      benign,
+      malicious,
+      epochs,
+      learningRate,
+      l2,
+      logLoss: round(logLoss / rows.length),
+      accuracy: round(correct / rows.length)
+    }
+  };
+}
+
+/**
+ * Validate a model file's contents
+ */
+export function parseScoringModel(content: string, fileName: string): ScoringModel {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`${fileName}: invalid JSON (${(err as Error).message})`);
+  }
+  const result = modelSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`${fileName}: ${issue.path.join('.') || 'model'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Use a model for every score from now on; null goes back to the catalogue weights
+ */
+export function setScoringModel(model: ScoringModel | null): void {
+  activeModel = model;
+}
+
+export function getScoringModel(): ScoringModel | null {
+  return activeModel;
+}
+
+/**
+ * Load the model file if there is one. A missing file means the catalogue weights are used;
+ * an invalid one is logged and ignored.
+ */
+export function loadScoringModel(filePath: string = DEFAULT_MODEL_PATH): ScoringModel | null {
+  if (!fs.existsSync(filePath)) {
+    setScoringModel(null);
+    return null;
+  }
+  try {
+    const model = parseScoringModel(fs.readFileSync(filePath, 'utf8'), path.basename(filePath));
+    setScoringModel(model);
+    return model;
+  } catch (err) {
+    console.error(`[Scoring] Ignoring scoring model: ${(err as Error).message}`);
+    setScoringModel(null);
+    return null;
+  }
+}
+
+export function saveScoringModel(model: ScoringModel, filePath: string = DEFAULT_MODEL_PATH): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(model, null, 2)}\n`);
+}
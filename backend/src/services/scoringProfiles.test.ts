@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateHeuristics } from './heuristics.js';
+import { calculateTrustScore, categorizeTrust, scoreAiRecommendation, scoreLink } from './scoring.js';
+import { BUILT_IN_PROFILES, parseCustomProfile } from './scoringProfiles.js';
+import type { LinkMeta } from '../../shared/types.js';
+
+describe('Scoring profiles', () => {
+  const link: LinkMeta = { href: 'http://bit.ly/abc123', text: 'Click here', targetDomain: 'bit.ly' };
+
+  it('should weigh findings and categorize by the profile', () => {
+    const { findings, flags } = calculateHeuristics(link);
+    const input = { findings, flags, targets: [] };
+    const scores = Object.fromEntries(Object.entries(BUILT_IN_PROFILES).map(([name, profile]) => [name, scoreLink(input, profile).trustScore]));
+
+    expect(scores.strict).toBeLessThan(scores.balanced);
+    expect(scores.lenient).toBeGreaterThan(scores.balanced);
+    expect(categorizeTrust(0.65, BUILT_IN_PROFILES.lenient)).toBe('SAFE');
+    expect(categorizeTrust(0.65, BUILT_IN_PROFILES.balanced)).toBe('SUSPICIOUS');
+    expect(categorizeTrust(0.45, BUILT_IN_PROFILES.strict)).toBe('DANGEROUS');
+  });
+
+  it('should apply custom finding weights and keep AI verdicts within the thresholds', () => {
+    const parsed = parseCustomProfile({ findingWeights: { no_https: 0 }, thresholds: { safe: 0.9, suspicious: 0.6 }, providerBlend: 0 });
+    if ('error' in parsed) throw new Error(parsed.error);
+    const { breakdown } = calculateTrustScore(calculateHeuristics(link).findings, {}, undefined, parsed.profile);
+
+    expect(breakdown.map(step => step.code)).not.toContain('no_https');
+    expect(scoreAiRecommendation('SAFE_TO_FOLLOW', 75, 0.5, parsed.profile)).toEqual({ trustScore: 0.9, category: 'SAFE' });
+    expect(scoreAiRecommendation('CAUTION_ADVISED', 20, 0.5, parsed.profile)).toEqual({ trustScore: 0.6, category: 'SUSPICIOUS' });
+    expect(scoreAiRecommendation('AVOID', 80, 0.5, BUILT_IN_PROFILES.balanced)).toEqual({ trustScore: 0.3, category: 'DANGEROUS' });
+  });
+
+  it('should reject invalid custom profiles', () => {
+    expect(parseCustomProfile({ thresholds: { safe: 0.4, suspicious: 0.7 } })).toEqual({
+      error: 'thresholds.suspicious must be lower than thresholds.safe'
+    });
+    expect(parseCustomProfile({ thresholds: { safe: 0.7, suspicious: 0.4 }, providerBlend: 2 })).toHaveProperty('error');
+    expect(parseCustomProfile({ thresholds: { safe: 0.7, suspicious: 0.4 }, findingWeights: { 'No HTTPS': 0.1 } })).toHaveProperty('error');
+    expect(parseCustomProfile(null)).toEqual({ error: 'Custom profile must be an object' });
+    expect(parseCustomProfile({ thresholds: { safe: '0.7', suspicious: 0.4 } })).toEqual({
+      error: 'thresholds.safe and thresholds.suspicious must be numbers between 0 and 1'
+    });
+    expect(parseCustomProfile({ thresholds: { safe: 0.7, suspicious: 0.4 }, findingWeights: [0.1] })).toEqual({
+      error: 'findingWeights must map finding codes to weights'
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { pool } from '../db/index.js';
+import type { Finding, ScoringProfileName } from '../../shared/types.js';
+
+/**
+ * Scoring profiles: how heavily findings count, where the SAFE/SUSPICIOUS/DANGEROUS
+ * cutoffs lie and how much external providers weigh in. The built-in profiles live here;
+ * a user's custom profile and their choice of profile are stored in the database.
+ */
+
+export type ScoringProfile = {
+  name: ScoringProfileName;
+  weightScale: number; // Multiplies the weight every finding was created with
+  findingWeights: Record<string, number>; // Weights by finding code, replacing the scaled weight
+  thresholds: {
+    safe: number; // Scores from here up are SAFE
+    suspicious: number; // Scores from here up to `safe` are SUSPICIOUS, below are DANGEROUS
+  };
+  providerBlend: number; // Share of the external providers' score in the final score
+};
+
+export const SCORING_PROFILE_NAMES: readonly ScoringProfileName[] = ['strict', 'balanced', 'lenient', 'custom'];
+
+export const BALANCED_PROFILE: ScoringProfile = {
+  name: 'balanced',
+  weightScale: 1,
+  findingWeights: {},
+  thresholds: { safe: 0.7, suspicious: 0.4 },
+  providerBlend: 0.4
+};
+
+export const BUILT_IN_PROFILES: Readonly<Record<Exclude<ScoringProfileName, 'custom'>, ScoringProfile>> = {
+  strict: {
+    name: 'strict',
+    weightScale: 1.25,
+    findingWeights: {},
+    thresholds: { safe: 0.8, suspicious: 0.5 },
+    providerBlend: 0.5
+  },
+  balanced: BALANCED_PROFILE,
+  lenient: {
+    name: 'lenient',
+    weightScale: 0.75,
+    findingWeights: {},
+    thresholds: { safe: 0.6, suspicious: 0.3 },
+    providerBlend: 0.3
+  }
+};
+
+type ScoringProfileRow = {
+  scoring_profile: ScoringProfileName | null;
+  weight_scale: string | null;
+  finding_weights: Record<string, number> | null;
+  safe_threshold: string | null;
+  suspicious_threshold: string | null;
+  provider_blend: string | null;
+};
+
+const FINDING_CODE_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Weight a finding counts with under a profile
+ */
+export function getFindingWeight(profile: ScoringProfile, finding: Finding): number {
+  return profile.findingWeights[finding.code] ?? finding.weight * profile.weightScale;
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+const numberInRange = (min: number, max: number, message: string) =>
+  z.number({ required_error: message, invalid_type_error: message }).min(min, message).max(max, message);
+
+const THRESHOLDS_MESSAGE = 'thresholds.safe and thresholds.suspicious must be numbers between 0 and 1';
+
+const customProfileSchema = z.object({
+  weightScale: numberInRange(0, 3, 'weightScale must be a number between 0 and 3').default(1),
+  thresholds: z
+    .object(
+      { safe: numberInRange(0, 1, THRESHOLDS_MESSAGE), suspicious: numberInRange(0, 1, THRESHOLDS_MESSAGE) },
+      { required_error: THRESHOLDS_MESSAGE, invalid_type_error: THRESHOLDS_MESSAGE }
+    )
+    .refine(thresholds => thresholds.suspicious < thresholds.safe, 'thresholds.suspicious must be lower than thresholds.safe'),
+  providerBlend: numberInRange(0, 1, 'providerBlend must be a number between 0 and 1').default(BALANCED_PROFILE.providerBlend),
+  findingWeights: z
+    .record(z.unknown(), { invalid_type_error: 'findingWeights must map finding codes to weights' })
+    .superRefine((weights, ctx) => {
+      for (const [code, weight] of Object.entries(weights)) {
+        if (!FINDING_CODE_PATTERN.test(code) || !isNumberInRange(weight, -1, 1)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `findingWeights.${code} must be a weight between -1 and 1` });
+        }
+      }
+    })
+    .default({})
+}, { invalid_type_error: 'Custom profile must be an object', required_error: 'Custom profile must be an object' });
+
+/**
+ * Validate a custom profile sent by a user; returns the reason it is invalid
+ */
+export function parseCustomProfile(input: unknown): { profile: ScoringProfile } | { error: string } {
+  const result = customProfileSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.issues[0].message };
+  }
+
+  const { weightScale, findingWeights, thresholds, providerBlend } = result.data;
+  return {
+    profile: {
+      name: 'custom',
+      weightScale,
+      findingWeights: findingWeights as Record<string, number>,
+      thresholds: { safe: thresholds.safe, suspicious: thresholds.suspicious },
+      providerBlend
+    }
+  };
+}
+
+function toCustomProfile(row: ScoringProfileRow): ScoringProfile | null {
+  if (row.safe_threshold === null || row.suspicious_threshold === null) return null;
+  return {
+    name: 'custom',
+    weightScale: row.weight_scale !== null ? parseFloat(row.weight_scale) : 1,
+    findingWeights: row.finding_weights || {},
+    thresholds: { safe: parseFloat(row.safe_threshold), suspicious: parseFloat(row.suspicious_threshold) },
+    providerBlend: row.provider_blend !== null ? parseFloat(row.provider_blend) : BALANCED_PROFILE.providerBlend
+  };
+}
+
+async function loadProfileRow(userId: string): Promise<ScoringProfileRow | null> {
+  const result = await pool.query<ScoringProfileRow>(
+    `SELECT u.scoring_profile, p.weight_scale, p.finding_weights, p.safe_threshold, p.suspicious_threshold, p.provider_blend
+     FROM users u
+     LEFT JOIN scoring_profiles p ON p.user_id = u.id
+     WHERE u.id = $1`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * The user's selected profile and their custom profile, if they saved one
+ */
+export async function getUserScoringProfiles(userId: string): Promise<{ selected: ScoringProfileName; custom: ScoringProfile | null }> {
+  const row = await loadProfileRow(userId);
+  return {
+    selected: row?.scoring_profile || 'balanced',
+    custom: row ? toCustomProfile(row) : null
+  };
+}
+
+/**
+ * Profile to score a caller's links with; anonymous callers and lookup failures get the balanced profile
+ */
+export async function getScoringProfile(userId?: string): Promise<ScoringProfile> {
+  if (!userId) return BALANCED_PROFILE;
+
+  try {
+    const row = await loadProfileRow(userId);
+    if (!row?.scoring_profile || row.scoring_profile === 'balanced') return BALANCED_PROFILE;
+    if (row.scoring_profile === 'custom') return toCustomProfile(row) || BALANCED_PROFILE;
+    return BUILT_IN_PROFILES[row.scoring_profile] || BALANCED_PROFILE;
+  } catch (err) {
+    console.error(`[Scoring] Failed to load scoring profile of user ${userId}:`, err);
+    return BALANCED_PROFILE;
+  }
+}
+
+/**
+ * Select a profile for a user, saving their custom profile along with it when given
+ */
+export async function saveUserScoringProfile(userId: string, selected: ScoringProfileName, custom?: ScoringProfile): Promise<void> {
+  if (custom) {
+    await pool.query(
+      `INSERT INTO scoring_profiles (user_id, weight_scale, finding_weights, safe_threshold, suspicious_threshold, provider_blend)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (user_id) DO UPDATE SET
+         weight_scale = EXCLUDED.weight_scale,
+         finding_weights = EXCLUDED.finding_weights,
+         safe_threshold = EXCLUDED.safe_threshold,
+         suspicious_threshold = EXCLUDED.suspicious_threshold,
+         provider_blend = EXCLUDED.provider_blend,
+         updated_at = now()`,
+      [
+        userId,
+        custom.weightScale,
+        JSON.stringify(custom.findingWeights),
+        custom.thresholds.safe,
+        custom.thresholds.suspicious,
+        custom.providerBlend
+      ]
+    );
+  }
+  await pool.query('UPDATE users SET scoring_profile = $1 WHERE id = $2', [selected, userId]);
+}
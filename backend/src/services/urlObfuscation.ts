@@ -0,0 +1,120 @@
+import { getRegistrableDomain } from '../../shared/publicSuffix.js';
+import { getMappedIpv4 } from './privateNetwork.js';
+
+/**
+ * URL obfuscation checks: tricks that make a link look like it goes somewhere else.
+ * Browsers normalize most of them away ('http://3232235777' becomes 'http://192.168.1.1'),
+ * so the raw href as written in the page is compared with the parsed URL.
+ */
+
+export type UrlObfuscationCode =
+  | 'userinfo_in_url'
+  | 'numeric_ip_host'
+  | 'ipv6_host'
+  | 'excessive_subdomains'
+  | 'host_confusion'
+  | 'percent_encoded_host';
+
+export interface UrlObfuscation {
+  code: UrlObfuscationCode;
+  evidence: string;
+}
+
+const MAX_SUBDOMAIN_LEVELS = 4;
+const DOTTED_QUAD_PATTERN = /^(\d{1,3}\.){3}\d{1,3}$/;
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Authority ('user@host:port') of an absolute or protocol-relative href as written,
+ * or null for relative hrefs. Backslashes and whitespace are kept.
+ */
+function getRawAuthority(rawHref: string): string | null {
+  const match = rawHref.match(/^\s*(?:[a-z][a-z0-9+.-]*:[\\/\s]*|[\\/]{2}[\\/\s]*)([^/?#]*)/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Host part of a raw authority (after the last '@', without the port)
+ */
+function getRawHost(authority: string): string {
+  const host = authority.slice(authority.lastIndexOf('@') + 1);
+  return host.startsWith('[') ? host.replace(/\]:\d*$/, ']') : host.replace(/:\d*$/, '');
+}
+
+/**
+ * Obfuscation tricks in a link. `rawHref` is the href attribute as written in the page;
+ * without it only the tricks that survive URL parsing (userinfo, IPv6, subdomains) are found.
+ */
+export function detectUrlObfuscation(url: URL, rawHref?: string): UrlObfuscation[] {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return [];
+
+  const obfuscations: UrlObfuscation[] = [];
+  const host = url.hostname.toLowerCase();
+
+  // 'https://paypal.com@evil.tld' - everything before '@' is a user name, not the site
+  if (url.username || url.password) {
+    const userinfo = safeDecode(url.username) + (url.password ? `:${safeDecode(url.password)}` : '');
+    obfuscations.push({
+      code: 'userinfo_in_url',
+      evidence: `"${userinfo.slice(0, 80)}@" before the host is ignored - the link goes to ${host}`
+    });
+  }
+
+  const authority = rawHref ? getRawAuthority(rawHref) : null;
+  if (authority !== null) {
+    const rawHost = getRawHost(authority);
+
+    // 'https://evil.tld\paypal.com' or a tab/newline inside the host: browsers and other parsers disagree
+    if (/[\\\s]/.test(authority)) {
+      const trick = authority.includes('\\') ? 'A backslash' : 'Whitespace';
+      obfuscations.push({
+        code: 'host_confusion',
+        evidence: `${trick} in "${authority.replace(/\s/g, ' ').slice(0, 80)}" hides the real host - browsers open ${host}`
+      });
+    }
+
+    // 'evil%2ecom' - percent-encoded characters (usually dots) in the host
+    if (/%[0-9a-f]{2}/i.test(rawHost)) {
+      obfuscations.push({
+        code: 'percent_encoded_host',
+        evidence: `Host "${rawHost.slice(0, 80)}" is percent-encoded and decodes to ${host}`
+      });
+    }
+
+    // '3232235777', '0300.0250.1.1', '0xC0.0xA8.1.1' - IPv4 written in another notation
+    const writtenHost = safeDecode(rawHost).replace(/\s/g, '').toLowerCase().replace(/\.$/, '');
+    if (DOTTED_QUAD_PATTERN.test(host) && writtenHost !== host) {
+      obfuscations.push({
+        code: 'numeric_ip_host',
+        evidence: `"${rawHost.slice(0, 80)}" is the IP address ${host} in disguise`
+      });
+    }
+  }
+
+  if (host.startsWith('[')) {
+    const mappedIpv4 = getMappedIpv4(host);
+    obfuscations.push({
+      code: 'ipv6_host',
+      evidence: `Link goes to the IPv6 address ${host}${mappedIpv4 ? ` (IPv4 ${mappedIpv4})` : ''}`
+    });
+  } else if (!DOTTED_QUAD_PATTERN.test(host)) {
+    // 'paypal.com.account.verify.secure.evil.tld' - the real site is lost among the subdomains
+    const registrable = getRegistrableDomain(host);
+    const subdomainLevels = registrable ? host.split('.').length - registrable.split('.').length : 0;
+    if (subdomainLevels > MAX_SUBDOMAIN_LEVELS) {
+      obfuscations.push({
+        code: 'excessive_subdomains',
+        evidence: `${subdomainLevels} subdomain levels in "${host.slice(0, 80)}" - the site is really ${registrable}`
+      });
+    }
+  }
+
+  return obfuscations;
+}
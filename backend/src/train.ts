@@ -0,0 +1,130 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { parseCorpus, type CorpusEntry } from './services/evaluation.js';
+import { calculateHeuristics } from './services/heuristics.js';
+import { DEFAULT_MODEL_PATH, extractFeatures, saveScoringModel, trainScoringModel, type TrainingExample } from './services/scoringModel.js';
+import type { ScoringInput } from './services/scoring.js';
+
+/**
+ * Train the logistic-regression scoring model
+ * Usage: npm run train-model -- [corpus.csv|corpus.jsonl ...] [--db] [--out model.json]
+ *                               [--epochs 500] [--l2 0.01]
+ * Labeled corpus URLs are scored with the heuristics; --db adds the url_verdicts rows
+ * an admin confirmed (PUT /api/admin/scans/:id/label).
+ */
+
+const USAGE = 'Usage: npm run train-model -- [corpus.csv|corpus.jsonl ...] [--db] [--out model.json] [--epochs 500] [--l2 0.01]';
+
+type TrainArgs = { corpora: string[]; db: boolean; out: string; epochs?: number; l2?: number };
+
+function parseArgs(args: string[]): TrainArgs {
+  const options: Record<string, string> = {};
+  const corpora: string[] = [];
+  let db = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--db') {
+      db = true;
+    } else if (arg.startsWith('--')) {
+      const value = args[i + 1];
+      if (!value || value.startsWith('--')) {
+        throw new Error(`${arg} needs a value`);
+      }
+      options[arg.slice(2)] = value;
+      i++;
+    } else {
+      corpora.push(arg);
+    }
+  }
+
+  if (corpora.length === 0 && !db) {
+    throw new Error('Expected a corpus file or --db');
+  }
+  const number = (name: string) => {
+    if (options[name] === undefined) return undefined;
+    const value = Number(options[name]);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`--${name} must be a non-negative number`);
+    }
+    return value;
+  };
+  return { corpora, db, out: options.out || DEFAULT_MODEL_PATH, epochs: number('epochs'), l2: number('l2') };
+}
+
+function corpusExamples(file: string): TrainingExample[] {
+  const format = path.extname(file).toLowerCase() === '.csv' ? 'csv' : 'jsonl';
+  const { entries, errors } = parseCorpus(fs.readFileSync(file, 'utf8'), format);
+  errors.forEach(error => console.warn(`⚠️  ${file} ${error} - skipped`));
+
+  return entries.map((entry: CorpusEntry) => {
+    let targetDomain = '';
+    try {
+      targetDomain = new URL(entry.url).hostname;
+    } catch {
+      // calculateHeuristics reports invalid_url
+    }
+    const heuristics = calculateHeuristics({ href: entry.url, text: entry.text || '', targetDomain });
+    return { features: extractFeatures(heuristics.findings, heuristics.flags), benign: entry.label === 'benign' };
+  });
+}
+
+async function databaseExamples(): Promise<TrainingExample[]> {
+  // Imported here so the pool is only created (with the .env settings) when --db is given
+  const { pool } = await import('./db/index.js');
+  try {
+    const result = await pool.query<{ raw_findings: ScoringInput; confirmed_label: string }>(
+      `SELECT raw_findings, confirmed_label
+       FROM url_verdicts
+       WHERE confirmed_label IS NOT NULL AND raw_findings IS NOT NULL`
+    );
+    return result.rows.map(row => ({
+      features: extractFeatures(row.raw_findings.findings, row.raw_findings.flags, row.raw_findings.external),
+      benign: row.confirmed_label === 'benign'
+    }));
+  } finally {
+    await pool.end();
+  }
+}
+
+async function train() {
+  try {
+    dotenv.config();
+    const args = parseArgs(process.argv.slice(2));
+
+    const examples: TrainingExample[] = [];
+    for (const corpus of args.corpora) {
+      const corpusSet = corpusExamples(corpus);
+      console.log(`📄 ${corpus}: ${corpusSet.length} labeled URLs`);
+      examples.push(...corpusSet);
+    }
+    if (args.db) {
+      const confirmed = await databaseExamples();
+      console.log(`🗄️  url_verdicts: ${confirmed.length} confirmed scans`);
+      examples.push(...confirmed);
+    }
+
+    const model = trainScoringModel(examples, { epochs: args.epochs, l2: args.l2 });
+    const { training } = model;
+    console.log(`\nModel ${model.version}: ${training.examples} examples (${training.benign} benign, ${training.malicious} malicious)`);
+    console.log(`Log loss ${training.logLoss.toFixed(4)}, training accuracy ${(training.accuracy * 100).toFixed(1)}%`);
+    console.log(`Bias ${model.bias.toFixed(3)}`);
+
+    const strongest = Object.entries(model.weights)
+      .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+      .slice(0, 10);
+    console.log('\nStrongest features:');
+    strongest.forEach(([feature, weight]) => console.log(`  ${weight >= 0 ? '+' : ''}${weight.toFixed(3)}  ${feature}`));
+
+    saveScoringModel(model, args.out);
+    console.log(`\n✅ Model saved to ${args.out} (restart the backend to load it)`);
+    process.exit(0);
+  } catch (err) {
+    console.error('❌ Training failed:', (err as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+}
+
+train();
@@ -1,5 +1,8 @@
 import type { LinkMeta, LinkAnalysis, MessageType, SiteSettings, TrustVerdict } from '../types';
 
+// @ts-expect-error - Injected by Vite define
+const BACKEND_URL = typeof BACKEND_URL_INJECTED !== 'undefined' ? BACKEND_URL_INJECTED : 'http://localhost:3005';
+
 const CACHE_TTL = 60 * 60 * 1000; // 1 hour
 const DB_NAME = 'smarttrust_cache';
 const DB_VERSION = 1;
@@ -179,8 +182,6 @@ async function setSiteSettings(domain: string, enabled: boolean): Promise<void>
  * Call backend API to analyze links
  */
 async function analyzeLinks(links: LinkMeta[], domain: string): Promise<LinkAnalysis[]> {
-  // @ts-ignore - Injected by Vite define
-  const backendUrl = typeof BACKEND_URL_INJECTED !== 'undefined' ? BACKEND_URL_INJECTED : 'http://localhost:3005';
   
   // Get auth token if available
   const storage = await chrome.storage.local.get(['auth_token']);
@@ -241,7 +242,7 @@ Content: ${paragraphs}`.trim().slice(0, 3000);
       console.debug('Could not extract page context:', err);
     }
     
-    const response = await fetch(`${backendUrl}/api/analyze`, {
+    const response = await fetch(`${BACKEND_URL}/api/analyze`, {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -314,8 +315,6 @@ async function pollForAIUpdates(
     return;
   }
 
-  // @ts-ignore - Injected by Vite define
-  const backendUrl = typeof BACKEND_URL_INJECTED !== 'undefined' ? BACKEND_URL_INJECTED : 'http://localhost:3005';
   const storage = await chrome.storage.local.get(['auth_token', 'user']);
   const token = storage.auth_token;
 
@@ -328,7 +327,7 @@ async function pollForAIUpdates(
     }
 
     // Re-analyze to get updated results (backend will return cached AI results if available)
-    const response = await fetch(`${backendUrl}/api/ai-analyze`, {
+    const response = await fetch(`${BACKEND_URL}/api/ai-analyze`, {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -399,53 +398,199 @@ async function pollForAIUpdates(
   }
 }
 
+interface StreamEvent {
+  event: string;
+  data: string;
+}
+
 /**
- * Triggers AI analysis in the background and updates cache.
- * This is used when initial results are served from cache, but we want to refresh AI data.
+ * Split received Server-Sent Events text into complete events and the unfinished rest
+ */
+function parseStreamEvents(buffer: string): { events: StreamEvent[]; rest: string } {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() || '';
+  const events: StreamEvent[] = [];
+  
+  for (const block of blocks) {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+      // Lines starting with ':' are keep-alive comments
+    }
+    if (data.length > 0) {
+      events.push({ event, data: data.join('\n') });
+    }
+  }
+  
+  return { events, rest };
+}
+
+/**
+ * Analyzes links over the backend's AI update stream. Resolves with the initial verdicts,
+ * then forwards each AI update to the tab as it arrives. Rejects if the stream fails before
+ * the initial verdicts, so callers can fall back to /api/ai-analyze and polling; a stream
+ * that breaks off later hands over to polling itself.
+ */
+async function streamAIAnalysis(
+  links: LinkMeta[],
+  domain: string,
+  sourcePageContext: string,
+  tabId: number | undefined,
+  priorityUrl?: string,
+  priority?: 'click' | 'hover'
+): Promise<LinkAnalysis[]> {
+  const storage = await chrome.storage.local.get(['auth_token']);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'text/event-stream'
+  };
+  if (storage.auth_token) {
+    headers['Authorization'] = `Bearer ${storage.auth_token}`;
+  }
+  
+  const response = await fetch(`${BACKEND_URL}/api/ai-analyze/stream`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ links, domain, sourcePageContext, priorityUrl, priority })
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Backend stream error: ${response.statusText}`);
+  }
+  
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  
+  return new Promise((resolve, reject) => {
+    let analyses: LinkAnalysis[] | null = null;
+    let finished = false;
+    
+    const handleEvent = async ({ event, data }: StreamEvent) => {
+      const payload = JSON.parse(data);
+      if (event === 'initial') {
+        const initial: LinkAnalysis[] = payload.analyses || [];
+        analyses = initial;
+        resolve(initial);
+      } else if (event === 'update' && analyses) {
+        const update = payload.analysis as LinkAnalysis;
+        analyses[payload.index] = update;
+        await cacheVerdict(domain, analyses);
+        if (tabId) {
+          chrome.tabs.sendMessage(tabId, {
+            type: 'AI_ANALYSIS_UPDATE',
+            payload: [update]
+          } as MessageType).catch(err => {
+            // Tab might be closed or content script not ready
+            console.debug(`[Background] Could not send AI update to tab ${tabId}:`, err);
+          });
+        }
+      } else if (event === 'done') {
+        finished = true;
+      } else if (event === 'error') {
+        throw new Error(payload.error || 'AI analysis stream error');
+      }
+    };
+    
+    (async () => {
+      let buffer = '';
+      try {
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          const parsed = parseStreamEvents(buffer + value);
+          buffer = parsed.rest;
+          for (const event of parsed.events) {
+            await handleEvent(event);
+          }
+        }
+      } catch (err) {
+        console.warn('[Background] AI update stream failed:', err);
+      }
+      
+      if (!analyses) {
+        reject(new Error('AI update stream closed before the initial verdicts'));
+      } else if (!finished && tabId) {
+        console.log(`[Background] AI update stream ended early for ${domain}, polling instead`);
+        pollForAIUpdates(links, domain, tabId, 0);
+      }
+    })();
+  });
+}
+
+/**
+ * Gets the initial verdicts from /api/ai-analyze (AI analysis continues on the backend)
  */
-async function triggerAIAnalysis(links: LinkMeta[], domain: string, sourcePageContext: string, tabId?: number, priorityUrl?: string) {
-  // @ts-ignore - Injected by Vite define
-  const backendUrl = typeof BACKEND_URL_INJECTED !== 'undefined' ? BACKEND_URL_INJECTED : 'http://localhost:3005';
+async function requestAIAnalysis(
+  links: LinkMeta[],
+  domain: string,
+  sourcePageContext: string,
+  priorityUrl?: string,
+  priority?: 'click' | 'hover'
+): Promise<LinkAnalysis[]> {
   const storage = await chrome.storage.local.get(['auth_token', 'user']);
   const token = storage.auth_token;
   const userId = storage.user?.id;
+  
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json'
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  
+  const response = await fetch(`${BACKEND_URL}/api/ai-analyze`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      links,
+      domain,
+      userId,
+      sourcePageContext,
+      priorityUrl,
+      priority
+    })
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Backend error: ${response.statusText}`);
+  }
+  
+  const data = await response.json();
+  return data.analyses || [];
+}
 
+/**
+ * Triggers AI analysis in the background and updates cache.
+ * This is used when initial results are served from cache, but we want to refresh AI data.
+ */
+async function triggerAIAnalysis(
+  links: LinkMeta[],
+  domain: string,
+  sourcePageContext: string,
+  tabId?: number,
+  priorityUrl?: string,
+  priority?: 'click' | 'hover'
+) {
   try {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json'
-    };
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    console.log(`[Background] Triggering background AI analysis for ${links.length} links, priority: ${priorityUrl || 'none'}`);
-    const response = await fetch(`${backendUrl}/api/ai-analyze`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        links,
-        domain,
-        userId,
-        sourcePageContext,
-        priorityUrl // Pass priority URL
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Backend AI analysis error: ${response.statusText}`);
+    let initialAnalyses: LinkAnalysis[];
+    try {
+      initialAnalyses = await streamAIAnalysis(links, domain, sourcePageContext, tabId, priorityUrl, priority);
+    } catch (streamErr) {
+      console.warn('[Background] AI update stream unavailable, polling instead:', streamErr);
+      console.log(`[Background] Triggering background AI analysis for ${links.length} links, priority: ${priorityUrl || 'none'}`);
+      initialAnalyses = await requestAIAnalysis(links, domain, sourcePageContext, priorityUrl, priority);
+      // Start polling for AI updates (AI processing happens in background)
+      if (tabId && initialAnalyses.length > 0) {
+        pollForAIUpdates(links, domain, tabId, 0);
+      }
     }
 
-    const data = await response.json();
-    const initialAnalyses = data.analyses || [];
-
     if (initialAnalyses.length > 0) {
       await cacheVerdict(domain, initialAnalyses); // Cache initial results
       console.log(`[Background] Cached initial analysis for ${domain}`);
-
-      // Start polling for AI updates (AI processing happens in background)
-      if (tabId) {
-        pollForAIUpdates(links, domain, tabId, 0);
-      }
     }
   } catch (err) {
     console.error('Error triggering background AI analysis:', err);
@@ -485,41 +630,18 @@ chrome.runtime.onMessage.addListener(
             return;
           }
           
-          // Analyze with AI (returns initial results, then processes AI in parallel)
-          // @ts-ignore - Injected by Vite define
-          const backendUrl = typeof BACKEND_URL_INJECTED !== 'undefined' ? BACKEND_URL_INJECTED : 'http://localhost:3005';
-          const storage = await chrome.storage.local.get(['auth_token', 'user']);
-          const token = storage.auth_token;
-          const userId = storage.user?.id;
-          
+          // Analyze with AI: initial results at once, AI updates streamed as each link finishes
           try {
-            const headers: Record<string, string> = {
-              'Content-Type': 'application/json'
-            };
-            
-            if (token) {
-              headers['Authorization'] = `Bearer ${token}`;
-            }
-            
-            // Get initial analysis with AI processing (returns immediately, AI happens in background)
-            const response = await fetch(`${backendUrl}/api/ai-analyze`, {
-              method: 'POST',
-              headers,
-              body: JSON.stringify({
-                links,
-                domain,
-                userId,
-                sourcePageContext
-              })
-            });
-            
-            if (!response.ok) {
-              throw new Error(`Backend error: ${response.statusText}`);
+            let initialAnalyses: LinkAnalysis[];
+            try {
+              initialAnalyses = await streamAIAnalysis(links, domain, sourcePageContext, tab.id);
+            } catch (streamErr) {
+              console.warn('[Background] AI update stream unavailable, polling instead:', streamErr);
+              initialAnalyses = await requestAIAnalysis(links, domain, sourcePageContext);
+              // Poll for AI updates in the background
+              pollForAIUpdates(links, domain, tab.id, 0);
             }
             
-            const data = await response.json();
-            const initialAnalyses = data.analyses || [];
-            
             // Cache initial results
             await cacheVerdict(domain, initialAnalyses);
             
@@ -536,9 +658,6 @@ chrome.runtime.onMessage.addListener(
               chrome.action.setBadgeBackgroundColor({ color: '#ff4444' });
             }
             
-            // Start polling for AI updates in the background
-            pollForAIUpdates(links, domain, tab.id, 0);
-            
             sendResponse({ analyses: initialAnalyses });
           } catch (err) {
             console.error('Error analyzing links:', err);
@@ -576,7 +695,7 @@ chrome.runtime.onMessage.addListener(
             sendResponse({ analyses: [] });
           }
         } else if (message.type === 'AI_ANALYZE_LINK') {
-          // Handle priority AI analysis for hovered/clicked links
+          // Handle priority AI analysis for hovered/clicked links (clicked links are queued first)
           const { link, domain, priority } = message;
           const tab = sender.tab;
           
@@ -612,11 +731,8 @@ Content: ${paragraphs}`.trim().slice(0, 3000);
             }
           }).then(results => results[0]?.result || '').catch(() => '');
           
-          // Trigger priority AI analysis
-          triggerAIAnalysis([link], domain || new URL(tab.url).hostname, sourcePageContext, tab.id, priority ? link.href : undefined).catch(console.error);
-          
-          // Start polling for updates
-          pollForAIUpdates([link], domain || new URL(tab.url).hostname, tab.id, 0, 30);
+          // Trigger priority AI analysis (streams its update, or polls when the stream is unavailable)
+          triggerAIAnalysis([link], domain || new URL(tab.url).hostname, sourcePageContext, tab.id, priority ? link.href : undefined, priority).catch(console.error);
           
           sendResponse({ success: true });
         } else {
@@ -1,4 +1,17 @@
 import type { LinkMeta, MessageType, LinkAnalysis, TrustVerdict } from '../types';
+import { isAnalyzedScheme } from '../../../backend/shared/schemeRegistry';
+// Same built-in list and Public Suffix List matching as the backend
+import { isBuiltInTrustedDomain as isTrustedDomain } from '../../../backend/shared/trustedDomains';
+import { getDownloadRisk, getFinding, getIssueLabels, getPhishingReason, hasPhishingRisk as verdictHasPhishingRisk } from '../findings';
+import { isSafeLink, shouldAnalyzeLink } from './linkFilter';
+
+// What the user is about to download, for the download warning
+const DOWNLOAD_WARNINGS: Record<string, string> = {
+  double_extension_download: '📥 This file pretends to be a document but is a program. Opening it could infect your device.',
+  executable_download: '📥 This link downloads a program or script. Only run it if you trust where it came from.',
+  archive_lure_download: '📥 This link promises a document but downloads an archive, a common way to hide malware.',
+  disk_image_download: '📥 This link downloads a disk image, which can hide programs from security warnings.'
+};
 
 /**
  * Extract text snippet around an element (max chars)
@@ -108,81 +121,43 @@ function hasExtensionMarker(text: string): boolean {
 }
 
 /**
- * Trusted domains list (matches backend list)
- */
-const TRUSTED_DOMAINS = new Set([
-  'google.com', 'youtube.com', 'gmail.com', 'github.com', 'microsoft.com',
-  'apple.com', 'facebook.com', 'instagram.com', 'twitter.com', 'x.com',
-  'linkedin.com', 'amazon.com', 'netflix.com', 'spotify.com', 'reddit.com',
-  'wikipedia.org', 'stackoverflow.com', 'mozilla.org', 'firefox.com',
-  'office.com', 'outlook.com', 'live.com', 'hotmail.com', 'bing.com',
-  'azure.com', 'aws.amazon.com', 'cloud.google.com', 'dropbox.com',
-  'adobe.com', 'zoom.us', 'slack.com', 'discord.com', 'telegram.org',
-  'paypal.com', 'stripe.com', 'shopify.com', 'ebay.com', 'etsy.com',
-  'bbc.com', 'cnn.com', 'reuters.com', 'theguardian.com', 'nytimes.com',
-  'coursera.org', 'edx.org', 'khanacademy.org', 'udemy.com',
-  'docker.com', 'kubernetes.io', 'nodejs.org', 'python.org',
-  'npmjs.com', 'pypi.org', 'gitlab.com', 'bitbucket.org'
-]);
-
-/**
- * Check if domain is trusted (including subdomains)
+ * The href attribute as written, when it names a host and the browser rewrote it
+ * ('http://3232235777' reads back as 'http://192.168.1.1'). The backend checks it for obfuscation.
  */
-function isTrustedDomain(domain: string): boolean {
-  const domainLower = domain.toLowerCase();
-  const domainParts = domainLower.split('.');
-  
-  // Check exact match
-  if (TRUSTED_DOMAINS.has(domainLower)) {
-    return true;
-  }
-  
-  // Check base domain (e.g., 'mail.google.com' -> 'google.com')
-  if (domainParts.length >= 2) {
-    const baseDomain = domainParts.slice(-2).join('.');
-    if (TRUSTED_DOMAINS.has(baseDomain)) {
-      return true;
-    }
-  }
-  
-  return false;
+function getRawHref(anchor: Element, url: URL): string | undefined {
+  const rawHref = anchor.getAttribute('href') || '';
+  const namesHost = /^\s*([a-z][a-z0-9+.-]*:|[\\/]{2})/i.test(rawHref);
+  const isRewritten = rawHref.trim().replace(/\/$/, '') !== url.href.replace(/\/$/, '');
+  return namesHost && isRewritten ? rawHref.slice(0, 2048) : undefined;
 }
 
 /**
  * Extract link metadata from DOM
  * Speed optimizations:
- * - Skip same-domain links (trusted)
- * - Skip trusted/renowned domains (google.com, youtube.com, etc.)
+ * - Skip same-domain links unless the link embeds another site's URL (open redirect)
  * - Skip links with extension markers (already processed)
  * - Skip fragment-only links
+ * Trusted domains are sent too: the backend answers them at once and applies the deny lists.
  */
 function extractLinks(): LinkMeta[] {
   const results: LinkMeta[] = [];
   const anchors = Array.from(document.querySelectorAll('a[href]'));
-  const currentDomain = window.location.hostname;
+  const pageUrl = new URL(window.location.href);
   
   for (const a of anchors) {
     try {
       const href = (a as HTMLAnchorElement).href;
-      if (!href || href.startsWith('javascript:') || href.startsWith('data:')) {
+      // OS handlers, file shares, intents, tel:/sms: and blob: links are analyzed too -
+      // only script links (javascript:, data:) have nothing to look up
+      if (!href || !isAnalyzedScheme(href)) {
         continue;
       }
       
       const url = new URL(href, location.href);
       const text = (a.textContent || '').trim().slice(0, 200);
       
-      // Speed optimization: Skip same-domain links (trusted)
-      if (url.hostname === currentDomain) {
-        continue;
-      }
-      
-      // Speed optimization: Skip trusted/renowned domains (no AI check needed)
-      if (isTrustedDomain(url.hostname)) {
-        continue;
-      }
-      
-      // Speed optimization: Skip fragment-only links (same page)
-      if (url.href.split('#')[0] === window.location.href.split('#')[0]) {
+      // Speed optimization: Skip same-domain and fragment-only links
+      if (!shouldAnalyzeLink(url, pageUrl)) {
         continue;
       }
       
@@ -198,6 +173,7 @@ function extractLinks(): LinkMeta[] {
       
       results.push({
         href: url.href,
+        rawHref: getRawHref(a, url),
         text: text || url.href,
         rel: a.getAttribute('rel') || undefined,
         target: a.getAttribute('target') || undefined,
@@ -340,15 +316,14 @@ function highlightLinks(analyses: LinkAnalysis[]) {
     
     // Speed optimization: Only process non-safe links (skip highlighting safe links)
     const nonSafeAnalyses = analyses.filter(({ verdict }) => {
-      const hasPhishingRisk = verdict.issues.some((issue: string) => issue.includes('PHISHING_RISK') || issue.includes('typosquatting'));
-      return verdict.category !== 'SAFE' || hasPhishingRisk;
+      return verdict.category !== 'SAFE' || verdictHasPhishingRisk(verdict);
     });
     
     // Incremental update: only process changed links
     for (const { link, verdict } of nonSafeAnalyses) {
       try {
         const category = verdict.category;
-        const hasPhishingRisk = verdict.issues.some((issue: string) => issue.includes('PHISHING_RISK') || issue.includes('typosquatting'));
+        const hasPhishingRisk = verdictHasPhishingRisk(verdict);
         
         // Check if already highlighted with same category (skip if unchanged)
         const currentCategory = highlightedLinks.get(link.href);
@@ -430,7 +405,7 @@ function highlightLinks(analyses: LinkAnalysis[]) {
     updates.forEach(({ element, category, styles, verdict, href }) => {
       try {
         const score = verdict.trustScore;
-        const hasPhishingRisk = verdict.issues.some((issue: string) => issue.includes('PHISHING_RISK') || issue.includes('typosquatting'));
+        const hasPhishingRisk = verdictHasPhishingRisk(verdict);
         
         // Update styles efficiently
         element.style.position = 'relative';
@@ -443,11 +418,12 @@ function highlightLinks(analyses: LinkAnalysis[]) {
         
         // Update tooltip
         let tooltipText = `SmartTrust: ${(score * 100).toFixed(0)}% Trust Score`;
+        const issueLabels = getIssueLabels(verdict);
         if (hasPhishingRisk) {
-          const phishingIssue = verdict.issues.find((issue: string) => issue.includes('PHISHING_RISK') || issue.includes('typosquatting'));
+          const phishingIssue = getPhishingReason(verdict);
           tooltipText = `🚨 PHISHING RISK!\n${phishingIssue || 'Possible typosquatting detected'}\n\n${tooltipText}`;
-        } else if (verdict.issues.length > 0) {
-          tooltipText += `\n${verdict.issues.slice(0, 3).join(', ')}`;
+        } else if (issueLabels.length > 0) {
+          tooltipText += `\n${issueLabels.slice(0, 3).join(', ')}`;
         }
         element.setAttribute('title', tooltipText);
 
@@ -636,7 +612,7 @@ function setupHoverModal(element: HTMLElement, href: string, verdict: TrustVerdi
           targetDomain: new URL(linkHref).hostname
         },
         domain: window.location.hostname,
-        priority: true
+        priority: 'hover'
       } as MessageType).catch(err => {
         console.debug('[Hover] Could not trigger priority AI analysis:', err);
         hideLoadingSpinner(element);
@@ -710,6 +686,49 @@ function setupHoverModal(element: HTMLElement, href: string, verdict: TrustVerdi
   element.addEventListener('mouseleave', handleMouseLeave, true);
 }
 
+/**
+ * Collapsible "Why this score?" section listing how each finding and signal moved the trust score
+ */
+function createScoreBreakdownSection(verdict: TrustVerdict): HTMLElement | null {
+  const steps = verdict.scoreBreakdown;
+  if (!steps || steps.length === 0) return null;
+
+  const details = document.createElement('details');
+  details.setAttribute('data-smarttrust-score-breakdown', 'true');
+  details.style.cssText = 'margin-bottom: 8px; font-size: 12px; color: #475569;';
+
+  const summary = document.createElement('summary');
+  summary.style.cssText = 'cursor: pointer; font-weight: 600; color: #333;';
+  summary.textContent = `Why this score? (${(verdict.trustScore * 100).toFixed(0)}%)`;
+  details.appendChild(summary);
+
+  const list = document.createElement('ol');
+  list.style.cssText = 'margin: 4px 0 0 0; padding-left: 20px;';
+  steps.forEach(step => {
+    const li = document.createElement('li');
+    li.style.cssText = 'margin-bottom: 2px;';
+
+    const delta = document.createElement('span');
+    delta.style.cssText = `font-weight: 600; color: ${step.delta < 0 ? '#dc2626' : step.delta > 0 ? '#16a34a' : '#64748b'};`;
+    delta.textContent = step.kind === 'baseline'
+      ? `${(step.score * 100).toFixed(0)}%`
+      : `${step.delta > 0 ? '+' : step.delta < 0 ? '−' : '±'}${(Math.abs(step.delta) * 100).toFixed(0)}`;
+    li.appendChild(delta);
+    li.appendChild(document.createTextNode(` ${step.label}`));
+
+    if (step.kind !== 'baseline') {
+      const total = document.createElement('span');
+      total.style.cssText = 'color: #94a3b8;';
+      total.textContent = ` → ${(step.score * 100).toFixed(0)}%`;
+      li.appendChild(total);
+    }
+    list.appendChild(li);
+  });
+  details.appendChild(list);
+
+  return details;
+}
+
 /**
  * Show hover modal with safety information
  */
@@ -719,7 +738,7 @@ function showHoverModal(href: string, linkText: string, verdict: TrustVerdict, l
   
   const category = verdict.category;
   const trustScore = verdict.trustScore;
-  const hasPhishingRisk = verdict.issues.some((issue: string) => issue.includes('PHISHING_RISK') || issue.includes('typosquatting'));
+  const hasPhishingRisk = verdictHasPhishingRisk(verdict);
   
   // Create modal overlay
   const modal = document.createElement('div');
@@ -759,8 +778,25 @@ function showHoverModal(href: string, linkText: string, verdict: TrustVerdict, l
   score.textContent = `Trust Score: ${(trustScore * 100).toFixed(0)}%`;
   modal.appendChild(score);
   
+  // Link text pointing somewhere else than the href - show both domains up front
+  const mismatch = getFinding(verdict, 'text_href_mismatch');
+  if (mismatch) {
+    const mismatchDiv = document.createElement('div');
+    mismatchDiv.style.cssText = 'margin-bottom: 8px; padding: 8px; background: #fee2e2; border-left: 3px solid #dc2626; border-radius: 4px; color: #991b1b;';
+    const mismatchTitle = document.createElement('div');
+    mismatchTitle.style.cssText = 'font-weight: 600; margin-bottom: 2px;';
+    mismatchTitle.textContent = '🔀 Link text does not match its destination';
+    mismatchDiv.appendChild(mismatchTitle);
+    const mismatchText = document.createElement('div');
+    mismatchText.style.cssText = 'font-size: 12px;';
+    mismatchText.textContent = mismatch.evidence || 'The link goes to a different site than the one shown';
+    mismatchDiv.appendChild(mismatchText);
+    modal.appendChild(mismatchDiv);
+  }
+  
   // Issues/Reasons
-  if (verdict.issues && verdict.issues.length > 0) {
+  const issueLabels = getIssueLabels(verdict, { excludeCodes: ['text_href_mismatch'] });
+  if (issueLabels.length > 0) {
     const issuesDiv = document.createElement('div');
     issuesDiv.style.cssText = 'margin-bottom: 8px;';
     const issuesTitle = document.createElement('div');
@@ -770,7 +806,7 @@ function showHoverModal(href: string, linkText: string, verdict: TrustVerdict, l
     
     const issuesList = document.createElement('ul');
     issuesList.style.cssText = 'margin: 0; padding-left: 20px; color: #666;';
-    verdict.issues.slice(0, 5).forEach((issue: string) => {
+    issueLabels.slice(0, 5).forEach((issue: string) => {
       const li = document.createElement('li');
       li.textContent = issue;
       issuesList.appendChild(li);
@@ -778,7 +814,13 @@ function showHoverModal(href: string, linkText: string, verdict: TrustVerdict, l
     issuesDiv.appendChild(issuesList);
     modal.appendChild(issuesDiv);
   }
-  
+
+  // How the findings added up to the score
+  const breakdownSection = createScoreBreakdownSection(verdict);
+  if (breakdownSection) {
+    modal.appendChild(breakdownSection);
+  }
+
   // AI Summary if available
   if (verdict.gptSummary) {
     const summaryDiv = document.createElement('div');
@@ -850,44 +892,23 @@ function showHoverModal(href: string, linkText: string, verdict: TrustVerdict, l
 }
 
 /**
- * Check if a link is safe and should bypass confirmation modal
+ * Final URL of a verdict's redirect chain, if the link leads somewhere else
  */
-function isSafeLink(href: string, verdict: TrustVerdict | null): boolean {
+function getFinalDestination(verdict: TrustVerdict | null): { url: string; hostname: string; hops: number } | null {
+  const chain = verdict?.redirectChain;
+  if (!chain || chain.length < 2) return null;
+  
+  const finalUrl = chain[chain.length - 1].url;
   try {
-    const url = new URL(href, window.location.href);
-    const currentDomain = window.location.hostname;
-    
-    // Same-domain links are safe
-    if (url.hostname === currentDomain) {
-      return true;
-    }
-    
-    // Trusted domains are safe
-    if (isTrustedDomain(url.hostname)) {
-      return true;
-    }
-    
-    // Links marked as SAFE are safe
-    if (verdict?.category === 'SAFE') {
-      return true;
-    }
-    
-    // Links in cache marked as SAFE are safe
-    const cachedCategory = highlightedLinks.get(href);
-    if (cachedCategory === 'SAFE') {
-      return true;
-    }
-    
-    return false;
-  } catch (err) {
-    // Invalid URL, treat as unsafe to be cautious
-    return false;
+    return { url: finalUrl, hostname: new URL(finalUrl).hostname || finalUrl, hops: chain.length - 1 };
+  } catch {
+    return { url: finalUrl, hostname: finalUrl, hops: chain.length - 1 };
   }
 }
 
 /**
  * Intercept link clicks and show confirmation modal only for unsafe links
- * Safe links (trusted domains, same-domain, marked safe) bypass the modal
+ * Safe links (marked safe; same-domain and trusted ones until analyzed) bypass the modal
  */
 function setupClickInterception() {
   document.addEventListener('click', async (e) => {
@@ -932,7 +953,7 @@ function setupClickInterception() {
       }
       
       // Check if link is safe - if so, allow normal navigation
-      if (isSafeLink(href, verdict)) {
+      if (isSafeLink(href, verdict?.category || highlightedLinks.get(href), new URL(window.location.href))) {
         // Safe link - allow normal navigation, don't intercept
         return;
       }
@@ -952,7 +973,7 @@ function setupClickInterception() {
             targetDomain: new URL(href).hostname
           },
           domain: window.location.hostname,
-          priority: true
+          priority: 'click'
         } as MessageType).catch(() => {});
       } catch (err) {
         console.debug('Could not trigger priority AI analysis:', err);
@@ -1014,7 +1035,8 @@ function showConfirmationModal(href: string, linkText: string, verdict: TrustVer
     // Determine modal style based on verdict
     const category = verdict?.category || 'UNKNOWN';
     const trustScore = verdict?.trustScore ?? 0.5;
-    const hasPhishingRisk = verdict?.issues.some((issue: string) => issue.includes('PHISHING_RISK') || issue.includes('typosquatting')) || false;
+    const hasPhishingRisk = verdictHasPhishingRisk(verdict);
+    const downloadRisk = getDownloadRisk(verdict);
     
     let titleText = '🔗 Confirm Navigation';
     let titleColor = '#1e293b';
@@ -1024,6 +1046,10 @@ function showConfirmationModal(href: string, linkText: string, verdict: TrustVer
       titleText = '🚨 PHISHING RISK DETECTED!';
       titleColor = '#dc2626';
       borderColor = '#dc2626';
+    } else if (downloadRisk) {
+      titleText = '📥 Dangerous Download Detected';
+      titleColor = '#dc2626';
+      borderColor = '#dc2626';
     } else if (category === 'DANGEROUS') {
       titleText = '⚠️ Dangerous Link Detected';
       titleColor = '#ef4444';
@@ -1060,6 +1086,22 @@ function showConfirmationModal(href: string, linkText: string, verdict: TrustVer
     const summarySection = document.createElement('div');
     summarySection.style.cssText = 'margin-bottom: 20px; padding: 15px; background-color: #f8fafc; border-radius: 8px;';
     
+    // Redirect destination: where the shortener/tracking link really leads
+    const finalDestination = getFinalDestination(verdict);
+    if (finalDestination) {
+      const redirectNotice = document.createElement('div');
+      redirectNotice.style.cssText = 'padding: 12px; background-color: #eff6ff; border-left: 4px solid #3b82f6; border-radius: 6px; margin-bottom: 12px; font-size: 13px; color: #1e3a8a; line-height: 1.5;';
+      const redirectTitle = document.createElement('p');
+      redirectTitle.style.cssText = 'margin: 0 0 4px 0; font-weight: 600;';
+      redirectTitle.textContent = `↪️ This link actually goes to ${finalDestination.hostname}`;
+      redirectNotice.appendChild(redirectTitle);
+      const redirectUrl = document.createElement('p');
+      redirectUrl.style.cssText = 'margin: 0; font-size: 12px; word-break: break-all;';
+      redirectUrl.textContent = `${finalDestination.url} (after ${finalDestination.hops} redirect${finalDestination.hops === 1 ? '' : 's'})`;
+      redirectNotice.appendChild(redirectUrl);
+      summarySection.appendChild(redirectNotice);
+    }
+    
     // Phishing warning (highest priority)
     if (hasPhishingRisk) {
       const phishingWarning = document.createElement('div');
@@ -1070,7 +1112,7 @@ function showConfirmationModal(href: string, linkText: string, verdict: TrustVer
       phishingWarning.appendChild(phishingText);
       summarySection.appendChild(phishingWarning);
       
-      const phishingIssue = verdict?.issues.find((issue: string) => issue.includes('PHISHING_RISK') || issue.includes('typosquatting'));
+      const phishingIssue = getPhishingReason(verdict);
       if (phishingIssue) {
         const issueText = document.createElement('p');
         issueText.style.cssText = 'margin: 8px 0 0 0; font-size: 12px; color: #991b1b; line-height: 1.5;';
@@ -1079,6 +1121,24 @@ function showConfirmationModal(href: string, linkText: string, verdict: TrustVer
       }
     }
     
+    // Download warning: what the file really is
+    if (downloadRisk) {
+      const downloadWarning = document.createElement('div');
+      downloadWarning.style.cssText = 'padding: 12px; background-color: #fff7ed; border-left: 4px solid #ea580c; border-radius: 6px; margin-bottom: 12px;';
+      const downloadText = document.createElement('p');
+      downloadText.style.cssText = 'margin: 0; font-size: 13px; font-weight: 600; color: #9a3412; line-height: 1.5;';
+      downloadText.textContent = DOWNLOAD_WARNINGS[downloadRisk.code];
+      downloadWarning.appendChild(downloadText);
+      
+      if (downloadRisk.evidence) {
+        const fileText = document.createElement('p');
+        fileText.style.cssText = 'margin: 8px 0 0 0; font-size: 12px; color: #9a3412; line-height: 1.5; word-break: break-all;';
+        fileText.textContent = downloadRisk.evidence;
+        downloadWarning.appendChild(fileText);
+      }
+      summarySection.appendChild(downloadWarning);
+    }
+    
     // AI Analysis
     if (verdict?.gptSummary) {
       const aiTitle = document.createElement('h3');
@@ -1093,7 +1153,8 @@ function showConfirmationModal(href: string, linkText: string, verdict: TrustVer
     }
     
     // Issues list
-    if (verdict?.issues && verdict.issues.length > 0) {
+    const issueLabels = verdict ? getIssueLabels(verdict, { excludeCodes: downloadRisk ? [downloadRisk.code] : [] }) : [];
+    if (issueLabels.length > 0) {
       const issuesTitle = document.createElement('h3');
       issuesTitle.textContent = 'Detected Issues:';
       issuesTitle.style.cssText = 'margin: 12px 0 8px 0; font-size: 14px; font-weight: 600; color: #1e293b;';
@@ -1101,7 +1162,7 @@ function showConfirmationModal(href: string, linkText: string, verdict: TrustVer
       
       const issuesList = document.createElement('ul');
       issuesList.style.cssText = 'margin: 0; padding-left: 20px; font-size: 12px; color: #475569; line-height: 1.6;';
-      verdict.issues.slice(0, 5).forEach((issue: string) => {
+      issueLabels.slice(0, 5).forEach((issue: string) => {
         const li = document.createElement('li');
         li.textContent = issue;
         li.style.cssText = 'margin-bottom: 4px;';
@@ -1109,7 +1170,14 @@ function showConfirmationModal(href: string, linkText: string, verdict: TrustVer
       });
       summarySection.appendChild(issuesList);
     }
-    
+
+    // Score breakdown
+    const breakdownSection = verdict ? createScoreBreakdownSection(verdict) : null;
+    if (breakdownSection) {
+      breakdownSection.style.marginTop = '12px';
+      summarySection.appendChild(breakdownSection);
+    }
+
     // If no verdict available, show loading message
     if (!verdict) {
       const loadingText = document.createElement('p');
@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { isSafeLink, shouldAnalyzeLink } from './linkFilter';
+
+const pageUrl = new URL('https://news.example.com/article');
+
+describe('Links sent for analysis', () => {
+  it('should send links to trusted sites, so deny lists can apply to them', () => {
+    expect(shouldAnalyzeLink(new URL('https://www.google.com/'), pageUrl)).toBe(true);
+    expect(shouldAnalyzeLink(new URL('https://shop.example.org/'), pageUrl)).toBe(true);
+  });
+
+  it('should skip same-domain and same-page links, but not same-domain open redirects', () => {
+    expect(shouldAnalyzeLink(new URL('https://news.example.com/other'), pageUrl)).toBe(false);
+    expect(shouldAnalyzeLink(new URL('https://news.example.com/article#comments'), pageUrl)).toBe(false);
+    expect(shouldAnalyzeLink(new URL('https://news.example.com/out?url=https://evil.example.net/'), pageUrl)).toBe(true);
+  });
+});
+
+describe('Links followed without confirmation', () => {
+  it('should follow the verdict when there is one, even for trusted sites', () => {
+    expect(isSafeLink('https://www.google.com/', 'DANGEROUS', pageUrl)).toBe(false);
+    expect(isSafeLink('https://www.google.com/', 'SAFE', pageUrl)).toBe(true);
+    expect(isSafeLink('https://shop.example.org/', 'SAFE', pageUrl)).toBe(true);
+  });
+
+  it('should only let same-domain and trusted links through while they have no verdict', () => {
+    expect(isSafeLink('https://www.google.com/', undefined, pageUrl)).toBe(true);
+    expect(isSafeLink('https://news.example.com/other', undefined, pageUrl)).toBe(true);
+    expect(isSafeLink('https://shop.example.org/', undefined, pageUrl)).toBe(false);
+    expect(isSafeLink('https://www.google.com/url?q=https://evil.example.net/', undefined, pageUrl)).toBe(false);
+  });
+});
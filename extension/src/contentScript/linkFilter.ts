@@ -0,0 +1,55 @@
+import { getRegistrableDomain } from '../../../backend/shared/publicSuffix';
+import { extractEmbeddedUrls } from '../../../backend/shared/embeddedUrls';
+// Same built-in list and Public Suffix List matching as the backend
+import { isBuiltInTrustedDomain as isTrustedDomain } from '../../../backend/shared/trustedDomains';
+
+/**
+ * Which links the content script sends for analysis and which it lets through without
+ * asking. Trusted sites are sent like any other: the backend answers them at once, and
+ * only it knows the allow/deny lists that can override the built-in trusted list.
+ */
+
+/**
+ * Check if a URL embeds another site's URL in its parameters (open redirects such as
+ * "google.com/url?q=https://evil.tld")
+ */
+export function hasForeignEmbeddedUrl(url: URL): boolean {
+  const ownDomain = getRegistrableDomain(url.hostname) || url.hostname;
+  return extractEmbeddedUrls(url).some(embedded => {
+    const host = new URL(embedded.url).hostname;
+    return (getRegistrableDomain(host) || host) !== ownDomain;
+  });
+}
+
+/**
+ * Check if a link needs a verdict: same-domain links (unless they are open redirects)
+ * and links to another part of the same page do not
+ */
+export function shouldAnalyzeLink(url: URL, pageUrl: URL): boolean {
+  if (url.hostname === pageUrl.hostname && !hasForeignEmbeddedUrl(url)) {
+    return false;
+  }
+  return url.href.split('#')[0] !== pageUrl.href.split('#')[0];
+}
+
+/**
+ * Check if a link is safe to follow without the confirmation modal. The backend's verdict
+ * decides; same-domain and trusted links only pass on their own while there is none yet.
+ */
+export function isSafeLink(href: string, category: string | undefined, pageUrl: URL): boolean {
+  try {
+    if (category) {
+      return category === 'SAFE';
+    }
+
+    const url = new URL(href, pageUrl.href);
+    // Open redirects are only as safe as their target - leave them to the verdict
+    if (hasForeignEmbeddedUrl(url)) {
+      return false;
+    }
+    return url.hostname === pageUrl.hostname || isTrustedDomain(url.hostname);
+  } catch (err) {
+    // Invalid URL, treat as unsafe to be cautious
+    return false;
+  }
+}
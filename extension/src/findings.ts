@@ -0,0 +1,86 @@
+import type { Finding, FindingSeverity, TrustVerdict } from './types';
+
+/**
+ * Helpers for reading verdict findings in the UI.
+ * Verdicts from older backends have no `findings`, only the legacy `issues` strings.
+ */
+
+// Finding codes that mean the link impersonates another site
+const IMPERSONATION_CODES = new Set(['typosquatting', 'idn_homograph', 'brand_in_subdomain']);
+
+// Finding codes that mean the link downloads a dangerous file
+const DOWNLOAD_RISK_CODES = [
+  'double_extension_download',
+  'executable_download',
+  'archive_lure_download',
+  'disk_image_download'
+];
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  info: 0
+};
+
+function isLegacyPhishingIssue(issue: string): boolean {
+  return issue.includes('PHISHING_RISK') || issue.includes('typosquatting');
+}
+
+function describeFinding(finding: Finding): string {
+  return finding.evidence || finding.code;
+}
+
+/**
+ * Explanation of why a link looks like phishing, or null if it does not
+ */
+export function getPhishingReason(verdict: TrustVerdict | null | undefined): string | null {
+  if (!verdict) return null;
+
+  if (verdict.findings) {
+    const finding = verdict.findings.find(f => IMPERSONATION_CODES.has(f.code));
+    return finding ? describeFinding(finding) : null;
+  }
+
+  return verdict.issues.find(isLegacyPhishingIssue) || null;
+}
+
+/**
+ * First finding with the given code (older backends never report any)
+ */
+export function getFinding(verdict: TrustVerdict, code: string): Finding | null {
+  return verdict.findings?.find(finding => finding.code === code) || null;
+}
+
+/**
+ * Most severe dangerous-download finding, or null if the link downloads nothing risky
+ */
+export function getDownloadRisk(verdict: TrustVerdict | null | undefined): Finding | null {
+  const risks = verdict?.findings?.filter(finding => DOWNLOAD_RISK_CODES.includes(finding.code)) || [];
+  return risks.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])[0] || null;
+}
+
+export function hasPhishingRisk(verdict: TrustVerdict | null | undefined): boolean {
+  return getPhishingReason(verdict) !== null;
+}
+
+/**
+ * Display lines for a verdict's findings, most severe first.
+ * Pass `excludePhishing` or `excludeCodes` for findings already shown separately.
+ */
+export function getIssueLabels(
+  verdict: TrustVerdict,
+  options: { excludePhishing?: boolean; excludeCodes?: string[] } = {}
+): string[] {
+  if (!verdict.findings) {
+    const issues = verdict.issues || [];
+    return options.excludePhishing ? issues.filter(issue => !isLegacyPhishingIssue(issue)) : issues;
+  }
+
+  return verdict.findings
+    .filter(finding => !options.excludePhishing || !IMPERSONATION_CODES.has(finding.code))
+    .filter(finding => !options.excludeCodes?.includes(finding.code))
+    .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+    .map(describeFinding);
+}
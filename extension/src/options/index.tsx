@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
-import type { SiteSettings, UserPlan } from '../types';
+import type { ScoringProfileName, SiteSettings, UserPlan } from '../types';
 
 interface ScanHistory {
   domain: string;
@@ -10,11 +10,41 @@ interface ScanHistory {
   timestamp: number;
 }
 
+interface ScoringProfile {
+  name: ScoringProfileName;
+  weightScale: number;
+  findingWeights: Record<string, number>;
+  thresholds: { safe: number; suspicious: number };
+  providerBlend: number;
+}
+
+// @ts-expect-error - Injected by Vite define
+const BACKEND_URL = typeof BACKEND_URL_INJECTED !== 'undefined' ? BACKEND_URL_INJECTED : 'http://localhost:3005';
+
+const PROFILE_LABELS: Record<ScoringProfileName, { title: string; description: string }> = {
+  strict: { title: 'Strict', description: 'Problemele cântăresc mai mult, iar un link trebuie să aibă scor de cel puțin 80% ca să fie sigur.' },
+  balanced: { title: 'Echilibrat', description: 'Ponderile și pragurile implicite (sigur de la 70%, suspect de la 40%).' },
+  lenient: { title: 'Permisiv', description: 'Mai puține avertismente: problemele minore cântăresc mai puțin (sigur de la 60%).' },
+  custom: { title: 'Personalizat', description: 'Propriile praguri, ponderi și influența serviciilor externe.' }
+};
+
+const DEFAULT_CUSTOM_PROFILE: ScoringProfile = {
+  name: 'custom',
+  weightScale: 1,
+  findingWeights: {},
+  thresholds: { safe: 0.7, suspicious: 0.4 },
+  providerBlend: 0.4
+};
+
 function Options() {
   const [sites, setSites] = useState<SiteSettings[]>([]);
   const [plan, setPlan] = useState<UserPlan>('free');
   const [history, setHistory] = useState<ScanHistory[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const [authToken, setAuthToken] = useState<string | null>(null);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfileName>('balanced');
+  const [customProfile, setCustomProfile] = useState<ScoringProfile>(DEFAULT_CUSTOM_PROFILE);
+  const [profileMessage, setProfileMessage] = useState<string>('');
 
   useEffect(() => {
     loadData();
@@ -37,6 +67,56 @@ function Options() {
     
     setSites(siteSettings);
     setLoading(false);
+    
+    // Load the scoring profile (kept on the server, so it needs a signed-in user)
+    const token = allData.auth_token as string | undefined;
+    setAuthToken(token || null);
+    if (token) {
+      try {
+        const response = await fetch(`${BACKEND_URL}/api/user/me/scoring-profile`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setScoringProfile(data.selected);
+          if (data.custom) {
+            setCustomProfile(data.custom);
+          }
+        }
+      } catch (err) {
+        console.error('Failed to load scoring profile:', err);
+      }
+    }
+  };
+
+  const saveScoringProfile = async (profile: ScoringProfileName) => {
+    if (!authToken) return;
+    setProfileMessage('');
+    
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/user/me/scoring-profile`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${authToken}`
+        },
+        body: JSON.stringify(profile === 'custom' ? { profile, custom: customProfile } : { profile })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setProfileMessage(`❌ ${data.error || 'Profilul nu a putut fi salvat'}`);
+        return;
+      }
+      setScoringProfile(data.selected);
+      setProfileMessage('✅ Profil salvat');
+    } catch (err) {
+      console.error('Failed to save scoring profile:', err);
+      setProfileMessage('❌ Serverul nu a putut fi contactat');
+    }
+  };
+
+  const updateCustomProfile = (changes: Partial<ScoringProfile>) => {
+    setCustomProfile({ ...customProfile, ...changes });
   };
 
   const toggleSite = async (domain: string, enabled: boolean) => {
@@ -90,6 +170,89 @@ function Options() {
         </div>
       </section>
 
+      <section style={{ marginBottom: '32px' }}>
+        <h2 style={{ fontSize: '18px', marginBottom: '16px' }}>Profil de evaluare</h2>
+        {!authToken ? (
+          <p style={{ color: '#666' }}>Conectați-vă din fereastra extensiei pentru a alege un profil de evaluare.</p>
+        ) : (
+          <div style={{ padding: '16px', backgroundColor: '#f8f9fa', borderRadius: '8px' }}>
+            {(Object.keys(PROFILE_LABELS) as ScoringProfileName[]).map((name) => (
+              <label key={name} style={{ display: 'flex', alignItems: 'flex-start', marginBottom: '8px', cursor: 'pointer' }}>
+                <input
+                  type="radio"
+                  name="scoring-profile"
+                  checked={scoringProfile === name}
+                  onChange={() => (name === 'custom' ? setScoringProfile(name) : saveScoringProfile(name))}
+                  style={{ marginRight: '8px', marginTop: '4px' }}
+                />
+                <span>
+                  <strong style={{ fontSize: '14px' }}>{PROFILE_LABELS[name].title}</strong>
+                  <span style={{ display: 'block', fontSize: '12px', color: '#666' }}>{PROFILE_LABELS[name].description}</span>
+                </span>
+              </label>
+            ))}
+            {scoringProfile === 'custom' && (
+              <div style={{ marginTop: '12px', display: 'grid', gridTemplateColumns: '1fr 100px', gap: '8px', alignItems: 'center', fontSize: '14px' }}>
+                <span>Sigur de la (0-1)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={customProfile.thresholds.safe}
+                  onChange={(e) => updateCustomProfile({ thresholds: { ...customProfile.thresholds, safe: parseFloat(e.target.value) } })}
+                />
+                <span>Suspect de la (0-1)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={customProfile.thresholds.suspicious}
+                  onChange={(e) => updateCustomProfile({ thresholds: { ...customProfile.thresholds, suspicious: parseFloat(e.target.value) } })}
+                />
+                <span>Multiplicator ponderi probleme (0-3)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={3}
+                  step={0.05}
+                  value={customProfile.weightScale}
+                  onChange={(e) => updateCustomProfile({ weightScale: parseFloat(e.target.value) })}
+                />
+                <span>Influența serviciilor externe (0-1)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={customProfile.providerBlend}
+                  onChange={(e) => updateCustomProfile({ providerBlend: parseFloat(e.target.value) })}
+                />
+                <button
+                  onClick={() => saveScoringProfile('custom')}
+                  style={{
+                    gridColumn: '1 / span 2',
+                    justifySelf: 'start',
+                    padding: '8px 16px',
+                    backgroundColor: '#007bff',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Salvează profilul personalizat
+                </button>
+              </div>
+            )}
+            {profileMessage && (
+              <p style={{ margin: '12px 0 0 0', fontSize: '12px', color: '#666' }}>{profileMessage}</p>
+            )}
+          </div>
+        )}
+      </section>
+
       <section style={{ marginBottom: '32px' }}>
         <h2 style={{ fontSize: '18px', marginBottom: '16px' }}>Setări per site</h2>
         {sites.length === 0 ? (
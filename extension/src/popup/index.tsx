@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import type { LinkAnalysis, MessageType } from '../types';
+import { getIssueLabels, getPhishingReason } from '../findings';
 
 interface User {
   id: string;
@@ -926,7 +927,7 @@ function Popup() {
                       {analysis.link.targetDomain}
                     </div>
                     {/* Phishing warning - show prominently */}
-                    {analysis.verdict.issues.some(issue => issue.includes('PHISHING_RISK') || issue.includes('typosquatting')) && (
+                    {getPhishingReason(analysis.verdict) && (
                       <div style={{ 
                         marginTop: '8px', 
                         padding: '12px',
@@ -943,7 +944,7 @@ function Popup() {
                           <strong>PHISHING RISK DETECTED!</strong>
                         </div>
                         <div style={{ fontSize: '11px', lineHeight: '1.5' }}>
-                          {analysis.verdict.issues.find(issue => issue.includes('PHISHING_RISK') || issue.includes('typosquatting'))}
+                          {getPhishingReason(analysis.verdict)}
                         </div>
                         <div style={{ marginTop: '8px', fontSize: '10px', fontStyle: 'italic' }}>
                           ⚠️ This domain may be trying to impersonate a legitimate website. Do not enter personal information.
@@ -952,9 +953,9 @@ function Popup() {
                     )}
                     
                     {/* Other issues */}
-                    {analysis.verdict.issues.filter(issue => !issue.includes('PHISHING_RISK') && !issue.includes('typosquatting')).length > 0 && (
+                    {getIssueLabels(analysis.verdict, { excludePhishing: true }).length > 0 && (
                       <div style={{ marginTop: '8px', fontSize: '11px', color: '#856404' }}>
-                        <strong>Issues:</strong> {analysis.verdict.issues.filter(issue => !issue.includes('PHISHING_RISK') && !issue.includes('typosquatting')).slice(0, 3).join(', ')}{analysis.verdict.issues.filter(issue => !issue.includes('PHISHING_RISK') && !issue.includes('typosquatting')).length > 3 ? '...' : ''}
+                        <strong>Issues:</strong> {getIssueLabels(analysis.verdict, { excludePhishing: true }).slice(0, 3).join(', ')}{getIssueLabels(analysis.verdict, { excludePhishing: true }).length > 3 ? '...' : ''}
                       </div>
                     )}
                     {analysis.verdict.gptSummary && (user.plan === 'premium' || user.plan === 'trial') && (
@@ -1,5 +1,6 @@
 export type LinkMeta = {
   href: string;
+  rawHref?: string; // href attribute as written, when the browser normalized it (numeric IPs, backslashes, '%2e')
   text: string;
   rel?: string;
   target?: string;
@@ -9,10 +10,43 @@ export type LinkMeta = {
   elementSelector?: string;
 };
 
+export type FindingSeverity = 'info' | 'low' | 'medium' | 'high' | 'critical';
+
+export type FindingSource = 'heuristics' | 'external' | 'ai';
+
+export type Finding = {
+  code: string; // Stable identifier, e.g. 'no_https', 'typosquatting'
+  severity: FindingSeverity;
+  weight: number; // Trust score penalty (0..1) applied when scoring
+  evidence?: string; // Human-readable detail, e.g. the impersonated brand
+  source: FindingSource;
+};
+
+export type RedirectHop = {
+  url: string;
+  status?: number; // HTTP status returned by this hop, if it was requested
+  via: 'initial' | 'http' | 'meta-refresh' | 'javascript'; // How this hop was reached
+};
+
+// One step of the trust score calculation, in the order it was applied
+export type ScoreStep = {
+  kind: 'baseline' | 'reputation' | 'finding' | 'flag' | 'external' | 'target' | 'ai' | 'list' | 'clamp';
+  label: string; // What caused the change, e.g. a finding's evidence
+  code?: string; // Finding code or flag name
+  delta: number; // Change this step made to the score
+  score: number; // Score after this step
+};
+
+// Named set of finding weights, category thresholds and provider blend used to score links
+export type ScoringProfileName = 'strict' | 'balanced' | 'lenient' | 'custom';
+
 export type TrustVerdict = {
   trustScore: number; // 0..1
   category: 'SAFE' | 'SUSPICIOUS' | 'DANGEROUS';
+  findings?: Finding[]; // Missing on verdicts from older backends
   issues: string[];
+  redirectChain?: RedirectHop[]; // Set when the link redirects elsewhere
+  scoreBreakdown?: ScoreStep[]; // How trustScore was reached
   gptSummary?: string;
   recommendation?: string;
   riskTags?: string[];
@@ -33,7 +67,7 @@ export type MessageType =
   | { type: 'GET_LINK_VERDICT'; href: string }
   | { type: 'GET_PAGE_LINKS'; tabId?: number }
   | { type: 'PAGE_LINKS_RESPONSE'; analyses: LinkAnalysis[] }
-  | { type: 'AI_ANALYZE_LINK'; link: LinkMeta; domain: string; priority?: boolean }
+  | { type: 'AI_ANALYZE_LINK'; link: LinkMeta; domain: string; priority?: 'click' | 'hover' }
   | { type: 'AI_ANALYSIS_UPDATE'; payload: LinkAnalysis[] }
   | { type: 'TOGGLE_AD_BLOCKER'; enabled: boolean };
 